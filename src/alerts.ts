@@ -0,0 +1,298 @@
+import { execFile } from "node:child_process";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { compare, parseAssertion, resolvePath, type Assertion } from "./assertions.js";
+import { defaultHistoryPath } from "./history.js";
+import type { Logger } from "./logger.js";
+import type { OutputData } from "./report.js";
+
+export const WEBHOOK_PRESETS = ["json", "slack"] as const;
+
+export type WebhookPreset = (typeof WEBHOOK_PRESETS)[number];
+
+export type AlertTarget = { webhook: string; preset: WebhookPreset } | { command: string };
+
+export type AlertRule = {
+  name: string;
+  // An assertion-style condition that holds while things are degraded, e.g. internet.ping.lossPct>5.
+  when: string;
+  // Empty: notify the shared alert targets.
+  targets: AlertTarget[];
+  // Seconds; null uses the shared cooldown.
+  cooldown: number | null;
+};
+
+export type AlertEventKind = "triggered" | "recovered";
+
+export type AlertEvent = {
+  event: AlertEventKind;
+  rule: string;
+  when: string;
+  value: unknown;
+  // When the condition started holding.
+  since: string;
+  timestamp: string;
+  text: string;
+};
+
+export type AlertRuleState = {
+  firing: boolean;
+  since: string | null;
+  // Whether this episode was announced, so a recovery is only sent for alerts someone saw.
+  notified: boolean;
+  sentAt: string | null;
+};
+
+export type AlertState = Record<string, AlertRuleState>;
+
+export type AlertDelivery = {
+  rule: string;
+  event: AlertEventKind;
+  target: string;
+  error: string | null;
+};
+
+export type AlertSettings = {
+  rules: AlertRule[];
+  targets: AlertTarget[];
+  cooldown: number;
+  stateFile: string;
+};
+
+export const DEFAULT_ALERT_COOLDOWN_SEC = 900;
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+const COMMAND_TIMEOUT_MS = 30_000;
+const IDLE: AlertRuleState = { firing: false, since: null, notified: false, sentAt: null };
+
+export function defaultAlertStatePath(
+  env: NodeJS.ProcessEnv = process.env,
+  platform: string = process.platform,
+  home?: string
+): string {
+  return path.join(path.dirname(defaultHistoryPath(env, platform, home)), "alerts.json");
+}
+
+function isWebhookUrl(raw: string): boolean {
+  if (!/^https?:\/\/\S+$/.test(raw)) return false;
+  try {
+    new URL(raw);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Accepts the config file's shapes: a bare http(s) URL, { webhook, preset? } or { command }.
+export function toAlertTarget(raw: unknown): AlertTarget | null {
+  if (typeof raw === "string") return isWebhookUrl(raw) ? { webhook: raw, preset: "json" } : null;
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) return null;
+
+  const { webhook, preset = "json", command, ...rest } = raw as Record<string, unknown>;
+  if (Object.keys(rest).length > 0) return null;
+  if (typeof webhook === "string" && command === undefined) {
+    const valid = isWebhookUrl(webhook) && (WEBHOOK_PRESETS as readonly unknown[]).includes(preset);
+    return valid ? { webhook, preset: preset as WebhookPreset } : null;
+  }
+  if (typeof command === "string" && command.trim() && webhook === undefined) return { command };
+  return null;
+}
+
+// Accepts a bare condition or { when, name?, targets?, cooldown? }.
+export function toAlertRule(raw: unknown): AlertRule | null {
+  if (typeof raw === "string") return raw.trim() ? { name: raw.trim(), when: raw.trim(), targets: [], cooldown: null } : null;
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) return null;
+
+  const { when, name = when, targets = [], cooldown = null, ...rest } = raw as Record<string, unknown>;
+  if (Object.keys(rest).length > 0 || typeof when !== "string" || !when.trim()) return null;
+  if (typeof name !== "string" || !name.trim() || !Array.isArray(targets)) return null;
+  if (cooldown !== null && !(typeof cooldown === "number" && Number.isFinite(cooldown) && cooldown > 0)) return null;
+
+  const parsed = targets.map(toAlertTarget);
+  if (parsed.some((target) => target === null)) return null;
+  return { name: name.trim(), when: when.trim(), targets: parsed as AlertTarget[], cooldown };
+}
+
+// Throws on a condition that doesn't parse, a duplicate name or a rule nobody would hear about.
+export function checkAlertRules(rules: AlertRule[], targets: AlertTarget[]): void {
+  const names = new Set<string>();
+  for (const rule of rules) {
+    if (names.has(rule.name)) throw new Error(`Duplicate alert rule "${rule.name}"; give each rule a unique name`);
+    names.add(rule.name);
+    parseAssertion(rule.when);
+    if (rule.targets.length === 0 && targets.length === 0) {
+      throw new Error(`Alert rule "${rule.name}" has nowhere to go; add --alert-webhook, --alert-slack or --alert-command`);
+    }
+  }
+}
+
+export function describeTarget(target: AlertTarget): string {
+  if ("command" in target) return "command";
+  // Webhook URLs often carry a secret token, so only the host is named.
+  return `${target.preset} webhook ${new URL(target.webhook).host}`;
+}
+
+function holds(actual: unknown, condition: Assertion): boolean | null {
+  // A value that wasn't collected says nothing either way; null only counts when the condition names it.
+  if (actual === undefined || (actual === null && condition.expected !== null)) return null;
+  return compare(actual, condition.operator, condition.expected);
+}
+
+function alertText(event: AlertEventKind, rule: AlertRule, value: unknown, output: OutputData): string {
+  const label = rule.name === rule.when ? rule.when : `"${rule.name}" (${rule.when})`;
+  const ssid = output.wifi?.ssid ? ` on ${output.wifi.ssid}` : "";
+  const status = event === "triggered" ? "ALERT" : "RECOVERED";
+  return `wifi-stats ${status}${ssid}: ${label}, value ${JSON.stringify(value)}`;
+}
+
+// Fires on the first report a condition holds, repeats once per cooldown while it keeps holding and sends
+// "recovered" when it clears. A re-trigger inside the cooldown stays quiet, so a flapping link doesn't spam.
+export function evaluateAlerts(
+  output: OutputData,
+  rules: AlertRule[],
+  state: AlertState,
+  cooldown: number,
+  now: Date = new Date()
+): { events: AlertEvent[]; state: AlertState } {
+  const events: AlertEvent[] = [];
+  const next: AlertState = {};
+
+  for (const rule of rules) {
+    const previous = state[rule.name] ?? IDLE;
+    const condition = parseAssertion(rule.when);
+    const value = resolvePath(output, condition.path);
+    const firing = holds(value, condition);
+    if (firing === null) {
+      next[rule.name] = previous;
+      continue;
+    }
+
+    const event = (kind: AlertEventKind, since: string) =>
+      events.push({
+        event: kind,
+        rule: rule.name,
+        when: rule.when,
+        value,
+        since,
+        timestamp: output.timestamp,
+        text: alertText(kind, rule, value, output)
+      });
+
+    if (!firing) {
+      if (previous.firing && previous.notified) event("recovered", previous.since ?? now.toISOString());
+      next[rule.name] = { ...IDLE, sentAt: previous.sentAt };
+      continue;
+    }
+
+    const since = previous.firing && previous.since ? previous.since : now.toISOString();
+    const cooldownMs = (rule.cooldown ?? cooldown) * 1000;
+    const cooling = previous.sentAt !== null && now.getTime() - Date.parse(previous.sentAt) < cooldownMs;
+    if (cooling) {
+      next[rule.name] = { ...previous, firing: true, since, notified: previous.firing && previous.notified };
+    } else {
+      event("triggered", since);
+      next[rule.name] = { firing: true, since, notified: true, sentAt: now.toISOString() };
+    }
+  }
+
+  return { events, state: next };
+}
+
+export function webhookPayload(preset: WebhookPreset, event: AlertEvent, output: OutputData): unknown {
+  return preset === "slack" ? { text: event.text } : { ...event, report: output };
+}
+
+export async function postWebhook(url: string, payload: unknown, signal?: AbortSignal): Promise<void> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(payload),
+    signal: signal ? AbortSignal.any([signal, AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)]) : AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+  });
+  await response.body?.cancel();
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+}
+
+// Runs through the shell with the report as JSON on stdin and the event in WIFI_STATS_ALERT_* variables.
+export function runAlertCommand(command: string, event: AlertEvent, output: OutputData): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const env = {
+      ...process.env,
+      WIFI_STATS_ALERT_EVENT: event.event,
+      WIFI_STATS_ALERT_RULE: event.rule,
+      WIFI_STATS_ALERT_WHEN: event.when,
+      WIFI_STATS_ALERT_VALUE: JSON.stringify(event.value),
+      WIFI_STATS_ALERT_TEXT: event.text
+    };
+    const child = execFile("sh", ["-c", command], { env, timeout: COMMAND_TIMEOUT_MS }, (error, _stdout, stderr) => {
+      if (error) reject(new Error(stderr.trim() || error.message));
+      else resolve();
+    });
+    // A command that ignores stdin may exit before reading it.
+    child.stdin?.on("error", () => {});
+    child.stdin?.end(JSON.stringify(output));
+  });
+}
+
+export async function deliverAlert(target: AlertTarget, event: AlertEvent, output: OutputData): Promise<AlertDelivery> {
+  const delivery = { rule: event.rule, event: event.event, target: describeTarget(target) };
+  try {
+    if ("command" in target) await runAlertCommand(target.command, event, output);
+    else await postWebhook(target.webhook, webhookPayload(target.preset, event, output));
+    return { ...delivery, error: null };
+  } catch (error) {
+    return { ...delivery, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export async function loadAlertState(file: string): Promise<AlertState> {
+  try {
+    const parsed = JSON.parse(await readFile(file, "utf8")) as unknown;
+    return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed) ? (parsed as AlertState) : {};
+  } catch {
+    // Missing or unreadable state only costs a repeated notification.
+    return {};
+  }
+}
+
+export async function saveAlertState(file: string, state: AlertState): Promise<void> {
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, `${JSON.stringify(state, null, 2)}\n`);
+}
+
+// State lives in a file so that scheduled one-off runs deduplicate as well as --watch and serve do.
+export function createAlerter(settings: AlertSettings, log: Logger): (output: OutputData) => Promise<AlertDelivery[]> {
+  checkAlertRules(settings.rules, settings.targets);
+
+  return async (output) => {
+    const previous = await loadAlertState(settings.stateFile);
+    const { events, state } = evaluateAlerts(output, settings.rules, previous, settings.cooldown);
+
+    const perEvent = await Promise.all(
+      events.map((event) => {
+        const rule = settings.rules.find((candidate) => candidate.name === event.rule) as AlertRule;
+        const targets = rule.targets.length > 0 ? rule.targets : settings.targets;
+        return Promise.all(targets.map((target) => deliverAlert(target, event, output)));
+      })
+    );
+
+    // An alert no target received doesn't count as sent: no cooldown starts and the next report retries it.
+    events.forEach((event, index) => {
+      if (event.event !== "triggered" || perEvent[index].some((delivery) => !delivery.error)) return;
+      const before = previous[event.rule] ?? IDLE;
+      state[event.rule] = { ...state[event.rule], notified: before.firing && before.notified, sentAt: before.sentAt };
+    });
+    try {
+      await saveAlertState(settings.stateFile, state);
+    } catch (error) {
+      log("error", "alerts.state.error", { file: settings.stateFile, error: error instanceof Error ? error.message : String(error) });
+    }
+
+    const deliveries = perEvent.flat();
+    for (const delivery of deliveries) {
+      if (delivery.error) log("error", "alerts.delivery.failed", delivery);
+      else log("success", `alerts.${delivery.event}`, delivery);
+    }
+    return deliveries;
+  };
+}
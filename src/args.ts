@@ -0,0 +1,185 @@
+export type FlagSpec<T> = {
+  name: string;
+  // Placeholder for the value, e.g. "<n>"; flags without one are switches.
+  value?: string;
+  description: string;
+  // Fixed values, offered by shell completion.
+  choices?: readonly string[];
+  // Returns an error message when the value is invalid.
+  apply: (target: T, value: string) => string | null;
+};
+
+export type PositionalSpec = {
+  name: string;
+  required: boolean;
+  description: string;
+  choices?: readonly string[];
+};
+
+export type CommandSpec<T> = {
+  // null for the top-level command.
+  name: string | null;
+  summary: string;
+  usage: string[];
+  positionals: PositionalSpec[];
+  flags: Array<FlagSpec<T>>;
+  // Extra help sections (exit codes, examples, ...), printed after the options.
+  footer?: string;
+};
+
+export type ParsedArgs = {
+  positionals: string[];
+  help: boolean;
+  errors: string[];
+};
+
+const HELP_FLAGS = ["-h", "--help"];
+
+// Optimal string alignment distance: like Levenshtein, but a swap of two neighbours costs 1.
+export function editDistance(left: string, right: string): number {
+  const rows = Array.from({ length: left.length + 1 }, (_, index) => [index, ...new Array<number>(right.length).fill(0)]);
+  for (let column = 0; column <= right.length; column += 1) rows[0][column] = column;
+
+  for (let i = 1; i <= left.length; i += 1) {
+    for (let j = 1; j <= right.length; j += 1) {
+      const cost = left[i - 1] === right[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && left[i - 1] === right[j - 2] && left[i - 2] === right[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[left.length][right.length];
+}
+
+export function suggest(input: string, candidates: readonly string[]): string | null {
+  const prefixed = candidates.filter((candidate) => input.length > 3 && candidate.startsWith(input));
+  if (prefixed.length === 1) return prefixed[0];
+
+  const limit = Math.max(1, Math.floor(input.replace(/^-+/, "").length / 4));
+  let best: string | null = null;
+  let bestDistance = Number.POSITIVE_INFINITY;
+  for (const candidate of candidates) {
+    const distance = editDistance(input, candidate);
+    if (distance <= limit && distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+export function withSuggestion(message: string, input: string, candidates: readonly string[]): string {
+  const match = suggest(input, candidates);
+  return match ? `${message} (did you mean ${match}?)` : message;
+}
+
+// A following argument only counts as the value if it does not look like another flag.
+function looksLikeFlag(arg: string): boolean {
+  return arg.startsWith("-") && arg.length > 1 && !/^-\d/.test(arg);
+}
+
+export function parseCommandArgs<T>(spec: CommandSpec<T>, argv: string[], target: T): ParsedArgs {
+  const flags = new Map(spec.flags.map((flag) => [flag.name, flag]));
+  const positionals: string[] = [];
+  const errors: string[] = [];
+  let help = false;
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+
+    if (arg === "--") {
+      positionals.push(...argv.slice(index + 1));
+      break;
+    }
+
+    if (HELP_FLAGS.includes(arg)) {
+      help = true;
+      continue;
+    }
+
+    if (!looksLikeFlag(arg)) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const equals = arg.startsWith("--") ? arg.indexOf("=") : -1;
+    const name = equals === -1 ? arg : arg.slice(0, equals);
+    const inline = equals === -1 ? undefined : arg.slice(equals + 1);
+    const flag = flags.get(name);
+
+    if (!flag) {
+      errors.push(withSuggestion(`Unknown option: ${name}`, name, [...flags.keys()]));
+      continue;
+    }
+
+    if (!flag.value) {
+      if (inline !== undefined) {
+        errors.push(`${name} does not take a value`);
+        continue;
+      }
+      const error = flag.apply(target, "");
+      if (error) errors.push(error);
+      continue;
+    }
+
+    let value = inline;
+    if (value === undefined && index + 1 < argv.length && !looksLikeFlag(argv[index + 1])) {
+      index += 1;
+      value = argv[index];
+    }
+
+    if (value === undefined || !value.trim()) {
+      errors.push(`${name} requires a value`);
+      continue;
+    }
+
+    if (flag.choices && !flag.choices.includes(value)) {
+      errors.push(withSuggestion(`${name} must be one of: ${flag.choices.join(", ")}`, value, flag.choices));
+      continue;
+    }
+
+    const error = flag.apply(target, value);
+    if (error) errors.push(error);
+  }
+
+  spec.positionals.forEach((positional, position) => {
+    const value = positionals[position];
+    if (value === undefined) {
+      if (positional.required) errors.push(`Missing argument <${positional.name}>`);
+      return;
+    }
+    if (positional.choices && !positional.choices.includes(value)) {
+      errors.push(
+        withSuggestion(`<${positional.name}> must be one of: ${positional.choices.join(", ")}`, value, positional.choices)
+      );
+    }
+  });
+
+  for (const extra of positionals.slice(spec.positionals.length)) {
+    errors.push(`Unexpected argument: ${extra}`);
+  }
+
+  return { positionals, help, errors };
+}
+
+export function renderHelp<T>(program: string, spec: CommandSpec<T>): string {
+  const title = spec.name ? `${program} ${spec.name}` : program;
+  const lines = [`${title} - ${spec.summary}`, "", "USAGE:", ...spec.usage.map((line) => `  ${line}`)];
+
+  const entries: Array<[string, string]> = [
+    ...spec.positionals.map((positional): [string, string] => [`<${positional.name}>`, positional.description]),
+    ...spec.flags.map((flag): [string, string] => [flag.value ? `${flag.name} ${flag.value}` : flag.name, flag.description]),
+    ["-h, --help", "Show help"]
+  ];
+  const width = Math.max(21, ...entries.map(([label]) => label.length + 2));
+
+  lines.push("", "OPTIONS:");
+  for (const [label, description] of entries) {
+    const [first, ...rest] = description.split("\n");
+    lines.push(`  ${label.padEnd(width)}${first}`, ...rest.map((line) => `  ${"".padEnd(width)}${line}`));
+  }
+
+  if (spec.footer) lines.push("", spec.footer.trimEnd());
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,112 @@
+import { readFile } from "node:fs/promises";
+
+export type AssertionOperator = "<" | "<=" | ">" | ">=" | "==" | "!=";
+
+export type AssertionValue = number | string | boolean | null;
+
+export type Assertion = {
+  expression: string;
+  path: string;
+  operator: AssertionOperator;
+  expected: AssertionValue;
+};
+
+export type AssertionResult = Assertion & {
+  actual: unknown;
+  passed: boolean;
+  reason: string | null;
+};
+
+export type AssertionReport = {
+  passed: number;
+  failed: number;
+  results: AssertionResult[];
+};
+
+const ASSERTION_PATTERN = /^\s*([A-Za-z_][\w]*(?:\.[\w]+)*)\s*(<=|>=|==|!=|<|>)\s*(.+?)\s*$/;
+
+function parseValue(raw: string): AssertionValue {
+  if (raw === "null") return null;
+  if (raw === "true") return true;
+  if (raw === "false") return false;
+  const quoted = raw.match(/^(["'])(.*)\1$/);
+  if (quoted) return quoted[2];
+  const number = Number(raw);
+  return Number.isFinite(number) ? number : raw;
+}
+
+export function parseAssertion(expression: string): Assertion {
+  const match = expression.match(ASSERTION_PATTERN);
+  if (!match) {
+    throw new Error(`Invalid assertion "${expression}": expected <path><op><value>, e.g. router.ping.avgMs<15`);
+  }
+
+  const operator = match[2] as AssertionOperator;
+  const expected = parseValue(match[3]);
+  if (["<", "<=", ">", ">="].includes(operator) && typeof expected !== "number") {
+    throw new Error(`Invalid assertion "${expression}": ${operator} needs a numeric value`);
+  }
+
+  return { expression: expression.trim(), path: match[1], operator, expected };
+}
+
+export async function loadAssertionFile(file: string): Promise<string[]> {
+  const raw = await readFile(file, "utf8");
+
+  if (file.endsWith(".json")) {
+    const parsed = JSON.parse(raw) as unknown;
+    if (!Array.isArray(parsed) || parsed.some((item) => typeof item !== "string")) {
+      throw new Error(`${file} must contain a JSON array of assertion strings`);
+    }
+    return parsed as string[];
+  }
+
+  // Plain-text rule files hold one assertion per line; "#" at the start or after whitespace starts a comment,
+  // so values like `wifi.ssid!=Guest#2` keep theirs.
+  return raw
+    .split("\n")
+    .map((line) => line.replace(/(^|\s)#.*$/, "").trim())
+    .filter((line) => line.length > 0);
+}
+
+export function resolvePath(data: unknown, path: string): unknown {
+  let current: unknown = data;
+  for (const key of path.split(".")) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+export function compare(actual: unknown, operator: AssertionOperator, expected: AssertionValue): boolean {
+  switch (operator) {
+    case "==":
+      return actual === expected;
+    case "!=":
+      return actual !== expected;
+    case "<":
+      return typeof actual === "number" && actual < (expected as number);
+    case "<=":
+      return typeof actual === "number" && actual <= (expected as number);
+    case ">":
+      return typeof actual === "number" && actual > (expected as number);
+    case ">=":
+      return typeof actual === "number" && actual >= (expected as number);
+  }
+}
+
+export function evaluateAssertions(data: unknown, assertions: Assertion[]): AssertionReport {
+  const results = assertions.map((assertion): AssertionResult => {
+    const actual = resolvePath(data, assertion.path);
+    if (actual === undefined) {
+      return { ...assertion, actual: null, passed: false, reason: `no value at ${assertion.path}` };
+    }
+
+    const passed = compare(actual, assertion.operator, assertion.expected);
+    const reason = passed ? null : actual === null ? `${assertion.path} was not collected` : null;
+    return { ...assertion, actual, passed, reason };
+  });
+
+  const passed = results.filter((result) => result.passed).length;
+  return { passed, failed: results.length - passed, results };
+}
@@ -0,0 +1,219 @@
+import { setTimeout as sleep } from "node:timers/promises";
+import { pingError, pingHost, type PingResult } from "./collector.js";
+import type { Logger } from "./logger.js";
+import type { PlatformBackend } from "./platform.js";
+import { runCommand, type CommandRunner } from "./runner.js";
+
+export type LoadSpec =
+  | { kind: "networkquality" }
+  | { kind: "download"; url: string }
+  | { kind: "upload"; url: string };
+
+export type LoadSummary = {
+  source: string;
+  bytes: number | null;
+  durationMs: number;
+  throughputMbps: number | null;
+  error: string | null;
+};
+
+// Runs until the signal aborts (or the load finishes on its own) and reports what it moved.
+export type LoadGenerator = {
+  name: string;
+  run: (signal: AbortSignal) => Promise<LoadSummary>;
+};
+
+export type BufferbloatGrade = "A+" | "A" | "B" | "C" | "D" | "F";
+
+export type BufferbloatResult = {
+  target: string;
+  load: LoadSummary;
+  idle: PingResult;
+  loaded: PingResult;
+  increaseMs: number | null;
+  grade: BufferbloatGrade | null;
+  error: string | null;
+};
+
+export type BufferbloatSettings = {
+  target: string;
+  samples: number;
+  warmupMs: number;
+};
+
+// Latency increase thresholds (ms) in the spirit of the Waveform bufferbloat test.
+const GRADES: Array<[number, BufferbloatGrade]> = [
+  [5, "A+"],
+  [30, "A"],
+  [60, "B"],
+  [200, "C"],
+  [400, "D"]
+];
+
+const UPLOAD_CHUNK = new Uint8Array(64 * 1024);
+
+export function parseLoadSpec(spec: string): LoadSpec {
+  if (spec === "networkquality") return { kind: "networkquality" };
+
+  const match = spec.match(/^(download|upload):(.+)$/);
+  if (!match || !URL.canParse(match[2])) {
+    throw new Error(`Invalid load "${spec}": expected networkquality, download:<url> or upload:<url>`);
+  }
+  return { kind: match[1] as "download" | "upload", url: match[2] };
+}
+
+export function gradeBufferbloat(increaseMs: number | null, loadedLossPct: number | null): BufferbloatGrade | null {
+  if (loadedLossPct === 100) return "F";
+  if (increaseMs === null) return null;
+  return GRADES.find(([limit]) => increaseMs < limit)?.[1] ?? "F";
+}
+
+function summarize(source: string, bytes: number, startedAt: number, error: string | null): LoadSummary {
+  const durationMs = Date.now() - startedAt;
+  return {
+    source,
+    bytes,
+    durationMs,
+    throughputMbps: durationMs > 0 ? Math.round(((bytes * 8) / durationMs / 1000) * 10) / 10 : null,
+    error
+  };
+}
+
+function isAbort(error: unknown): boolean {
+  return error instanceof Error && error.name === "AbortError";
+}
+
+export function speedTestLoad(backend: PlatformBackend, log: Logger, run: CommandRunner = runCommand): LoadGenerator {
+  return {
+    name: "networkquality",
+    run: async (signal) => {
+      const startedAt = Date.now();
+      // Stopping the load kills networkQuality; that is the normal end of the loaded phase, not a failure.
+      const quiet: Logger = (level, message, data) => {
+        if (!(signal.aborted && level === "error")) log(level, message, data);
+      };
+      const result = await backend.runSpeedTest(quiet, (command, args) => run(command, args, signal));
+      return {
+        source: "networkquality",
+        bytes: null,
+        durationMs: Date.now() - startedAt,
+        throughputMbps: result.downloadMbps,
+        error: signal.aborted ? null : result.error
+      };
+    }
+  };
+}
+
+export function httpDownloadLoad(url: string): LoadGenerator {
+  return {
+    name: `download:${url}`,
+    run: async (signal) => {
+      const startedAt = Date.now();
+      let bytes = 0;
+      try {
+        // Re-request until aborted so a finite file still loads the link for the whole phase.
+        while (!signal.aborted) {
+          const response = await fetch(url, { signal, cache: "no-store" });
+          if (!response.ok || !response.body) throw new Error(`HTTP ${response.status} from ${url}`);
+          for await (const chunk of response.body) {
+            bytes += chunk.byteLength;
+          }
+        }
+      } catch (error) {
+        if (!isAbort(error)) {
+          return summarize(`download:${url}`, bytes, startedAt, error instanceof Error ? error.message : String(error));
+        }
+      }
+      return summarize(`download:${url}`, bytes, startedAt, null);
+    }
+  };
+}
+
+export function httpUploadLoad(url: string): LoadGenerator {
+  return {
+    name: `upload:${url}`,
+    run: async (signal) => {
+      const startedAt = Date.now();
+      let bytes = 0;
+      const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          if (signal.aborted) {
+            controller.close();
+            return;
+          }
+          bytes += UPLOAD_CHUNK.byteLength;
+          controller.enqueue(UPLOAD_CHUNK);
+        }
+      });
+
+      try {
+        const response = await fetch(url, { method: "POST", body, signal, duplex: "half" } as RequestInit);
+        if (!response.ok) throw new Error(`HTTP ${response.status} from ${url}`);
+      } catch (error) {
+        if (!isAbort(error)) {
+          return summarize(`upload:${url}`, bytes, startedAt, error instanceof Error ? error.message : String(error));
+        }
+      }
+      return summarize(`upload:${url}`, bytes, startedAt, null);
+    }
+  };
+}
+
+export function createLoadGenerator(
+  spec: LoadSpec,
+  backend: PlatformBackend,
+  log: Logger,
+  run: CommandRunner = runCommand
+): LoadGenerator {
+  if (spec.kind === "download") return httpDownloadLoad(spec.url);
+  if (spec.kind === "upload") return httpUploadLoad(spec.url);
+  return speedTestLoad(backend, log, run);
+}
+
+export function bufferbloatError(target: string, source: string, samples: number, error: string): BufferbloatResult {
+  return {
+    target,
+    load: { source, bytes: null, durationMs: 0, throughputMbps: null, error },
+    idle: pingError(target, samples, error),
+    loaded: pingError(target, samples, error),
+    increaseMs: null,
+    grade: null,
+    error
+  };
+}
+
+export async function measureBufferbloat(
+  settings: BufferbloatSettings,
+  load: LoadGenerator,
+  log: Logger,
+  run: CommandRunner = runCommand
+): Promise<BufferbloatResult> {
+  log("info", "collect.bufferbloat.start", { target: settings.target, load: load.name });
+  const idle = await pingHost(settings.target, settings.samples, log, run);
+
+  const controller = new AbortController();
+  let loadEnded = false;
+  const loadRun = load.run(controller.signal).finally(() => (loadEnded = true));
+  await sleep(settings.warmupMs);
+  const loaded = await pingHost(settings.target, settings.samples, log, run);
+  // A load that stopped on its own left the loaded pings measuring an idle link.
+  const endedEarly = loadEnded;
+  controller.abort();
+  const summary = await loadRun;
+  const loadError =
+    summary.error ?? (endedEarly ? `load ${load.name} ended after ${summary.durationMs} ms, before the loaded pings finished` : null);
+
+  const increaseMs =
+    idle.avgMs !== null && loaded.avgMs !== null ? Math.round((loaded.avgMs - idle.avgMs) * 1000) / 1000 : null;
+  const grade = loadError ? null : gradeBufferbloat(increaseMs, loaded.lossPct);
+  // Losing every loaded ping is an F, not a failed measurement; any other loaded failure leaves no grade.
+  const error = loadError ?? (grade === null ? loaded.error : null) ?? idle.error ?? null;
+
+  if (error) {
+    log("error", "collect.bufferbloat.error", { error });
+  } else {
+    log("success", "collect.bufferbloat.success", { increaseMs, grade });
+  }
+
+  return { target: settings.target, load: summary, idle, loaded, increaseMs, grade, error };
+}
@@ -1,308 +1,624 @@
 #!/usr/bin/env node
 
 import { readFile } from "node:fs/promises";
-import type { DnsLookupResult, PingResult, SpeedTestResult } from "./collector.js";
+import { createAlerter, defaultAlertStatePath, type AlertDelivery } from "./alerts.js";
+import { parseCommandArgs, renderHelp, withSuggestion, type CommandSpec } from "./args.js";
+import { evaluateAssertions, loadAssertionFile, parseAssertion, type Assertion } from "./assertions.js";
+import { parseLoadSpec } from "./bufferbloat.js";
+import { pingError, pingHost, speedTestError } from "./collector.js";
 import {
-  dnsLookup,
-  getAirportInfo,
-  getDefaultGateway,
-  getDnsServer,
-  pingHost,
-  runSpeedTest
-} from "./collector.js";
-import type { WifiStats } from "./parsers.js";
+  COMPARE_COMMAND,
+  COMPLETION_COMMAND,
+  CONFIG_COMMAND,
+  DNS_COMMAND,
+  HISTORY_COMMAND,
+  PATH_COMMAND,
+  PING_COMMAND,
+  PROGRAM,
+  ROOT_COMMAND,
+  SCAN_COMMAND,
+  SCHEMA_COMMAND,
+  SERVE_COMMAND,
+  SPEEDTEST_COMMAND,
+  SUBCOMMANDS,
+  WIFI_COMMAND,
+  collectArgs,
+  compareOptions,
+  historyOptions,
+  serveArgs,
+  type CollectArgs
+} from "./commands.js";
+import { compareSnapshots, loadSnapshots, renderComparison } from "./compare.js";
+import { renderCompletion, type Shell } from "./completion.js";
+import { defaultConfigPath, loadConfig, resolveOptions, type ResolvedOptions } from "./config.js";
+import { parseConnectivityUrl } from "./connectivity.js";
+import { createRecordingTransport, dnsLookup, lookupError, udpTransport, type DnsRecordType, type DnsTransport } from "./dns.js";
+import { startExporter } from "./exporter.js";
+import { FORMATTERS, isOutputFormat, type OutputFormat } from "./formatters.js";
+import { collectWifiStats } from "./index.js";
+import {
+  aggregateHistory,
+  appendHistory,
+  defaultHistoryPath,
+  filterHistory,
+  pruneHistory,
+  readHistory,
+  renderHistory
+} from "./history.js";
 import { log } from "./logger.js";
+import { collectPath, type PathReport } from "./path.js";
+import { selectBackend, type PlatformBackend } from "./platform.js";
+import { parseProbeTarget } from "./probes.js";
+import { analyzeScan, renderScan } from "./scan.js";
+import {
+  colorize,
+  formatTable,
+  renderDnsLookupLines,
+  renderPath,
+  renderPingLines,
+  renderResolverLines,
+  renderSpeedTestLines,
+  renderWifiLines
+} from "./render.js";
+import { hasCollectionError, type Options, type OutputData } from "./report.js";
+import { compareResolvers, resolverCandidates } from "./resolvers.js";
+import { createRecordingRunner, loadReplay, runCommand, type CommandRunner } from "./runner.js";
+import { OUTPUT_SCHEMA } from "./schema.js";
+import { createStages, resolveTimeouts, type Stages } from "./stages.js";
+import { renderWatchSummary, runWatch } from "./watch.js";
+
+const EXIT_ASSERTION_FAILED = 3;
+// 128 + signal number, as a shell reports a process killed by it.
+const EXIT_INTERRUPTED: Partial<Record<NodeJS.Signals, number>> = { SIGINT: 130, SIGTERM: 143 };
+
+// A failed assertion takes precedence over a collector failure.
+function resultExitCode(output: OutputData): number {
+  if ((output.assertions?.failed ?? 0) > 0) return EXIT_ASSERTION_FAILED;
+  return hasCollectionError(output) ? 1 : 0;
+}
 
-const HELP_TEXT = `wifi-stats - macOS Wi-Fi diagnostics
-
-USAGE:
-  wifi-stats [options]
-
-OPTIONS:
-  --json               Output JSON only
-  --pretty             Force pretty output
-  --samples <n>        Ping samples (default: 12)
-  --internet-host <h>  Internet ping target (default: 1.1.1.1)
-  --router-host <h>    Router ping target (default: system gateway)
-  --dns-host <h>       DNS lookup hostname (default: cloudflare.com)
-  --speedtest          Run networkQuality speed test
-  --no-color           Disable ANSI color
-  -h, --help           Show help
-  --version            Show version
-`;
-
-type Options = {
-  json: boolean;
-  pretty: boolean;
-  samples: number;
-  internetHost: string;
-  routerHost: string | null;
-  dnsHost: string;
-  speedtest: boolean;
-  noColor: boolean;
-};
-
-type ParseResult = {
+type CommandContext = {
   options: Options;
-  showHelp?: boolean;
-  showVersion?: boolean;
-  unknown?: string[];
+  positionals: string[];
+  backend: PlatformBackend;
+  run: CommandRunner;
+  dns: DnsTransport;
+  stage: Stages["stage"];
 };
 
-type OutputData = {
-  timestamp: string;
-  wifi: WifiStats | null;
-  router: {
-    gateway: string | null;
-    ping: PingResult | null;
-  };
-  internet: {
-    target: string;
-    ping: PingResult | null;
-  };
-  dns: {
-    server: string | null;
-    source: "router" | "system";
-    lookup: DnsLookupResult | null;
-  };
-  speedtest: SpeedTestResult | null;
-  meta: {
-    samples: number;
-    dnsHost: string;
-    speedtest: boolean;
-  };
-};
+async function loadVersion(): Promise<string> {
+  const pkgUrl = new URL("../package.json", import.meta.url);
+  const pkgRaw = await readFile(pkgUrl, "utf8");
+  const pkg = JSON.parse(pkgRaw) as { version: string };
+  return pkg.version;
+}
 
-function parseArgs(argv: string[]): ParseResult {
-  const options: Options = {
-    json: false,
-    pretty: false,
-    samples: 12,
-    internetHost: "1.1.1.1",
-    routerHost: null,
-    dnsHost: "cloudflare.com",
-    speedtest: false,
-    noColor: false
-  };
+// Prints help or usage errors and exits; otherwise returns the positional arguments.
+function parseOrExit<T>(spec: CommandSpec<T>, argv: string[], target: T): string[] {
+  const { positionals, help, errors } = parseCommandArgs(spec, argv, target);
 
-  const args = [...argv];
-  const unknown: string[] = [];
+  if (help) {
+    process.stdout.write(renderHelp(PROGRAM, spec));
+    process.exit(0);
+  }
 
-  while (args.length > 0) {
-    const arg = args.shift();
-    if (!arg) break;
+  if (errors.length > 0) {
+    process.stderr.write(`${errors.join("\n")}\n`);
+    process.stderr.write(`Run ${spec.name ? `${PROGRAM} ${spec.name}` : PROGRAM} --help for usage.\n`);
+    process.exit(2);
+  }
 
-    if (arg === "--json") {
-      options.json = true;
-      continue;
-    }
+  return positionals;
+}
 
-    if (arg === "--pretty") {
-      options.pretty = true;
-      continue;
-    }
+function jsonOutput(options: { json: boolean; pretty: boolean }): boolean {
+  return options.json || (!process.stdout.isTTY && !options.pretty);
+}
 
-    if (arg === "--no-color") {
-      options.noColor = true;
-      continue;
-    }
+function colorOutput(options: { noColor: boolean }): boolean {
+  return Boolean(process.stdout.isTTY) && !options.noColor && !process.env.NO_COLOR;
+}
 
-    if (arg === "--samples") {
-      const value = args.shift();
-      options.samples = value ? Number.parseInt(value, 10) : Number.NaN;
-      continue;
-    }
+function writeResult(options: Options, result: unknown, title: string, render: (colorEnabled: boolean) => string[]): void {
+  if (jsonOutput(options)) {
+    process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+    return;
+  }
 
-    if (arg === "--internet-host") {
-      options.internetHost = args.shift() ?? "";
-      continue;
-    }
+  const colorEnabled = colorOutput(options);
+  process.stdout.write(`${[colorize(colorEnabled, 1, title), ...render(colorEnabled)].join("\n")}\n`);
+}
 
-    if (arg === "--router-host") {
-      options.routerHost = args.shift() ?? null;
-      continue;
-    }
+async function runHistory(argv: string[]): Promise<void> {
+  const options = historyOptions();
+  parseOrExit(HISTORY_COMMAND, argv, options);
 
-    if (arg === "--dns-host") {
-      options.dnsHost = args.shift() ?? "";
-      continue;
-    }
+  const file = defaultHistoryPath();
+  if (options.prune) {
+    const pruned = await pruneHistory(file, options.prune);
+    log("success", "wifi-stats.history.pruned", { file, ...pruned });
+  }
 
-    if (arg === "--speedtest") {
-      options.speedtest = true;
-      continue;
-    }
+  const entries = filterHistory(await readHistory(file), options.filter);
+  const groups = aggregateHistory(entries, options.groupBy);
 
-    if (arg === "-h" || arg === "--help") {
-      return { options, showHelp: true };
-    }
+  if (jsonOutput(options)) {
+    process.stdout.write(`${JSON.stringify({ file, groupBy: options.groupBy, entries: entries.length, groups }, null, 2)}\n`);
+  } else {
+    process.stdout.write(renderHistory(groups, options.groupBy, colorOutput(options)));
+  }
+}
 
-    if (arg === "--version") {
-      return { options, showVersion: true };
-    }
+async function runCompare(argv: string[]): Promise<void> {
+  const options = compareOptions();
+  const [beforeFile, afterFile] = parseOrExit(COMPARE_COMMAND, argv, options);
 
-    if (arg.startsWith("-")) {
-      unknown.push(arg);
+  let comparison;
+  try {
+    const [before, after] = await Promise.all([loadSnapshots(beforeFile), loadSnapshots(afterFile)]);
+    comparison = compareSnapshots({ file: beforeFile, outputs: before }, { file: afterFile, outputs: after }, options.thresholdPct);
+  } catch (error) {
+    process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+    process.exit(2);
+  }
+
+  if (jsonOutput(options)) {
+    process.stdout.write(`${JSON.stringify(comparison, null, 2)}\n`);
+  } else {
+    process.stdout.write(renderComparison(comparison, colorOutput(options)));
+  }
+}
+
+function validateCollectionOptions(options: Options): void {
+  if (!Number.isFinite(options.samples) || options.samples <= 0) {
+    process.stderr.write("--samples must be a positive integer.\n");
+    process.exit(2);
+  }
+
+  if (!Number.isInteger(options.maxHops) || options.maxHops <= 0 || options.maxHops > 255) {
+    process.stderr.write("--max-hops must be an integer between 1 and 255.\n");
+    process.exit(2);
+  }
+
+  if (!Number.isFinite(options.interval) || options.interval <= 0) {
+    process.stderr.write("--interval must be a positive number of seconds.\n");
+    process.exit(2);
+  }
+
+  for (const [flag, values] of [
+    ["--internet-host", options.internetHosts],
+    ["--dns-host", options.dnsHosts],
+    ["--resolver", options.resolvers]
+  ] as const) {
+    if (values.some((value) => !value)) {
+      process.stderr.write(`${flag} values must not be empty.\n`);
+      process.exit(2);
     }
   }
 
-  return { options, unknown };
+  if (options.format !== null && !isOutputFormat(options.format)) {
+    process.stderr.write(`--format must be one of: ${Object.keys(FORMATTERS).join(", ")}.\n`);
+    process.exit(2);
+  }
+
+  if (options.watch && (options.format === "markdown" || options.format === "html")) {
+    process.stderr.write(`--format ${options.format} cannot be combined with --watch.\n`);
+    process.exit(2);
+  }
+
+  try {
+    parseLoadSpec(options.load);
+    options.probes.forEach(parseProbeTarget);
+    parseConnectivityUrl(options.connectivityUrl);
+  } catch (error) {
+    process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+    process.exit(2);
+  }
+
+  if (options.record && options.replay) {
+    process.stderr.write("--record and --replay cannot be combined.\n");
+    process.exit(2);
+  }
 }
 
-function colorize(enabled: boolean, colorCode: number, text: string): string {
-  if (!enabled) return text;
-  return `\u001b[${colorCode}m${text}\u001b[0m`;
+async function applyConfig(args: CollectArgs): Promise<ResolvedOptions> {
+  try {
+    const config = await loadConfig(args.configFile);
+    return resolveOptions(args.options, args.explicit, config, args.profile);
+  } catch (error) {
+    process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+    process.exit(2);
+  }
 }
 
-function formatMetric(
-  label: string,
-  value: number | string | null | undefined,
-  unit: string,
-  color: number,
-  colorEnabled: boolean
-): string {
-  const displayValue = value === null || value === undefined ? "n/a" : value;
-  const coloredValue = colorize(colorEnabled, color, String(displayValue));
-  return `  ${label}: ${coloredValue}${unit ? ` ${unit}` : ""}`;
+function resolveFormat(options: Options): OutputFormat {
+  if (options.format && isOutputFormat(options.format)) return options.format;
+  if (options.json) return "json";
+  return options.pretty || process.stdout.isTTY ? "pretty" : "json";
 }
 
-function renderPretty(output: OutputData, options: Options): void {
-  const colorEnabled = process.stdout.isTTY && !options.noColor && !process.env.NO_COLOR;
+async function resolveBackend(options: Options): Promise<{ backend: PlatformBackend; run: CommandRunner; dns: DnsTransport }> {
+  let run: CommandRunner = runCommand;
+  let dns: DnsTransport = udpTransport;
+  let platform: string = process.platform;
+  if (options.replay) {
+    const session = await loadReplay(options.replay);
+    run = session.run;
+    dns = session.dns;
+    platform = session.manifest.platform;
+  }
 
-  const title = colorize(colorEnabled, 1, "Wi-Fi Stats");
-  console.log(title);
+  const backend = selectBackend(platform);
+  if (!backend) {
+    process.stderr.write(`Unsupported platform: ${platform}\n`);
+    process.exit(2);
+  }
 
-  if (output.wifi) {
-    console.log("\nWi-Fi");
-    console.log(`  SSID: ${output.wifi.ssid ?? "Unknown"}${output.wifi.band ? ` (${output.wifi.band})` : ""}`);
-    console.log(`  BSSID: ${output.wifi.bssid ?? "Unknown"}`);
-    console.log(formatMetric("Link Rate", output.wifi.linkRateMbps, "Mbps", 32, colorEnabled));
-    console.log(formatMetric("Signal", output.wifi.signalDbm, "dBm", 33, colorEnabled));
-    console.log(formatMetric("Noise", output.wifi.noiseDbm, "dBm", 32, colorEnabled));
-    console.log(`  Channel: ${output.wifi.channel ?? "Unknown"}`);
-  } else {
-    console.log("\nWi-Fi\n  n/a");
+  // The default load needs networkQuality, which only macOS has.
+  if (options.bufferbloat && backend.name !== "darwin" && parseLoadSpec(options.load).kind === "networkquality") {
+    process.stderr.write(`--bufferbloat on ${backend.name} needs --load download:<url> or upload:<url>.\n`);
+    process.exit(2);
   }
 
-  console.log("\nRouter");
-  console.log(`  Gateway: ${output.router.gateway ?? "Unknown"}`);
-  if (output.router.ping) {
-    console.log(formatMetric("Ping", output.router.ping.avgMs, "ms", 32, colorEnabled));
-    console.log(formatMetric("Jitter", output.router.ping.jitterMs, "ms", 31, colorEnabled));
-    console.log(formatMetric("Loss", output.router.ping.lossPct, "%", 33, colorEnabled));
+  if (options.record) {
+    run = await createRecordingRunner(options.record, backend.name, run);
+    dns = await createRecordingTransport(options.record, dns);
   }
 
-  console.log("\nInternet");
-  console.log(`  Target: ${output.internet.target}`);
-  if (output.internet.ping) {
-    console.log(formatMetric("Ping", output.internet.ping.avgMs, "ms", 33, colorEnabled));
-    console.log(formatMetric("Jitter", output.internet.ping.jitterMs, "ms", 31, colorEnabled));
-    console.log(formatMetric("Loss", output.internet.ping.lossPct, "%", 32, colorEnabled));
+  return { backend, run, dns };
+}
+
+// Shared setup for the collecting subcommands: parse, apply config, validate, pick the backend.
+async function prepareCommand(spec: CommandSpec<CollectArgs>, argv: string[]): Promise<CommandContext> {
+  const args = collectArgs();
+  const positionals = parseOrExit(spec, argv, args);
+  const { options } = await applyConfig(args);
+  validateCollectionOptions(options);
+  const { backend, run, dns } = await resolveBackend(options);
+  const { stage } = createStages({ timeouts: resolveTimeouts(options, options.timeouts), run, transport: dns, log });
+  return { options, positionals, backend, run, dns, stage };
+}
+
+// Exits on rules that can never notify anyone; null when no rules are configured.
+function prepareAlerts(options: Options): ((output: OutputData) => Promise<AlertDelivery[]>) | null {
+  if (options.alerts.length === 0) return null;
+  try {
+    const settings = {
+      rules: options.alerts,
+      targets: options.alertTargets,
+      cooldown: options.alertCooldown,
+      stateFile: defaultAlertStatePath()
+    };
+    return createAlerter(settings, log);
+  } catch (error) {
+    process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+    process.exit(2);
   }
+}
+
+async function runServe(argv: string[]): Promise<void> {
+  const args = serveArgs();
+  parseOrExit(SERVE_COMMAND, argv, args);
 
-  console.log("\nDNS");
-  console.log(`  Server: ${output.dns.server ?? "Unknown"} (${output.dns.source})`);
-  if (output.dns.lookup) {
-    console.log(formatMetric("Lookup", output.dns.lookup.lookupMs, "ms", 32, colorEnabled));
+  const { options, sources } = await applyConfig(args);
+  if (sources.interval === "default") options.interval = 60;
+
+  if (!args.host) {
+    process.stderr.write("--host must not be empty.\n");
+    process.exit(2);
   }
 
-  if (output.speedtest) {
-    console.log("\nSpeed Test");
-    if (output.speedtest.error) {
-      console.log(`  Error: ${output.speedtest.error}`);
-    } else {
-      console.log(formatMetric("Download", output.speedtest.downloadMbps, "Mbps", 32, colorEnabled));
-      console.log(formatMetric("Upload", output.speedtest.uploadMbps, "Mbps", 32, colorEnabled));
-      console.log(formatMetric("Base RTT", output.speedtest.baseRttMs, "ms", 33, colorEnabled));
-      console.log(formatMetric("Responsiveness", output.speedtest.responsivenessMs, "ms", 33, colorEnabled));
-      if (output.speedtest.endpoint) {
-        console.log(`  Endpoint: ${output.speedtest.endpoint}`);
-      }
-    }
+  validateCollectionOptions(options);
+  const alert = prepareAlerts(options);
+  const { backend, run, dns } = await resolveBackend(options);
+
+  const collect = async (signal: AbortSignal) => {
+    const output = await collectWifiStats({ ...options, logger: log, platform: backend.name, run, dns, signal });
+    await alert?.(output);
+    return output;
+  };
+  const exporter = await startExporter(collect, { host: args.host, port: args.port, intervalSec: options.interval }, log);
+  process.stderr.write(`Serving metrics on ${exporter.url}/metrics\n`);
+
+  // Stopping aborts a collection in progress along with its child processes.
+  const shutdown = (signal: NodeJS.Signals) => {
+    process.off("SIGINT", shutdown);
+    process.off("SIGTERM", shutdown);
+    process.exitCode = EXIT_INTERRUPTED[signal] ?? 1;
+    void exporter.stop().then(() => log("success", "serve.stopped", { signal }));
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+async function runScan(argv: string[]): Promise<void> {
+  const { options, backend, run } = await prepareCommand(SCAN_COMMAND, argv);
+
+  log("info", "wifi-stats.scan.start", { platform: backend.name });
+  const current = await backend.getWifiStats(log, run);
+  const report = analyzeScan(await backend.scanNetworks(log, run), current);
+
+  if (jsonOutput(options)) {
+    process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+  } else {
+    process.stdout.write(renderScan(report, colorOutput(options)));
   }
+
+  process.exitCode = report.error ? 1 : 0;
 }
 
-async function loadVersion(): Promise<string> {
-  const pkgUrl = new URL("../package.json", import.meta.url);
-  const pkgRaw = await readFile(pkgUrl, "utf8");
-  const pkg = JSON.parse(pkgRaw) as { version: string };
-  return pkg.version;
+async function runPath(argv: string[]): Promise<void> {
+  const { options, positionals, backend, stage } = await prepareCommand(PATH_COMMAND, argv);
+
+  const target = positionals[0] ?? options.internetHosts[0];
+  log("info", "wifi-stats.path.start", { target, platform: backend.name });
+  const report = await stage(
+    "path",
+    (run) => collectPath(target, options.samples, options.maxHops, log, run),
+    (error): PathReport => ({ target, hops: [], firstBadHop: null, error })
+  );
+
+  writeResult(options, report, `Path to ${report.target}`, (colorEnabled) => renderPath(report, colorEnabled));
+  process.exitCode = report.error ? 1 : 0;
 }
 
-async function main(): Promise<void> {
-  const { options, showHelp, showVersion, unknown } = parseArgs(process.argv.slice(2));
+async function runWifi(argv: string[]): Promise<void> {
+  const { options, backend, stage } = await prepareCommand(WIFI_COMMAND, argv);
 
-  if (showHelp) {
-    process.stdout.write(HELP_TEXT);
-    process.exit(0);
+  const wifi = await stage("wifi", (run) => backend.getWifiStats(log, run), () => null);
+
+  writeResult(options, wifi, "Wi-Fi", (colorEnabled) => renderWifiLines(wifi, colorEnabled));
+  process.exitCode = wifi ? 0 : 1;
+}
+
+async function runPing(argv: string[]): Promise<void> {
+  const { options, positionals, stage } = await prepareCommand(PING_COMMAND, argv);
+
+  const host = positionals[0];
+  const ping = await stage(
+    "internet",
+    (run) => pingHost(host, options.samples, log, run),
+    (error) => pingError(host, options.samples, error)
+  );
+
+  writeResult(options, ping, `Ping ${ping.target}`, (colorEnabled) => [
+    ...renderPingLines(ping, colorEnabled),
+    ...(ping.error ? [`  Error: ${ping.error}`] : [])
+  ]);
+  process.exitCode = ping.error ? 1 : 0;
+}
+
+async function runDns(argv: string[]): Promise<void> {
+  const { options, positionals, backend, stage } = await prepareCommand(DNS_COMMAND, argv);
+
+  const host = positionals[0];
+  const servers = await stage("dnsServers", (run) => backend.getDnsServers(log, run), () => []);
+  const server = servers[0] ?? null;
+  const settings = (type: DnsRecordType) => ({ type, queries: options.dnsQueries });
+  const [lookups, comparison] = await Promise.all([
+    stage(
+      "dns",
+      (_run, transport) => Promise.all(options.dnsTypes.map((type) => dnsLookup(host, server, settings(type), log, transport))),
+      (error) => options.dnsTypes.map((type) => lookupError(host, server, type, error === "timeout" ? "timeout" : "error", error))
+    ),
+    options.compareResolvers
+      ? stage(
+          "resolvers",
+          (_run, transport) =>
+            compareResolvers(resolverCandidates(servers, options.resolvers), [host], settings(options.dnsTypes[0]), log, transport),
+          () => null
+        )
+      : Promise.resolve(null)
+  ]);
+  const failed = lookups.some((lookup) => lookup.error);
+  const result = { server, lookup: lookups[0], lookups, ...(comparison ? { comparison } : {}) };
+
+  writeResult(options, result, `DNS ${host}`, (colorEnabled) => [
+    `  Server: ${lookups[0].server ?? "Unknown"}`,
+    ...renderDnsLookupLines(lookups, colorEnabled),
+    ...(comparison ? ["", "Resolvers (ranked)", ...renderResolverLines(comparison, colorEnabled)] : [])
+  ]);
+  process.exitCode = failed ? 1 : 0;
+}
+
+async function runSpeedtest(argv: string[]): Promise<void> {
+  const { options, backend, stage } = await prepareCommand(SPEEDTEST_COMMAND, argv);
+
+  const speedtest = await stage("speedtest", (run) => backend.runSpeedTest(log, run), speedTestError);
+
+  writeResult(options, speedtest, "Speed Test", (colorEnabled) => renderSpeedTestLines(speedtest, colorEnabled));
+  process.exitCode = speedtest.error ? 1 : 0;
+}
+
+async function runConfig(argv: string[]): Promise<void> {
+  const args = collectArgs();
+  parseOrExit(CONFIG_COMMAND, argv, args);
+  const resolved = await applyConfig(args);
+
+  if (jsonOutput(args.options)) {
+    process.stdout.write(`${JSON.stringify(resolved, null, 2)}\n`);
+    return;
   }
 
-  if (showVersion) {
+  const colorEnabled = colorOutput(resolved.options);
+  const rows = (Object.keys(resolved.options) as Array<keyof Options>).map((key) => [
+    key,
+    JSON.stringify(resolved.options[key]),
+    resolved.sources[key]
+  ]);
+  const [header, ...body] = formatTable(["Option", "Value", "Source"], rows);
+  const lines = [
+    `Config: ${resolved.file ?? `none (looked for ${defaultConfigPath()})`}`,
+    `Profile: ${resolved.profile ?? "none"}`,
+    "",
+    colorize(colorEnabled, 36, header),
+    ...body
+  ];
+  process.stdout.write(`${lines.join("\n")}\n`);
+}
+
+async function runCompletion(argv: string[]): Promise<void> {
+  const [shell] = parseOrExit(COMPLETION_COMMAND, argv, {});
+  process.stdout.write(renderCompletion(shell as Shell, PROGRAM, ROOT_COMMAND, SUBCOMMANDS));
+}
+
+async function runSchema(argv: string[]): Promise<void> {
+  parseOrExit(SCHEMA_COMMAND, argv, {});
+  process.stdout.write(`${JSON.stringify(OUTPUT_SCHEMA, null, 2)}\n`);
+}
+
+async function runReport(argv: string[]): Promise<void> {
+  const args = collectArgs();
+  parseOrExit(ROOT_COMMAND, argv, args);
+
+  if (args.showVersion) {
     const version = await loadVersion();
     process.stdout.write(`${version}\n`);
     process.exit(0);
   }
 
-  if (unknown && unknown.length > 0) {
-    process.stderr.write(`Unknown option(s): ${unknown.join(", ")}\n`);
-    process.stderr.write("Run --help for usage.\n");
-    process.exit(2);
-  }
+  const { options } = await applyConfig(args);
 
-  if (!Number.isFinite(options.samples) || options.samples <= 0) {
-    process.stderr.write("--samples must be a positive integer.\n");
+  validateCollectionOptions(options);
+
+  let assertions: Assertion[];
+  try {
+    const expressions = [...options.asserts];
+    if (options.assertFile) expressions.push(...(await loadAssertionFile(options.assertFile)));
+    assertions = expressions.map(parseAssertion);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    process.stderr.write(`${message}\n`);
     process.exit(2);
   }
 
-  log("info", "wifi-stats.start", { options });
+  const alert = prepareAlerts(options);
+  const { backend, run, dns } = await resolveBackend(options);
 
-  const wifi = await getAirportInfo(log);
-  const gateway = options.routerHost ?? (await getDefaultGateway(log));
-  const dnsServer = await getDnsServer(log);
+  log("info", "wifi-stats.start", { options, platform: backend.name });
 
-  const [routerPing, internetPing, dnsResult, speedtest] = await Promise.all([
-    gateway ? pingHost(gateway, options.samples, log) : Promise.resolve(null),
-    pingHost(options.internetHost, options.samples, log),
-    dnsLookup(options.dnsHost, dnsServer, log),
-    options.speedtest ? runSpeedTest(log) : Promise.resolve(null)
-  ]);
+  const format = resolveFormat(options);
+  const colorEnabled = colorOutput(options);
+  const historyFile = defaultHistoryPath();
 
-  const output: OutputData = {
-    timestamp: new Date().toISOString(),
-    wifi,
-    router: {
-      gateway,
-      ping: routerPing
-    },
-    internet: {
-      target: options.internetHost,
-      ping: internetPing
-    },
-    dns: {
-      server: dnsServer,
-      source: dnsServer && gateway && dnsServer === gateway ? "router" : "system",
-      lookup: dnsResult
-    },
-    speedtest,
-    meta: {
-      samples: options.samples,
-      dnsHost: options.dnsHost,
-      speedtest: options.speedtest
-    }
+  const collect = async (signal?: AbortSignal): Promise<OutputData> => {
+    const output = await collectWifiStats({ ...options, logger: log, platform: backend.name, run, dns, signal, partial: true });
+    if (assertions.length === 0) return output;
+    return { ...output, assertions: evaluateAssertions(output, assertions) };
   };
 
-  let hadError = !wifi || !gateway || !dnsServer || !routerPing || !internetPing || !dnsResult;
-  if (routerPing?.error || internetPing?.error || dnsResult?.error) hadError = true;
-  if (options.speedtest && speedtest?.error) hadError = true;
+  const save = async (output: OutputData) => {
+    if (!options.save) return;
+    await appendHistory(historyFile, output);
+    log("success", "wifi-stats.history.saved", { file: historyFile });
+  };
 
-  if (options.json || (!process.stdout.isTTY && !options.pretty)) {
-    process.stdout.write(`${JSON.stringify(output, null, 2)}\n`);
-  } else {
-    renderPretty(output, options);
+  if (options.watch) {
+    // Ctrl-C or SIGTERM ends the watch: the run in progress is dropped and the summary printed.
+    const controller = new AbortController();
+    const stop = (signal: NodeJS.Signals) => {
+      log("info", "wifi-stats.watch.stopping", { signal });
+      controller.abort();
+    };
+    process.once("SIGINT", stop);
+    process.once("SIGTERM", stop);
+
+    // The exit code reflects the worst run: a failed assertion anywhere wins over a collection error.
+    let exitCode = 0;
+    const session = await runWatch(
+      collect,
+      {
+        intervalSec: options.interval,
+        format,
+        colorEnabled,
+        header: options.header,
+        clearScreen: format === "pretty" && Boolean(process.stdout.isTTY)
+      },
+      controller.signal,
+      (text) => process.stdout.write(text),
+      async (output) => {
+        exitCode = Math.max(exitCode, resultExitCode(output));
+        await save(output);
+        await alert?.(output);
+      }
+    );
+    process.off("SIGINT", stop);
+    process.off("SIGTERM", stop);
+
+    // Keep stdout machine-readable; the summary goes to stderr for streamed formats.
+    const pretty = format === "pretty";
+    const summary = renderWatchSummary(session, colorEnabled && pretty);
+    (pretty ? process.stdout : process.stderr).write(summary);
+    log("success", "wifi-stats.watch.complete", { runs: session.runs, roams: session.roams.length, exitCode });
+    process.exitCode = exitCode;
+    return;
+  }
+
+  // The first Ctrl-C or SIGTERM stops the collectors and prints what they gathered; a second Ctrl-C exits at once.
+  const controller = new AbortController();
+  let interruptedBy: NodeJS.Signals | null = null;
+  const interrupt = (signal: NodeJS.Signals) => {
+    interruptedBy = signal;
+    log("error", "wifi-stats.interrupted", { signal });
+    controller.abort();
+  };
+  process.once("SIGINT", interrupt);
+  process.once("SIGTERM", interrupt);
+
+  const output = await collect(controller.signal);
+  process.off("SIGINT", interrupt);
+  process.off("SIGTERM", interrupt);
+
+  // A partial result would skew the history and alert state, so it is only printed.
+  if (!interruptedBy) {
+    await save(output);
+    await alert?.(output);
+  }
+  const hadError = hasCollectionError(output);
+  const assertionsFailed = (output.assertions?.failed ?? 0) > 0;
+
+  process.stdout.write(FORMATTERS[format](output, { colorEnabled, header: options.header, stream: false }));
+
+  log("success", "wifi-stats.complete", { hadError, assertionsFailed, interrupted: interruptedBy });
+  if (interruptedBy) {
+    process.exitCode = EXIT_INTERRUPTED[interruptedBy] ?? 1;
+    return;
+  }
+  process.exitCode = resultExitCode(output);
+}
+
+const HANDLERS: Record<string, (argv: string[]) => Promise<void>> = {
+  wifi: runWifi,
+  ping: runPing,
+  dns: runDns,
+  speedtest: runSpeedtest,
+  path: runPath,
+  scan: runScan,
+  compare: runCompare,
+  history: runHistory,
+  serve: runServe,
+  config: runConfig,
+  schema: runSchema,
+  completion: runCompletion
+};
+
+async function main(): Promise<void> {
+  const [command, ...rest] = process.argv.slice(2);
+
+  // Anything that is not a flag names a subcommand; without one the full report runs.
+  if (command === undefined || command.startsWith("-")) {
+    await runReport(process.argv.slice(2));
+    return;
+  }
+
+  const handler = Object.hasOwn(HANDLERS, command) ? HANDLERS[command] : null;
+  if (!handler) {
+    process.stderr.write(`${withSuggestion(`Unknown command: ${command}`, command, Object.keys(HANDLERS))}\n`);
+    process.stderr.write(`Run ${PROGRAM} --help for usage.\n`);
+    process.exit(2);
   }
 
-  log("success", "wifi-stats.complete", { hadError });
-  process.exitCode = hadError ? 1 : 0;
+  await handler(rest);
 }
 
 main().catch((error: unknown) => {
@@ -1,22 +1,25 @@
-import { execFile } from "node:child_process";
-import { access } from "node:fs/promises";
-import { promisify } from "node:util";
 import {
   parseAirportOutput,
+  parseAirportScan,
   parsePingStats,
+  parseScutilNameservers,
+  parseSystemProfilerNetworks,
   parseSystemProfilerOutput,
+  parseTracerouteOutput,
   type PingStats,
+  type ScanNetwork,
+  type TracerouteHop,
   type WifiStats
 } from "./parsers.js";
 import type { Logger } from "./logger.js";
+import { runCommand, type CommandResult, type CommandRunner } from "./runner.js";
 
-const execFileAsync = promisify(execFile);
 const AIRPORT_PATH = "/System/Library/PrivateFrameworks/Apple80211.framework/Versions/Current/Resources/airport";
 
-type CommandResult = {
-  stdout: string;
-  stderr: string;
-  error: Error | null;
+export type NetworkScan = {
+  source: "airport" | "system_profiler" | null;
+  networks: ScanNetwork[];
+  error: string | null;
 };
 
 export type PingResult = PingStats & {
@@ -25,10 +28,9 @@ export type PingResult = PingStats & {
   error: string | null;
 };
 
-export type DnsLookupResult = {
-  host: string;
-  server: string | null;
-  lookupMs: number | null;
+export type TracerouteResult = {
+  target: string;
+  hops: TracerouteHop[];
   error: string | null;
 };
 
@@ -59,49 +61,41 @@ type SpeedTestRaw = {
   os_version?: string;
 };
 
-async function runCommand(command: string, args: string[], options: Record<string, unknown> = {}): Promise<CommandResult> {
-  try {
-    const result = await execFileAsync(command, args, {
-      encoding: "utf8",
-      ...options
-    });
-    return { stdout: result.stdout ?? "", stderr: result.stderr ?? "", error: null };
-  } catch (error) {
-    const err = error as NodeJS.ErrnoException & { stdout?: string; stderr?: string };
-    return {
-      stdout: err.stdout ?? "",
-      stderr: err.stderr ?? err.message ?? "command failed",
-      error: err
-    };
-  }
+export function speedTestError(error: string): SpeedTestResult {
+  return {
+    downloadMbps: null,
+    uploadMbps: null,
+    baseRttMs: null,
+    responsivenessMs: null,
+    interfaceName: null,
+    endpoint: null,
+    raw: null,
+    error
+  };
+}
+
+export function pingError(target: string, samples: number, error: string): PingResult {
+  return { target, ...parsePingStats(""), samples, error };
 }
 
-export async function getAirportInfo(log: Logger): Promise<WifiStats | null> {
+export async function getAirportInfo(log: Logger, run: CommandRunner = runCommand): Promise<WifiStats | null> {
   log("info", "collect.airport.start", { command: AIRPORT_PATH });
-  let hasAirport = true;
+  const result = await run(AIRPORT_PATH, ["-I"]);
 
-  try {
-    await access(AIRPORT_PATH);
-  } catch (error) {
-    hasAirport = false;
-    const message = error instanceof Error ? error.message : String(error);
-    log("error", "collect.airport.missing", { error: message });
+  if (!result.error) {
+    const parsed = parseAirportOutput(result.stdout);
+    log("success", "collect.airport.success", { ssid: parsed.ssid });
+    return parsed;
   }
 
-  if (hasAirport) {
-    const result = await runCommand(AIRPORT_PATH, ["-I"]);
-
-    if (!result.error) {
-      const parsed = parseAirportOutput(result.stdout);
-      log("success", "collect.airport.success", { ssid: parsed.ssid });
-      return parsed;
-    }
-
+  if ((result.error as NodeJS.ErrnoException).code === "ENOENT") {
+    log("error", "collect.airport.missing", { error: result.error.message });
+  } else {
     log("error", "collect.airport.error", { stderr: result.stderr });
   }
 
   log("info", "collect.system-profiler.start", {});
-  const profilerResult = await runCommand("system_profiler", [
+  const profilerResult = await run("system_profiler", [
     "SPAirPortDataType",
     "-detailLevel",
     "basic"
@@ -117,9 +111,31 @@ export async function getAirportInfo(log: Logger): Promise<WifiStats | null> {
   return parsed;
 }
 
-export async function getDefaultGateway(log: Logger): Promise<string | null> {
+export async function scanNetworks(log: Logger, run: CommandRunner = runCommand): Promise<NetworkScan> {
+  log("info", "collect.scan.start", { command: AIRPORT_PATH });
+  const result = await run(AIRPORT_PATH, ["-s"]);
+  const networks = result.error ? [] : parseAirportScan(result.stdout);
+
+  if (networks.length > 0) {
+    log("success", "collect.scan.success", { source: "airport", count: networks.length });
+    return { source: "airport", networks, error: null };
+  }
+
+  log("error", "collect.scan.airport-error", { stderr: result.stderr });
+  const profilerResult = await run("system_profiler", ["SPAirPortDataType"]);
+  if (profilerResult.error) {
+    log("error", "collect.scan.error", { stderr: profilerResult.stderr });
+    return { source: null, networks: [], error: profilerResult.stderr || "network scan failed" };
+  }
+
+  const fallback = parseSystemProfilerNetworks(profilerResult.stdout);
+  log("success", "collect.scan.success", { source: "system_profiler", count: fallback.length });
+  return { source: "system_profiler", networks: fallback, error: null };
+}
+
+export async function getDefaultGateway(log: Logger, run: CommandRunner = runCommand): Promise<string | null> {
   log("info", "collect.gateway.start", {});
-  const result = await runCommand("route", ["-n", "get", "default"]);
+  const result = await run("route", ["-n", "get", "default"]);
   const match = result.stdout.match(/gateway: (.+)/);
   const gateway = match ? match[1].trim() : null;
 
@@ -132,20 +148,61 @@ export async function getDefaultGateway(log: Logger): Promise<string | null> {
   return gateway;
 }
 
-export async function pingHost(host: string, count: number, log: Logger): Promise<PingResult> {
+// Link-local gateways come back with their zone ("fe80::1%en0"), which ping6 needs as is.
+export async function getDefaultGateway6(log: Logger, run: CommandRunner = runCommand): Promise<string | null> {
+  log("info", "collect.gateway6.start", {});
+  const result = await run("route", ["-n", "get", "-inet6", "default"]);
+  const match = result.stdout.match(/gateway: (.+)/);
+  const gateway = match ? match[1].trim() : null;
+
+  if (!gateway) {
+    // No IPv6 default route is a normal answer on IPv4-only networks, not a collector failure.
+    log("info", "collect.gateway6.none", { stderr: result.stderr });
+    return null;
+  }
+
+  log("success", "collect.gateway6.success", { gateway });
+  return gateway;
+}
+
+export async function pingHost(
+  host: string,
+  count: number,
+  log: Logger,
+  run: CommandRunner = runCommand
+): Promise<PingResult> {
   log("info", "collect.ping.start", { host, count });
-  const result = await runCommand("ping", ["-n", "-c", String(count), host]);
+  const result = await run("ping", ["-n", "-c", String(count), host]);
+  return summarizePing(host, count, result, log);
+}
+
+export async function pingHost6(
+  host: string,
+  count: number,
+  log: Logger,
+  run: CommandRunner = runCommand
+): Promise<PingResult> {
+  log("info", "collect.ping6.start", { host, count });
+  const args = ["-n", "-c", String(count), host];
+  let result = await run("ping6", args);
+  // Newer iputils only ship `ping -6`.
+  if ((result.error as NodeJS.ErrnoException | null)?.code === "ENOENT") {
+    log("info", "collect.ping6.missing", { error: result.error?.message });
+    result = await run("ping", ["-6", ...args]);
+  }
+  return summarizePing(host, count, result, log);
+}
+
+function summarizePing(host: string, count: number, result: CommandResult, log: Logger): PingResult {
   const stats = parsePingStats(result.stdout);
 
   if (!stats.avgMs && result.error) {
-    log("error", "collect.ping.error", { host, stderr: result.stderr });
+    log("error", "collect.ping.error", { host, stderr: result.stderr, lossPct: stats.lossPct });
     return {
       target: host,
-      avgMs: null,
-      jitterMs: null,
-      lossPct: null,
+      ...stats,
       samples: count,
-      error: result.stderr || "ping failed"
+      error: result.stderr || (stats.lossPct === 100 ? "no replies received" : "ping failed")
     };
   }
 
@@ -153,77 +210,59 @@ export async function pingHost(host: string, count: number, log: Logger): Promis
     host,
     avgMs: stats.avgMs,
     jitterMs: stats.jitterMs,
-    lossPct: stats.lossPct
+    lossPct: stats.lossPct,
+    p95Ms: stats.p95Ms
   });
 
   return {
     target: host,
-    avgMs: stats.avgMs,
-    jitterMs: stats.jitterMs,
-    lossPct: stats.lossPct,
+    ...stats,
     samples: count,
     error: result.error ? result.stderr : null
   };
 }
 
-export async function getDnsServer(log: Logger): Promise<string | null> {
-  log("info", "collect.dns-server.start", {});
-  const result = await runCommand("scutil", ["--dns"]);
-  const match = result.stdout.match(/nameserver\[0\] : ([\d.]+)/);
-  const server = match ? match[1] : null;
-
-  if (!server) {
-    log("error", "collect.dns-server.error", { stderr: result.stderr });
-    return null;
+export async function traceRoute(
+  host: string,
+  maxHops: number,
+  log: Logger,
+  run: CommandRunner = runCommand
+): Promise<TracerouteResult> {
+  log("info", "collect.traceroute.start", { host, maxHops });
+  // One probe per hop with a short wait: per-hop statistics come from the follow-up pings.
+  const result = await run("traceroute", ["-n", "-q", "1", "-w", "2", "-m", String(maxHops), host]);
+  const hops = parseTracerouteOutput(result.stdout);
+
+  if (hops.length === 0) {
+    log("error", "collect.traceroute.error", { host, stderr: result.stderr });
+    return { target: host, hops, error: result.stderr || "traceroute failed" };
   }
 
-  log("success", "collect.dns-server.success", { server });
-  return server;
+  log("success", "collect.traceroute.success", { host, hops: hops.length });
+  return { target: host, hops, error: null };
 }
 
-export async function dnsLookup(host: string, server: string | null, log: Logger): Promise<DnsLookupResult> {
-  log("info", "collect.dns-lookup.start", { host, server });
-  const args = ["+stats", "+tries=1", "+time=2", host];
-  if (server) args.push(`@${server}`);
-  const result = await runCommand("dig", args);
-  const match = result.stdout.match(/Query time: (\d+) msec/);
-  const lookupMs = match ? Number.parseInt(match[1], 10) : null;
+export async function getDnsServers(log: Logger, run: CommandRunner = runCommand): Promise<string[]> {
+  log("info", "collect.dns-server.start", {});
+  const result = await run("scutil", ["--dns"]);
+  const servers = parseScutilNameservers(result.stdout);
 
-  if (lookupMs === null) {
-    log("error", "collect.dns-lookup.error", { stderr: result.stderr });
-    return {
-      host,
-      server,
-      lookupMs: null,
-      error: result.stderr || "dns lookup failed"
-    };
+  if (servers.length === 0) {
+    log("error", "collect.dns-server.error", { stderr: result.stderr });
+    return [];
   }
 
-  log("success", "collect.dns-lookup.success", { host, lookupMs });
-  return {
-    host,
-    server,
-    lookupMs,
-    error: result.error ? result.stderr : null
-  };
+  log("success", "collect.dns-server.success", { servers });
+  return servers;
 }
 
-export async function runSpeedTest(log: Logger): Promise<SpeedTestResult> {
+export async function runSpeedTest(log: Logger, run: CommandRunner = runCommand): Promise<SpeedTestResult> {
   log("info", "collect.speedtest.start", {});
-  const result = await runCommand("networkQuality", ["-c"]);
+  const result = await run("networkQuality", ["-c"]);
 
   if (result.error) {
     log("error", "collect.speedtest.error", { stderr: result.stderr });
-    return {
-      downloadMbps: null,
-      uploadMbps: null,
-      baseRttMs: null,
-      responsivenessMs: null,
-      interfaceName: null,
-      endpoint: null,
-      raw: null,
-      error: result.stderr || "networkQuality failed"
-    };
+    return speedTestError(result.stderr || "networkQuality failed");
   }
 
   let parsed: SpeedTestRaw | null = null;
@@ -232,16 +271,7 @@ export async function runSpeedTest(log: Logger): Promise<SpeedTestResult> {
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     log("error", "collect.speedtest.parse-error", { error: message });
-    return {
-      downloadMbps: null,
-      uploadMbps: null,
-      baseRttMs: null,
-      responsivenessMs: null,
-      interfaceName: null,
-      endpoint: null,
-      raw: null,
-      error: "networkQuality output parse failed"
-    };
+    return speedTestError("networkQuality output parse failed");
   }
 
   const downloadMbps = parsed.dl_throughput ? Math.round(parsed.dl_throughput / 1_000_000) : null;
@@ -0,0 +1,868 @@
+import { toAlertTarget, type AlertTarget } from "./alerts.js";
+import { withSuggestion, type CommandSpec, type FlagSpec } from "./args.js";
+import { parseAssertion } from "./assertions.js";
+import { parseLoadSpec } from "./bufferbloat.js";
+import { DEFAULT_THRESHOLD_PCT } from "./compare.js";
+import { parseConnectivityUrl } from "./connectivity.js";
+import { DNS_RECORD_TYPES, isDnsRecordType, type DnsRecordType } from "./dns.js";
+import { FORMATTERS } from "./formatters.js";
+import { parseTimeBound, type HistoryFilter, type HistoryGroupBy } from "./history.js";
+import { defaultOptions, type Options } from "./report.js";
+import { parseTimeouts, STAGES, type Timeouts } from "./stages.js";
+
+export const PROGRAM = "wifi-stats";
+
+export type CollectArgs = {
+  options: Options;
+  // Options set on the command line, so config/env/profile values only fill the rest.
+  explicit: Set<keyof Options>;
+  configFile: string | null;
+  profile: string | null;
+  showVersion: boolean;
+};
+
+export type ServeArgs = CollectArgs & {
+  port: number;
+  host: string;
+};
+
+export type HistoryOptions = {
+  filter: HistoryFilter;
+  groupBy: HistoryGroupBy;
+  prune: Date | null;
+  json: boolean;
+  pretty: boolean;
+  noColor: boolean;
+};
+
+export type CompareOptions = {
+  thresholdPct: number;
+  json: boolean;
+  pretty: boolean;
+  noColor: boolean;
+};
+
+export const SHELLS = ["bash", "zsh", "fish"] as const;
+
+export function collectArgs(): CollectArgs {
+  return { options: defaultOptions(), explicit: new Set(), configFile: null, profile: null, showVersion: false };
+}
+
+export function compareOptions(): CompareOptions {
+  return { thresholdPct: DEFAULT_THRESHOLD_PCT, json: false, pretty: false, noColor: false };
+}
+
+export function serveArgs(): ServeArgs {
+  return { ...collectArgs(), port: 9877, host: "127.0.0.1" };
+}
+
+export function historyOptions(): HistoryOptions {
+  return {
+    filter: { since: null, until: null, ssid: null, bssid: null },
+    groupBy: "hour",
+    prune: null,
+    json: false,
+    pretty: false,
+    noColor: false
+  };
+}
+
+function splitList(value: string): string[] {
+  return value.split(",").map((item) => item.trim());
+}
+
+function switchFlag(name: string, description: string, set: (options: Options) => void, keys: Array<keyof Options>): FlagSpec<CollectArgs> {
+  return {
+    name,
+    description,
+    apply: (target) => {
+      set(target.options);
+      keys.forEach((key) => target.explicit.add(key));
+      return null;
+    }
+  };
+}
+
+function valueFlag(
+  name: string,
+  value: string,
+  description: string,
+  set: (options: Options, raw: string) => string | null,
+  keys: Array<keyof Options>,
+  choices?: readonly string[]
+): FlagSpec<CollectArgs> {
+  return {
+    name,
+    value,
+    description,
+    choices,
+    apply: (target, raw) => {
+      const error = set(target.options, raw);
+      if (!error) keys.forEach((key) => target.explicit.add(key));
+      return error;
+    }
+  };
+}
+
+// Repeatable list flags replace the default/configured list on first use, then append.
+function listFlag(
+  name: string,
+  value: string,
+  description: string,
+  key: "internetHosts" | "dnsHosts" | "resolvers" | "probes" | "asserts",
+  split: boolean,
+  extra: Array<keyof Options> = []
+): FlagSpec<CollectArgs> {
+  return {
+    name,
+    value,
+    description,
+    apply: (target, raw) => {
+      const items = split ? splitList(raw) : [raw];
+      if (items.some((item) => !item)) return `${name} values must not be empty`;
+      const current = target.explicit.has(key) ? target.options[key] : [];
+      target.options[key] = [...current, ...items];
+      [key, ...extra].forEach((option) => target.explicit.add(option));
+      if (extra.includes("compareResolvers")) target.options.compareResolvers = true;
+      return null;
+    }
+  };
+}
+
+// Repeatable; the first one on the command line replaces the configured targets.
+function alertTargetFlag(
+  name: string,
+  value: string,
+  description: string,
+  target: (raw: string) => AlertTarget | null
+): FlagSpec<CollectArgs> {
+  return {
+    name,
+    value,
+    description,
+    apply: (args, raw) => {
+      const parsed = target(raw);
+      if (!parsed) return `${name} must be an http(s) URL`;
+      const current = args.explicit.has("alertTargets") ? args.options.alertTargets : [];
+      args.options.alertTargets = [...current, parsed];
+      args.explicit.add("alertTargets");
+      return null;
+    }
+  };
+}
+
+function positiveInt(raw: string, max = Number.MAX_SAFE_INTEGER): number | null {
+  const value = /^\d+$/.test(raw) ? Number.parseInt(raw, 10) : Number.NaN;
+  return value > 0 && value <= max ? value : null;
+}
+
+const FLAGS = {
+  config: {
+    name: "--config",
+    value: "<file>",
+    description: "Config file (default: $XDG_CONFIG_HOME/wifi-stats/config.json)",
+    apply: (target, raw) => {
+      target.configFile = raw;
+      return null;
+    }
+  },
+  profile: {
+    name: "--profile",
+    value: "<name>",
+    description: "Apply a named profile from the config file",
+    apply: (target, raw) => {
+      target.profile = raw;
+      return null;
+    }
+  },
+  // Both set `format` too, so a configured format can't override them.
+  json: switchFlag(
+    "--json",
+    "Output JSON only (same as --format json)",
+    (options) => {
+      options.json = true;
+      options.format = "json";
+    },
+    ["json", "format"]
+  ),
+  pretty: switchFlag(
+    "--pretty",
+    "Force pretty output (same as --format pretty)",
+    (options) => {
+      options.pretty = true;
+      options.format = "pretty";
+    },
+    ["pretty", "format"]
+  ),
+  format: valueFlag(
+    "--format",
+    "<f>",
+    "json | pretty | csv | markdown | html\n(default: pretty on a terminal, json otherwise)",
+    (options, raw) => {
+      options.format = raw;
+      return null;
+    },
+    ["format"],
+    Object.keys(FORMATTERS)
+  ),
+  noHeader: switchFlag("--no-header", "Omit the CSV header row, e.g. when appending to a file", (options) => (options.header = false), [
+    "header"
+  ]),
+  samples: valueFlag(
+    "--samples",
+    "<n>",
+    "Ping samples (default: 12)",
+    (options, raw) => {
+      const value = positiveInt(raw);
+      if (value === null) return "--samples must be a positive integer";
+      options.samples = value;
+      return null;
+    },
+    ["samples"]
+  ),
+  internetHost: listFlag(
+    "--internet-host",
+    "<h>",
+    "Internet ping target (default: 1.1.1.1; repeatable or comma-separated)",
+    "internetHosts",
+    true
+  ),
+  ipv6Host: valueFlag(
+    "--ipv6-host",
+    "<h>",
+    "IPv6 internet ping target (default: 2606:4700:4700::1111)",
+    (options, raw) => {
+      options.ipv6Host = raw;
+      return null;
+    },
+    ["ipv6Host"]
+  ),
+  routerHost: valueFlag(
+    "--router-host",
+    "<h>",
+    "Router ping target (default: system gateway)",
+    (options, raw) => {
+      options.routerHost = raw;
+      return null;
+    },
+    ["routerHost"]
+  ),
+  dnsHost: listFlag(
+    "--dns-host",
+    "<h>",
+    "DNS lookup hostname (default: cloudflare.com; repeatable or comma-separated)",
+    "dnsHosts",
+    true
+  ),
+  dnsType: {
+    name: "--dns-type",
+    value: "<type>",
+    description: "Record type to look up: A, AAAA or HTTPS (default: A; repeatable or comma-separated)",
+    apply: (target, raw) => {
+      const types = splitList(raw).map((item) => item.toUpperCase());
+      const invalid = types.find((type) => !isDnsRecordType(type));
+      if (invalid !== undefined) {
+        return withSuggestion(`--dns-type must be one of: ${DNS_RECORD_TYPES.join(", ")}`, invalid, DNS_RECORD_TYPES);
+      }
+      const current = target.explicit.has("dnsTypes") ? target.options.dnsTypes : [];
+      target.options.dnsTypes = [...new Set([...current, ...(types as DnsRecordType[])])];
+      target.explicit.add("dnsTypes");
+      return null;
+    }
+  },
+  dnsQueries: valueFlag(
+    "--dns-queries",
+    "<n>",
+    "Queries per DNS lookup: the first is timed cold, the rest warm (default: 3)",
+    (options, raw) => {
+      const value = positiveInt(raw);
+      if (value === null) return "--dns-queries must be a positive integer";
+      options.dnsQueries = value;
+      return null;
+    },
+    ["dnsQueries"]
+  ),
+  compareResolvers: switchFlag(
+    "--compare-resolvers",
+    "Time the DNS lookups against every system nameserver and rank them",
+    (options) => (options.compareResolvers = true),
+    ["compareResolvers"]
+  ),
+  resolver: listFlag(
+    "--resolver",
+    "<ip>",
+    "Extra nameserver to compare, e.g. 1.1.1.1 (repeatable; implies --compare-resolvers)",
+    "resolvers",
+    true,
+    ["compareResolvers"]
+  ),
+  path: switchFlag("--path", "Trace the route to the first internet host and ping every hop", (options) => (options.path = true), [
+    "path"
+  ]),
+  maxHops: valueFlag(
+    "--max-hops",
+    "<n>",
+    "Hop limit for --path (default: 30)",
+    (options, raw) => {
+      const value = positiveInt(raw, 255);
+      if (value === null) return "--max-hops must be an integer between 1 and 255";
+      options.maxHops = value;
+      return null;
+    },
+    ["maxHops"]
+  ),
+  bufferbloat: switchFlag(
+    "--bufferbloat",
+    "Compare idle and loaded latency to the first internet host and grade it",
+    (options) => (options.bufferbloat = true),
+    ["bufferbloat"]
+  ),
+  load: valueFlag(
+    "--load",
+    "<spec>",
+    "Load for --bufferbloat: networkquality, download:<url> or upload:<url>\n(default: networkquality, macOS only)",
+    (options, raw) => {
+      try {
+        parseLoadSpec(raw);
+      } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+      }
+      options.load = raw;
+      return null;
+    },
+    ["load"]
+  ),
+  speedtest: switchFlag("--speedtest", "Run networkQuality speed test", (options) => (options.speedtest = true), ["speedtest"]),
+  probe: listFlag(
+    "--probe",
+    "<target>",
+    "Time TCP connect, TLS and HTTP to a URL or host:port, for networks that block ping\n(repeatable)",
+    "probes",
+    false
+  ),
+  connectivity: switchFlag(
+    "--connectivity",
+    "Fetch a probe page to tell online, captive portal, DNS hijacking and offline apart",
+    (options) => (options.connectivity = true),
+    ["connectivity"]
+  ),
+  connectivityUrl: valueFlag(
+    "--connectivity-url",
+    "<url>",
+    "Probe page for --connectivity\n(default: http://captive.apple.com/hotspot-detect.html)",
+    (options, raw) => {
+      try {
+        parseConnectivityUrl(raw);
+      } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+      }
+      options.connectivityUrl = raw;
+      return null;
+    },
+    ["connectivityUrl"]
+  ),
+  connectivityExpect: valueFlag(
+    "--connectivity-expect",
+    "<text>",
+    "Text the probe page must contain; HTTP 204 always passes (default: Success)",
+    (options, raw) => {
+      if (!raw) return "--connectivity-expect must not be empty";
+      options.connectivityExpect = raw;
+      return null;
+    },
+    ["connectivityExpect"]
+  ),
+  timeout: {
+    name: "--timeout",
+    value: "<s>",
+    description: "Collector timeout in seconds: 20 for every stage, speedtest=90 for one\n(repeatable or comma-separated; default: scaled to --samples)",
+    apply: (target, raw) => {
+      let timeouts: Timeouts;
+      try {
+        timeouts = parseTimeouts(raw);
+      } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+      }
+      const current = target.explicit.has("timeouts") ? target.options.timeouts : {};
+      target.options.timeouts = { ...current, ...timeouts };
+      target.explicit.add("timeouts");
+      return null;
+    }
+  },
+  record: valueFlag(
+    "--record",
+    "<dir>",
+    "Save every command's raw output to <dir>",
+    (options, raw) => {
+      options.record = raw;
+      return null;
+    },
+    ["record"]
+  ),
+  replay: valueFlag(
+    "--replay",
+    "<dir>",
+    "Serve command output from a --record capture",
+    (options, raw) => {
+      options.replay = raw;
+      return null;
+    },
+    ["replay"]
+  ),
+  watch: switchFlag(
+    "--watch",
+    "Re-run continuously (NDJSON with --json, rows with --format csv);\nCtrl-C for summary",
+    (options) => (options.watch = true),
+    ["watch"]
+  ),
+  interval: valueFlag(
+    "--interval",
+    "<s>",
+    "Seconds between --watch runs (default: 5)",
+    (options, raw) => {
+      const value = Number(raw);
+      if (!Number.isFinite(value) || value <= 0) return "--interval must be a positive number of seconds";
+      options.interval = value;
+      return null;
+    },
+    ["interval"]
+  ),
+  save: switchFlag("--save", "Append each result to the local history file", (options) => (options.save = true), ["save"]),
+  assert: listFlag("--assert", "<expr>", 'Check a JSON path, e.g. "router.ping.avgMs<15" (repeatable)', "asserts", false),
+  assertFile: valueFlag(
+    "--assert-file",
+    "<f>",
+    "Load assertions from a file (one per line, or a JSON array)",
+    (options, raw) => {
+      options.assertFile = raw;
+      return null;
+    },
+    ["assertFile"]
+  ),
+  alert: {
+    name: "--alert",
+    value: "<expr>",
+    description: 'Notify while a JSON path condition holds, e.g. "internet.ping.lossPct>5" (repeatable)',
+    apply: (target, raw) => {
+      try {
+        parseAssertion(raw);
+      } catch (error) {
+        return `--alert: ${error instanceof Error ? error.message : String(error)}`;
+      }
+      const current = target.explicit.has("alerts") ? target.options.alerts : [];
+      target.options.alerts = [...current, { name: raw.trim(), when: raw.trim(), targets: [], cooldown: null }];
+      target.explicit.add("alerts");
+      return null;
+    }
+  },
+  alertWebhook: alertTargetFlag("--alert-webhook", "<url>", "POST alerts as JSON with the full report (repeatable)", (raw) =>
+    toAlertTarget({ webhook: raw })
+  ),
+  alertSlack: alertTargetFlag(
+    "--alert-slack",
+    "<url>",
+    "POST alerts to a Slack-compatible incoming webhook (repeatable)",
+    (raw) => toAlertTarget({ webhook: raw, preset: "slack" })
+  ),
+  alertCommand: {
+    name: "--alert-command",
+    value: "<cmd>",
+    description: "Run a shell command per alert with the report as JSON on stdin (repeatable)",
+    apply: (target, raw) => {
+      if (!raw.trim()) return "--alert-command must not be empty";
+      const current = target.explicit.has("alertTargets") ? target.options.alertTargets : [];
+      target.options.alertTargets = [...current, { command: raw }];
+      target.explicit.add("alertTargets");
+      return null;
+    }
+  },
+  alertCooldown: valueFlag(
+    "--alert-cooldown",
+    "<s>",
+    "Seconds before a still-firing alert is sent again (default: 900)",
+    (options, raw) => {
+      const value = Number(raw);
+      if (!Number.isFinite(value) || value <= 0) return "--alert-cooldown must be a positive number of seconds";
+      options.alertCooldown = value;
+      return null;
+    },
+    ["alertCooldown"]
+  ),
+  noColor: switchFlag("--no-color", "Disable ANSI color", (options) => (options.noColor = true), ["noColor"]),
+  version: {
+    name: "--version",
+    description: "Show version",
+    apply: (target) => {
+      target.showVersion = true;
+      return null;
+    }
+  }
+} satisfies Record<string, FlagSpec<CollectArgs>>;
+
+const CONFIG_FLAGS = [FLAGS.config, FLAGS.profile];
+// Subcommands print JSON or pretty text only; --format is for the full report.
+const OUTPUT_FLAGS = [
+  { ...FLAGS.json, description: "Output JSON only" },
+  { ...FLAGS.pretty, description: "Force pretty output" },
+  FLAGS.noColor
+];
+const CAPTURE_FLAGS = [FLAGS.record, FLAGS.replay];
+const ALERT_FLAGS = [FLAGS.alert, FLAGS.alertWebhook, FLAGS.alertSlack, FLAGS.alertCommand, FLAGS.alertCooldown];
+
+// Everything that shapes a full report; `config show` accepts the same set.
+const REPORT_FLAGS = [
+  ...CONFIG_FLAGS,
+  FLAGS.json,
+  FLAGS.pretty,
+  FLAGS.format,
+  FLAGS.noHeader,
+  FLAGS.samples,
+  FLAGS.internetHost,
+  FLAGS.ipv6Host,
+  FLAGS.routerHost,
+  FLAGS.dnsHost,
+  FLAGS.dnsType,
+  FLAGS.dnsQueries,
+  FLAGS.compareResolvers,
+  FLAGS.resolver,
+  FLAGS.path,
+  FLAGS.maxHops,
+  FLAGS.bufferbloat,
+  FLAGS.load,
+  FLAGS.speedtest,
+  FLAGS.probe,
+  FLAGS.connectivity,
+  FLAGS.connectivityUrl,
+  FLAGS.connectivityExpect,
+  FLAGS.timeout,
+  ...CAPTURE_FLAGS,
+  FLAGS.watch,
+  FLAGS.interval,
+  FLAGS.save,
+  FLAGS.assert,
+  FLAGS.assertFile,
+  ...ALERT_FLAGS,
+  FLAGS.noColor
+];
+
+type OutputSwitches = Pick<HistoryOptions, "json" | "pretty" | "noColor">;
+
+// The same switches for commands that read files instead of collecting (history, compare).
+function outputSwitch(flag: FlagSpec<CollectArgs>, key: keyof OutputSwitches): FlagSpec<OutputSwitches> {
+  return {
+    name: flag.name,
+    description: flag.description,
+    apply: (target) => {
+      target[key] = true;
+      return null;
+    }
+  };
+}
+
+export const WIFI_COMMAND: CommandSpec<CollectArgs> = {
+  name: "wifi",
+  summary: "current Wi-Fi link (SSID, signal, noise, channel, link rate)",
+  usage: [`${PROGRAM} wifi [options]`],
+  positionals: [],
+  flags: [FLAGS.timeout, ...OUTPUT_FLAGS, ...CAPTURE_FLAGS, ...CONFIG_FLAGS]
+};
+
+export const PING_COMMAND: CommandSpec<CollectArgs> = {
+  name: "ping",
+  summary: "latency, jitter and loss to one host",
+  usage: [`${PROGRAM} ping <host> [options]`],
+  positionals: [{ name: "host", required: true, description: "Host name or address to ping" }],
+  flags: [FLAGS.samples, FLAGS.timeout, ...OUTPUT_FLAGS, ...CAPTURE_FLAGS, ...CONFIG_FLAGS]
+};
+
+export const DNS_COMMAND: CommandSpec<CollectArgs> = {
+  name: "dns",
+  summary: "lookup time for one host name",
+  usage: [`${PROGRAM} dns <host> [options]`],
+  positionals: [{ name: "host", required: true, description: "Host name to resolve" }],
+  flags: [
+    FLAGS.dnsType,
+    FLAGS.dnsQueries,
+    FLAGS.compareResolvers,
+    FLAGS.resolver,
+    FLAGS.timeout,
+    ...OUTPUT_FLAGS,
+    ...CAPTURE_FLAGS,
+    ...CONFIG_FLAGS
+  ],
+  footer: `Queries go straight to the first system nameserver over UDP (no dig needed); --compare-resolvers
+ranks every nameserver instead. The first query is reported as the lookup time (usually a resolver
+cache miss), the median of the repeats as the warm time. Failures are classified as nxdomain,
+servfail, refused or timeout.`
+};
+
+export const SPEEDTEST_COMMAND: CommandSpec<CollectArgs> = {
+  name: "speedtest",
+  summary: "throughput and responsiveness via networkQuality (macOS)",
+  usage: [`${PROGRAM} speedtest [options]`],
+  positionals: [],
+  flags: [FLAGS.timeout, ...OUTPUT_FLAGS, ...CAPTURE_FLAGS, ...CONFIG_FLAGS]
+};
+
+export const HISTORY_COMMAND: CommandSpec<HistoryOptions> = {
+  name: "history",
+  summary: "aggregate saved results",
+  usage: [`${PROGRAM} history [options]`],
+  positionals: [],
+  flags: [
+    ...(["since", "until"] as const).map(
+      (bound): FlagSpec<HistoryOptions> => ({
+        name: `--${bound}`,
+        value: "<t>",
+        description: bound === "since" ? "Start time (ISO date or relative: 30m, 24h, 7d, 2w)" : "End time (ISO date or relative)",
+        apply: (target, raw) => {
+          target.filter[bound] = parseTimeBound(raw);
+          return target.filter[bound] ? null : `--${bound} must be an ISO date or a relative time like 24h`;
+        }
+      })
+    ),
+    {
+      name: "--ssid",
+      value: "<name>",
+      description: "Only entries for this SSID",
+      apply: (target, raw) => {
+        target.filter.ssid = raw;
+        return null;
+      }
+    },
+    {
+      name: "--bssid",
+      value: "<mac>",
+      description: "Only entries for this BSSID",
+      apply: (target, raw) => {
+        target.filter.bssid = raw;
+        return null;
+      }
+    },
+    {
+      name: "--group-by",
+      value: "<g>",
+      description: "hour | ap (default: hour)",
+      choices: ["hour", "ap"],
+      apply: (target, raw) => {
+        target.groupBy = raw as HistoryGroupBy;
+        return null;
+      }
+    },
+    {
+      name: "--prune",
+      value: "<t>",
+      description: "Delete entries older than <t> before reporting",
+      apply: (target, raw) => {
+        target.prune = parseTimeBound(raw);
+        return target.prune ? null : "--prune must be an ISO date or a relative time like 24h";
+      }
+    },
+    outputSwitch(OUTPUT_FLAGS[0], "json"),
+    outputSwitch(OUTPUT_FLAGS[1], "pretty"),
+    outputSwitch(OUTPUT_FLAGS[2], "noColor")
+  ],
+  footer: `History is stored at $XDG_DATA_HOME/wifi-stats/history.ndjson
+(default: ~/Library/Application Support/wifi-stats on macOS, ~/.local/share/wifi-stats on Linux).`
+};
+
+export const COMPARE_COMMAND: CommandSpec<CompareOptions> = {
+  name: "compare",
+  summary: "compare two saved --json results (before/after)",
+  usage: [`${PROGRAM} compare <before.json> <after.json> [options]`],
+  positionals: [
+    { name: "before.json", required: true, description: "Baseline result (one --json document or an NDJSON series)" },
+    { name: "after.json", required: true, description: "Result to compare against the baseline" }
+  ],
+  flags: [
+    {
+      name: "--threshold",
+      value: "<pct>",
+      description: `Ignore changes smaller than this percentage of the baseline (default: ${DEFAULT_THRESHOLD_PCT})`,
+      apply: (target, raw) => {
+        const value = Number(raw);
+        if (!Number.isFinite(value) || value < 0) return "--threshold must be a non-negative number";
+        target.thresholdPct = value;
+        return null;
+      }
+    },
+    outputSwitch(OUTPUT_FLAGS[0], "json"),
+    outputSwitch(OUTPUT_FLAGS[1], "pretty"),
+    outputSwitch(OUTPUT_FLAGS[2], "noColor")
+  ],
+  footer: `NDJSON series (--watch --json, the history file) are reduced to their median per metric.
+Changes also have to clear a per-metric floor: 1 ms, 1 point of loss or 1 Mbps. Signal, noise and SNR
+are already logarithmic, so they ignore --threshold and count from 3 dB.`
+};
+
+export const SERVE_COMMAND: CommandSpec<ServeArgs> = {
+  name: "serve",
+  summary: "Prometheus/OpenMetrics exporter",
+  usage: [`${PROGRAM} serve [options]`],
+  positionals: [],
+  flags: [
+    {
+      name: "--port",
+      value: "<n>",
+      description: "Listen port (default: 9877)",
+      apply: (target, raw) => {
+        const port = /^\d+$/.test(raw) ? Number.parseInt(raw, 10) : Number.NaN;
+        if (!(port >= 0 && port <= 65535)) return "--port must be an integer between 0 and 65535";
+        target.port = port;
+        return null;
+      }
+    },
+    {
+      name: "--host",
+      value: "<addr>",
+      description: "Listen address (default: 127.0.0.1)",
+      apply: (target, raw) => {
+        target.host = raw;
+        return null;
+      }
+    },
+    { ...FLAGS.interval, description: "Seconds between background collections (default: 60)" },
+    FLAGS.samples,
+    FLAGS.internetHost,
+    FLAGS.ipv6Host,
+    FLAGS.routerHost,
+    FLAGS.dnsHost,
+    FLAGS.dnsType,
+    FLAGS.dnsQueries,
+    FLAGS.compareResolvers,
+    FLAGS.resolver,
+    FLAGS.path,
+    FLAGS.maxHops,
+    FLAGS.bufferbloat,
+    FLAGS.load,
+    FLAGS.speedtest,
+    FLAGS.probe,
+    FLAGS.connectivity,
+    FLAGS.connectivityUrl,
+    FLAGS.connectivityExpect,
+    FLAGS.timeout,
+    FLAGS.replay,
+    ...ALERT_FLAGS,
+    ...CONFIG_FLAGS
+  ],
+  footer: `ENDPOINTS:
+  /metrics             Gauges from the latest cached collection
+  /healthz             Liveness and last collection time
+  /snapshot            Latest result as JSON`
+};
+
+export const SCAN_COMMAND: CommandSpec<CollectArgs> = {
+  name: "scan",
+  summary: "nearby networks and channel congestion",
+  usage: [`${PROGRAM} scan [options]`],
+  positionals: [],
+  flags: [...OUTPUT_FLAGS, ...CAPTURE_FLAGS, ...CONFIG_FLAGS],
+  footer: `Networks come from \`airport -s\` (fallback: system_profiler "Other Local Wi-Fi Networks").
+Congestion counts overlapping access points per 20 MHz channel, taking channel width into account.`
+};
+
+export const PATH_COMMAND: CommandSpec<CollectArgs> = {
+  name: "path",
+  summary: "hop-by-hop loss and latency (MTR-style)",
+  usage: [`${PROGRAM} path [host] [options]`],
+  positionals: [{ name: "host", required: false, description: "Target (default: the first --internet-host, 1.1.1.1)" }],
+  flags: [
+    { ...FLAGS.samples, description: "Pings per hop (default: 12)" },
+    { ...FLAGS.maxHops, description: "Hop limit (default: 30)" },
+    FLAGS.internetHost,
+    FLAGS.timeout,
+    ...OUTPUT_FLAGS,
+    ...CAPTURE_FLAGS,
+    ...CONFIG_FLAGS
+  ],
+  footer: `Routes come from \`traceroute -n\`; each responding hop is then pinged. The first hop where loss or
+latency rises and stays high to the target is marked.`
+};
+
+export const CONFIG_COMMAND: CommandSpec<CollectArgs> = {
+  name: "config",
+  summary: "inspect configuration",
+  usage: [`${PROGRAM} config show [--config <file>] [--profile <name>] [options]`],
+  positionals: [{ name: "action", required: true, description: "show", choices: ["show"] }],
+  flags: REPORT_FLAGS,
+  footer: `Prints the effective options and where each value came from.
+Precedence: command line > environment (WIFI_STATS_SAMPLES, WIFI_STATS_INTERNET_HOSTS, ...)
+> profile > config "defaults" > built-in defaults. WIFI_STATS_PROFILE selects a profile.
+
+CONFIG FILE:
+  {
+    "defaults": { "samples": 20 },
+    "profiles": {
+      "office": { "internetHosts": ["1.1.1.1", "8.8.8.8"], "routerHost": "10.0.0.1" },
+      "quick": { "samples": 4, "speedtest": false }
+    }
+  }`
+};
+
+export const SCHEMA_COMMAND: CommandSpec<Record<string, never>> = {
+  name: "schema",
+  summary: "print the JSON Schema of the --json report",
+  usage: [`${PROGRAM} schema`],
+  positionals: [],
+  flags: [],
+  footer: `Describes the report printed by ${PROGRAM} --json (and each --watch --json line), including
+nested results. Reports carry the matching "schemaVersion", which only changes when a field is
+removed, renamed or changes type; new fields can appear in any version, so ignore unknown ones.`
+};
+
+export const COMPLETION_COMMAND: CommandSpec<Record<string, never>> = {
+  name: "completion",
+  summary: "print a shell completion script",
+  usage: [`${PROGRAM} completion <shell>`],
+  positionals: [{ name: "shell", required: true, description: SHELLS.join(" | "), choices: SHELLS }],
+  flags: [],
+  footer: `INSTALL:
+  bash   ${PROGRAM} completion bash > /etc/bash_completion.d/${PROGRAM}
+  zsh    ${PROGRAM} completion zsh > "\${fpath[1]}/_${PROGRAM}"
+  fish   ${PROGRAM} completion fish > ~/.config/fish/completions/${PROGRAM}.fish`
+};
+
+export const SUBCOMMANDS: Array<CommandSpec<never>> = [
+  WIFI_COMMAND,
+  PING_COMMAND,
+  DNS_COMMAND,
+  SPEEDTEST_COMMAND,
+  PATH_COMMAND,
+  SCAN_COMMAND,
+  COMPARE_COMMAND,
+  HISTORY_COMMAND,
+  SERVE_COMMAND,
+  CONFIG_COMMAND,
+  SCHEMA_COMMAND,
+  COMPLETION_COMMAND
+];
+
+export const ROOT_COMMAND: CommandSpec<CollectArgs> = {
+  name: null,
+  summary: "macOS/Linux Wi-Fi diagnostics",
+  usage: [`${PROGRAM} [options]`, `${PROGRAM} <command> [options]`],
+  positionals: [],
+  flags: [...REPORT_FLAGS, FLAGS.version],
+  footer: `COMMANDS:
+${SUBCOMMANDS.map((command) => `  ${(command.name ?? "").padEnd(19)}${command.summary}`).join("\n")}
+
+Without a command, runs the full report. Run ${PROGRAM} <command> --help for command options.
+
+EXIT CODES:
+  0  all metrics collected and all assertions passed
+  1  one or more collectors failed
+  2  invalid usage
+  3  one or more assertions failed (takes precedence over 1)
+  130  interrupted by Ctrl-C (143 for SIGTERM); the partial report is still printed
+
+TIMEOUTS:
+  Each collector stage has its own deadline, scaled to --samples where it pings. --timeout 20 sets
+  every stage, --timeout speedtest=90 one of them. A stage that runs out of time has its commands
+  killed and its section marked error: "timeout".
+  Stages: ${STAGES.join(", ")}
+
+ALERTS:
+  --alert "internet.ping.lossPct>5" notifies every --alert-webhook, --alert-slack and --alert-command
+  target when the condition starts to hold, again each --alert-cooldown while it keeps holding, and
+  once more when it clears. State is kept next to the history file, so scheduled runs deduplicate too.`
+};
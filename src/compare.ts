@@ -0,0 +1,217 @@
+import { readFile } from "node:fs/promises";
+import { colorize, formatTable } from "./render.js";
+import type { OutputData } from "./report.js";
+import { percentile } from "./stats.js";
+
+export type ChangeDirection = "better" | "worse" | "unchanged" | "n/a";
+
+type CompareMetric = {
+  id: string;
+  label: string;
+  unit: string;
+  higherIsBetter: boolean;
+  // dB values are already logarithmic, so they only use the absolute floor and get no percentage.
+  logarithmic: boolean;
+  // Smallest absolute change that counts, whatever the relative threshold says.
+  minDelta: number;
+  pick: (output: OutputData) => number | null | undefined;
+};
+
+export type SnapshotSummary = {
+  file: string;
+  runs: number;
+  firstTimestamp: string;
+  lastTimestamp: string;
+};
+
+export type ComparisonRow = {
+  metric: string;
+  label: string;
+  unit: string;
+  before: number | null;
+  after: number | null;
+  delta: number | null;
+  deltaPct: number | null;
+  change: ChangeDirection;
+};
+
+export type Comparison = {
+  before: SnapshotSummary;
+  after: SnapshotSummary;
+  thresholdPct: number;
+  rows: ComparisonRow[];
+};
+
+export const DEFAULT_THRESHOLD_PCT = 10;
+
+function snr(output: OutputData): number | null {
+  const { signalDbm, noiseDbm } = output.wifi ?? {};
+  return typeof signalDbm === "number" && typeof noiseDbm === "number" ? signalDbm - noiseDbm : null;
+}
+
+function defineMetric(
+  id: string,
+  label: string,
+  unit: string,
+  better: "higher" | "lower",
+  minDelta: number,
+  pick: CompareMetric["pick"]
+): CompareMetric {
+  return { id, label, unit, higherIsBetter: better === "higher", logarithmic: unit.startsWith("dB"), minDelta, pick };
+}
+
+const COMPARE_METRICS: CompareMetric[] = [
+  defineMetric("wifi.signalDbm", "Signal", "dBm", "higher", 3, (output) => output.wifi?.signalDbm),
+  defineMetric("wifi.noiseDbm", "Noise", "dBm", "lower", 3, (output) => output.wifi?.noiseDbm),
+  defineMetric("wifi.snrDb", "SNR", "dB", "higher", 3, snr),
+  defineMetric("wifi.linkRateMbps", "Link Rate", "Mbps", "higher", 1, (output) => output.wifi?.linkRateMbps),
+  defineMetric("router.ping.avgMs", "Router Ping", "ms", "lower", 1, (output) => output.router.ping?.avgMs),
+  defineMetric("router.ping.jitterMs", "Router Jitter", "ms", "lower", 1, (output) => output.router.ping?.jitterMs),
+  defineMetric("router.ping.lossPct", "Router Loss", "%", "lower", 1, (output) => output.router.ping?.lossPct),
+  defineMetric("internet.ping.avgMs", "Internet Ping", "ms", "lower", 1, (output) => output.internet.ping?.avgMs),
+  defineMetric("internet.ping.jitterMs", "Internet Jitter", "ms", "lower", 1, (output) => output.internet.ping?.jitterMs),
+  defineMetric("internet.ping.lossPct", "Internet Loss", "%", "lower", 1, (output) => output.internet.ping?.lossPct),
+  defineMetric("dns.lookup.lookupMs", "DNS Lookup", "ms", "lower", 1, (output) => output.dns.lookup?.lookupMs),
+  defineMetric("speedtest.downloadMbps", "Download", "Mbps", "higher", 1, (output) => output.speedtest?.downloadMbps),
+  defineMetric("speedtest.uploadMbps", "Upload", "Mbps", "higher", 1, (output) => output.speedtest?.uploadMbps)
+];
+
+const CHANGE_COLORS: Record<ChangeDirection, number | null> = {
+  better: 32,
+  worse: 31,
+  unchanged: null,
+  "n/a": null
+};
+
+function isOutputData(value: unknown): value is OutputData {
+  return typeof value === "object" && value !== null && "timestamp" in value && "router" in value && "internet" in value;
+}
+
+// Accepts one `--json` document or an NDJSON series such as `--watch --json` or the history file.
+export function parseSnapshots(raw: string, file: string): OutputData[] {
+  let documents: unknown[];
+  try {
+    documents = [JSON.parse(raw)];
+  } catch {
+    documents = raw
+      .split("\n")
+      .map((line, index) => ({ line: line.trim(), number: index + 1 }))
+      .filter(({ line }) => line)
+      .map(({ line, number }) => {
+        try {
+          return JSON.parse(line) as unknown;
+        } catch {
+          throw new Error(`${file}: line ${number} is not valid JSON`);
+        }
+      });
+  }
+
+  if (documents.length === 0) throw new Error(`${file}: no results found`);
+  documents.forEach((document, index) => {
+    if (!isOutputData(document)) {
+      throw new Error(`${file}: ${documents.length > 1 ? `line ${index + 1}` : "document"} is not a wifi-stats --json result`);
+    }
+  });
+  return documents as OutputData[];
+}
+
+export async function loadSnapshots(file: string): Promise<OutputData[]> {
+  let raw: string;
+  try {
+    raw = await readFile(file, "utf8");
+  } catch (error) {
+    throw new Error(`Cannot read ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return parseSnapshots(raw, file);
+}
+
+function summarize(file: string, outputs: OutputData[]): SnapshotSummary {
+  const timestamps = outputs.map((output) => output.timestamp).sort();
+  return { file, runs: outputs.length, firstTimestamp: timestamps[0], lastTimestamp: timestamps[timestamps.length - 1] };
+}
+
+// A series is reduced to its median so one bad sample doesn't decide the comparison.
+function metricValue(outputs: OutputData[], metric: CompareMetric): number | null {
+  const values = outputs
+    .map((output) => metric.pick(output))
+    .filter((value): value is number => typeof value === "number" && Number.isFinite(value));
+  return percentile(values, 50);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+export function compareSnapshots(
+  before: { file: string; outputs: OutputData[] },
+  after: { file: string; outputs: OutputData[] },
+  thresholdPct: number = DEFAULT_THRESHOLD_PCT
+): Comparison {
+  const rows = COMPARE_METRICS.map((metric): ComparisonRow => {
+    const beforeValue = metricValue(before.outputs, metric);
+    const afterValue = metricValue(after.outputs, metric);
+    const base = { metric: metric.id, label: metric.label, unit: metric.unit, before: beforeValue, after: afterValue };
+
+    if (beforeValue === null || afterValue === null) {
+      return { ...base, delta: null, deltaPct: null, change: "n/a" };
+    }
+
+    const delta = round(afterValue - beforeValue);
+    const deltaPct = metric.logarithmic || beforeValue === 0 ? null : round((delta / Math.abs(beforeValue)) * 100);
+    const relativeFloor = metric.logarithmic ? 0 : (Math.abs(beforeValue) * thresholdPct) / 100;
+    const significant = Math.abs(delta) >= Math.max(metric.minDelta, relativeFloor);
+    const improved = metric.higherIsBetter ? delta > 0 : delta < 0;
+    return { ...base, delta, deltaPct, change: significant ? (improved ? "better" : "worse") : "unchanged" };
+  });
+
+  return {
+    before: summarize(before.file, before.outputs),
+    after: summarize(after.file, after.outputs),
+    thresholdPct,
+    rows
+  };
+}
+
+function formatAmount(value: number | null, unit: string): string {
+  return value === null ? "n/a" : `${value} ${unit}`;
+}
+
+function formatDelta(row: ComparisonRow): string {
+  if (row.delta === null) return "";
+  const sign = row.delta > 0 ? "+" : "";
+  const pct = row.deltaPct === null ? "" : ` (${row.deltaPct > 0 ? "+" : ""}${row.deltaPct}%)`;
+  return `${sign}${row.delta} ${row.unit}${pct}`;
+}
+
+function describeSnapshot(summary: SnapshotSummary): string {
+  if (summary.runs === 1) return `${summary.file} (${summary.firstTimestamp})`;
+  return `${summary.file} (median of ${summary.runs} runs, ${summary.firstTimestamp} to ${summary.lastTimestamp})`;
+}
+
+export function renderComparison(comparison: Comparison, colorEnabled: boolean): string {
+  const rows = comparison.rows.map((row) => [
+    row.label,
+    formatAmount(row.before, row.unit),
+    formatAmount(row.after, row.unit),
+    formatDelta(row),
+    row.change
+  ]);
+  const [header, ...body] = formatTable(["Metric", "Before", "After", "Delta", "Change"], rows);
+  const better = comparison.rows.filter((row) => row.change === "better").length;
+  const worse = comparison.rows.filter((row) => row.change === "worse").length;
+
+  const lines = [
+    colorize(colorEnabled, 1, "Wi-Fi Stats Comparison"),
+    `  Before: ${describeSnapshot(comparison.before)}`,
+    `  After:  ${describeSnapshot(comparison.after)}`,
+    "",
+    `  ${colorize(colorEnabled, 36, header)}`,
+    ...body.map((line, index) => {
+      const color = CHANGE_COLORS[comparison.rows[index].change];
+      return `  ${color === null ? line : colorize(colorEnabled, color, line)}`;
+    }),
+    "",
+    `  ${better} better, ${worse} worse (changes under ${comparison.thresholdPct}%, or 3 dB for signal metrics, are treated as noise)`
+  ];
+  return `${lines.join("\n")}\n`;
+}
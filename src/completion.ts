@@ -0,0 +1,191 @@
+import type { CommandSpec, FlagSpec } from "./args.js";
+
+export type Shell = "bash" | "zsh" | "fish";
+
+type ValueKind = "none" | "choices" | "file" | "directory" | "text";
+
+function valueKind(flag: FlagSpec<never>): ValueKind {
+  if (!flag.value) return "none";
+  if (flag.choices) return "choices";
+  if (flag.value === "<file>" || flag.value === "<f>") return "file";
+  if (flag.value === "<dir>") return "directory";
+  return "text";
+}
+
+function summary(description: string): string {
+  return description.split("\n")[0];
+}
+
+function functionName(program: string): string {
+  return `_${program.replace(/[^A-Za-z0-9]/g, "_")}`;
+}
+
+function uniqueFlags(specs: Array<CommandSpec<never>>): Array<FlagSpec<never>> {
+  const byName = new Map<string, FlagSpec<never>>();
+  for (const flag of specs.flatMap((spec) => spec.flags)) {
+    if (!byName.has(flag.name)) byName.set(flag.name, flag);
+  }
+  return [...byName.values()];
+}
+
+function renderBash(program: string, root: CommandSpec<never>, commands: Array<CommandSpec<never>>): string {
+  const name = functionName(program);
+  const words = (spec: CommandSpec<never>) =>
+    [...spec.positionals.flatMap((positional) => positional.choices ?? []), ...spec.flags.map((flag) => flag.name), "--help"].join(" ");
+
+  const flags = uniqueFlags([root, ...commands]);
+  const valueCases = flags.flatMap((flag) => {
+    switch (valueKind(flag)) {
+      case "choices":
+        return [`    ${flag.name}) COMPREPLY=( $(compgen -W "${flag.choices?.join(" ")}" -- "$cur") ); return ;;`];
+      case "file":
+        return [`    ${flag.name}) COMPREPLY=( $(compgen -f -- "$cur") ); return ;;`];
+      case "directory":
+        return [`    ${flag.name}) COMPREPLY=( $(compgen -d -- "$cur") ); return ;;`];
+      default:
+        return [];
+    }
+  });
+  // Free-form values (hosts, numbers, expressions) get no suggestions rather than flag names.
+  const textFlags = flags.filter((flag) => valueKind(flag) === "text").map((flag) => flag.name);
+  if (textFlags.length > 0) valueCases.push(`    ${textFlags.join("|")}) COMPREPLY=(); return ;;`);
+  const commandNames = commands.map((spec) => spec.name).join("|");
+
+  return `# bash completion for ${program}
+${name}() {
+  local cur prev command word words
+  cur="\${COMP_WORDS[COMP_CWORD]}"
+  prev="\${COMP_WORDS[COMP_CWORD-1]}"
+  command=""
+  for word in "\${COMP_WORDS[@]:1:COMP_CWORD-1}"; do
+    case "$word" in
+      ${commandNames}) command="$word"; break ;;
+    esac
+  done
+
+  case "$prev" in
+${valueCases.join("\n")}
+  esac
+
+  case "$command" in
+${commands.map((spec) => `    ${spec.name}) words="${words(spec)}" ;;`).join("\n")}
+    *) words="${commands.map((spec) => spec.name).join(" ")} ${words(root)}" ;;
+  esac
+  COMPREPLY=( $(compgen -W "$words" -- "$cur") )
+}
+complete -F ${name} ${program}
+`;
+}
+
+function zshQuote(text: string): string {
+  return text.replace(/'/g, "'\\''");
+}
+
+function zshArguments(spec: CommandSpec<never>): string[] {
+  const describe = (text: string) => zshQuote(summary(text).replace(/[[\]:\\]/g, "\\$&"));
+  const flags = spec.flags.map((flag) => {
+    const label = `${flag.name}[${describe(flag.description)}]`;
+    const placeholder = (flag.value ?? "").replace(/[<>]/g, "");
+    switch (valueKind(flag)) {
+      case "choices":
+        return `'${label}:${placeholder}:(${flag.choices?.join(" ")})'`;
+      case "file":
+        return `'${label}:${placeholder}:_files'`;
+      case "directory":
+        return `'${label}:${placeholder}:_files -/'`;
+      case "text":
+        return `'${label}:${placeholder}: '`;
+      default:
+        return `'${label}'`;
+    }
+  });
+  const positionals = spec.positionals.map(
+    (positional, index) =>
+      `'${positional.required ? "" : ":"}${index + 1}:${positional.name}:${positional.choices ? `(${positional.choices.join(" ")})` : " "}'`
+  );
+  return [...flags, "'(-h --help)'{-h,--help}'[Show help]'", ...positionals];
+}
+
+function renderZsh(program: string, root: CommandSpec<never>, commands: Array<CommandSpec<never>>): string {
+  const name = functionName(program);
+  const indent = (lines: string[], spaces: number) => lines.map((line) => `${" ".repeat(spaces)}${line}`).join(" \\\n");
+
+  return `#compdef ${program}
+
+${name}() {
+  local -a subcommands
+  subcommands=(
+${commands.map((spec) => `    '${spec.name}:${zshQuote(spec.summary.replace(/:/g, "\\:"))}'`).join("\n")}
+  )
+
+  if (( CURRENT == 2 )) && [[ $words[CURRENT] != -* ]]; then
+    _describe -t commands '${program} command' subcommands
+    return
+  fi
+
+  case $words[2] in
+${commands
+  .map((spec) => `    ${spec.name})\n      shift words\n      (( CURRENT-- ))\n      _arguments \\\n${indent(zshArguments(spec), 8)}\n      ;;`)
+  .join("\n")}
+    *)
+      _arguments \\
+${indent(zshArguments(root), 8)}
+      ;;
+  esac
+}
+
+${name} "$@"
+`;
+}
+
+function fishQuote(text: string): string {
+  return `'${text.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+function renderFish(program: string, root: CommandSpec<never>, commands: Array<CommandSpec<never>>): string {
+  const lines = [`# fish completion for ${program}`, `complete -c ${program} -f`];
+  const noCommand = `__fish_use_subcommand`;
+
+  for (const spec of commands) {
+    lines.push(`complete -c ${program} -n ${noCommand} -a ${spec.name} -d ${fishQuote(spec.summary)}`);
+  }
+
+  const flagLines = (spec: CommandSpec<never>, condition: string) => {
+    const specLines = spec.flags.map((flag) => {
+      const base = `complete -c ${program} -n ${condition} -l ${flag.name.replace(/^--/, "")}`;
+      const description = `-d ${fishQuote(summary(flag.description))}`;
+      switch (valueKind(flag)) {
+        case "choices":
+          return `${base} -x -a ${fishQuote(flag.choices?.join(" ") ?? "")} ${description}`;
+        case "file":
+        case "directory":
+          return `${base} -r -F ${description}`;
+        case "text":
+          return `${base} -x ${description}`;
+        default:
+          return `${base} ${description}`;
+      }
+    });
+    const positionalLines = spec.positionals.flatMap((positional) =>
+      positional.choices ? [`complete -c ${program} -n ${condition} -a ${fishQuote(positional.choices.join(" "))}`] : []
+    );
+    return [...specLines, ...positionalLines, `complete -c ${program} -n ${condition} -s h -l help -d 'Show help'`];
+  };
+
+  lines.push(...flagLines(root, noCommand));
+  for (const spec of commands) {
+    lines.push(...flagLines(spec, fishQuote(`__fish_seen_subcommand_from ${spec.name}`)));
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+export function renderCompletion(
+  shell: Shell,
+  program: string,
+  root: CommandSpec<never>,
+  commands: Array<CommandSpec<never>>
+): string {
+  if (shell === "bash") return renderBash(program, root, commands);
+  if (shell === "zsh") return renderZsh(program, root, commands);
+  return renderFish(program, root, commands);
+}
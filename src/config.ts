@@ -0,0 +1,284 @@
+import { readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import path from "node:path";
+import { toAlertRule, toAlertTarget, WEBHOOK_PRESETS } from "./alerts.js";
+import { parseAssertion } from "./assertions.js";
+import { DNS_RECORD_TYPES, isDnsRecordType } from "./dns.js";
+import { FORMATTERS, isOutputFormat } from "./formatters.js";
+import { defaultOptions, type Options } from "./report.js";
+import { isStage, parseTimeouts, STAGES } from "./stages.js";
+
+type FieldKind =
+  | "positiveInt"
+  | "positiveNumber"
+  | "boolean"
+  | "string"
+  | "nullableString"
+  | "stringList"
+  | "format"
+  | "dnsTypes"
+  | "timeouts"
+  | "alerts"
+  | "alertTargets";
+
+export type ConfigValues = Partial<Options>;
+
+export type ConfigFile = {
+  file: string | null;
+  defaults: ConfigValues;
+  profiles: Record<string, ConfigValues>;
+};
+
+export type OptionSource = "default" | "config" | `profile:${string}` | `env:${string}` | "cli";
+
+export type ResolvedOptions = {
+  options: Options;
+  sources: Record<keyof Options, OptionSource>;
+  file: string | null;
+  profile: string | null;
+};
+
+// Only collection settings are configurable; one-off switches like --record or --watch stay on the CLI.
+const CONFIG_FIELDS: Partial<Record<keyof Options, FieldKind>> = {
+  samples: "positiveInt",
+  internetHosts: "stringList",
+  ipv6Host: "string",
+  routerHost: "nullableString",
+  dnsHosts: "stringList",
+  dnsTypes: "dnsTypes",
+  dnsQueries: "positiveInt",
+  compareResolvers: "boolean",
+  resolvers: "stringList",
+  path: "boolean",
+  maxHops: "positiveInt",
+  bufferbloat: "boolean",
+  load: "string",
+  speedtest: "boolean",
+  probes: "stringList",
+  connectivity: "boolean",
+  connectivityUrl: "string",
+  connectivityExpect: "string",
+  timeouts: "timeouts",
+  alerts: "alerts",
+  alertTargets: "alertTargets",
+  alertCooldown: "positiveNumber",
+  interval: "positiveNumber",
+  save: "boolean",
+  asserts: "stringList",
+  format: "format",
+  header: "boolean",
+  noColor: "boolean"
+};
+
+const KIND_MESSAGES: Record<FieldKind, string> = {
+  positiveInt: "must be a positive integer",
+  positiveNumber: "must be a positive number",
+  boolean: "must be true or false",
+  string: "must be a non-empty string",
+  nullableString: "must be a string or null",
+  stringList: "must be a list of non-empty strings or a comma-separated string",
+  format: `must be one of: ${Object.keys(FORMATTERS).join(", ")}`,
+  dnsTypes: `must be a list of ${DNS_RECORD_TYPES.join(", ")} or a comma-separated string`,
+  timeouts: `must map stages (${STAGES.join(", ")}) to positive seconds, or be a "<stage>=<s>,..." string`,
+  alerts: 'must be a list of conditions or { "when", "name", "targets", "cooldown" } rules',
+  alertTargets: `must be a list of webhook URLs, { "webhook", "preset" } (${WEBHOOK_PRESETS.join(", ")}) or { "command" } targets`
+};
+
+export function defaultConfigPath(env: NodeJS.ProcessEnv = process.env, home: string = homedir()): string {
+  const base = env.XDG_CONFIG_HOME || path.join(home, ".config");
+  return path.join(base, "wifi-stats", "config.json");
+}
+
+export function envName(key: string): string {
+  return `WIFI_STATS_${key.replace(/[A-Z]/g, (letter) => `_${letter}`).toUpperCase()}`;
+}
+
+function coerce(kind: FieldKind, value: unknown): { ok: true; value: unknown } | { ok: false } {
+  switch (kind) {
+    case "positiveInt":
+      return Number.isInteger(value) && (value as number) > 0 ? { ok: true, value } : { ok: false };
+    case "positiveNumber":
+      return typeof value === "number" && Number.isFinite(value) && value > 0 ? { ok: true, value } : { ok: false };
+    case "boolean":
+      return typeof value === "boolean" ? { ok: true, value } : { ok: false };
+    case "string":
+      return typeof value === "string" && value.trim() ? { ok: true, value } : { ok: false };
+    case "format":
+      return typeof value === "string" && isOutputFormat(value) ? { ok: true, value } : { ok: false };
+    case "nullableString":
+      return value === null || (typeof value === "string" && value.trim()) ? { ok: true, value } : { ok: false };
+    case "stringList": {
+      const list = typeof value === "string" ? value.split(",").map((item) => item.trim()) : value;
+      const valid = Array.isArray(list) && list.length > 0 && list.every((item) => typeof item === "string" && item.trim());
+      return valid ? { ok: true, value: list } : { ok: false };
+    }
+    case "dnsTypes": {
+      const list = coerce("stringList", value);
+      if (!list.ok) return list;
+      const types = (list.value as string[]).map((item) => item.toUpperCase());
+      return types.every(isDnsRecordType) ? { ok: true, value: [...new Set(types)] } : { ok: false };
+    }
+    case "timeouts": {
+      if (typeof value === "string") {
+        try {
+          return { ok: true, value: parseTimeouts(value) };
+        } catch {
+          return { ok: false };
+        }
+      }
+      if (typeof value !== "object" || value === null || Array.isArray(value)) return { ok: false };
+      const valid = Object.entries(value).every(
+        ([stage, seconds]) => isStage(stage) && typeof seconds === "number" && Number.isFinite(seconds) && seconds > 0
+      );
+      return valid ? { ok: true, value: { ...value } } : { ok: false };
+    }
+    case "alerts": {
+      const list = typeof value === "string" ? value.split(",") : value;
+      if (!Array.isArray(list) || list.length === 0) return { ok: false };
+      const rules = list.map(toAlertRule);
+      if (rules.some((rule) => rule === null)) return { ok: false };
+      try {
+        rules.forEach((rule) => parseAssertion(rule?.when ?? ""));
+      } catch {
+        return { ok: false };
+      }
+      return { ok: true, value: rules };
+    }
+    case "alertTargets": {
+      const list = typeof value === "string" ? value.split(",").map((item) => item.trim()) : value;
+      if (!Array.isArray(list) || list.length === 0) return { ok: false };
+      const targets = list.map(toAlertTarget);
+      return targets.every((target) => target !== null) ? { ok: true, value: targets } : { ok: false };
+    }
+  }
+}
+
+function validateValues(raw: unknown, where: string): ConfigValues {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error(`${where} must be an object`);
+  }
+
+  const values: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    const kind = CONFIG_FIELDS[key as keyof Options];
+    if (!kind) {
+      throw new Error(`Unknown key "${key}" in ${where}; valid keys: ${Object.keys(CONFIG_FIELDS).join(", ")}`);
+    }
+    const result = coerce(kind, value);
+    if (!result.ok) throw new Error(`${where}.${key} ${KIND_MESSAGES[kind]}`);
+    values[key] = result.value;
+  }
+  return values as ConfigValues;
+}
+
+export function parseConfig(raw: string, file: string): ConfigFile {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`${file}: invalid JSON (${error instanceof Error ? error.message : String(error)})`);
+  }
+
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`${file}: expected an object with "defaults" and/or "profiles"`);
+  }
+
+  const { defaults = {}, profiles = {}, ...rest } = parsed as Record<string, unknown>;
+  const extra = Object.keys(rest);
+  if (extra.length > 0) {
+    throw new Error(`${file}: unknown top-level key "${extra[0]}" (expected "defaults" and/or "profiles")`);
+  }
+
+  try {
+    if (typeof profiles !== "object" || profiles === null || Array.isArray(profiles)) {
+      throw new Error("profiles must be an object of named profiles");
+    }
+    return {
+      file,
+      defaults: validateValues(defaults, "defaults"),
+      profiles: Object.fromEntries(
+        Object.entries(profiles).map(([name, values]) => [name, validateValues(values, `profiles.${name}`)])
+      )
+    };
+  } catch (error) {
+    throw new Error(`${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// An explicit --config must exist; the default location is optional.
+export async function loadConfig(file: string | null, env: NodeJS.ProcessEnv = process.env): Promise<ConfigFile> {
+  const target = file ?? defaultConfigPath(env);
+  let raw: string;
+  try {
+    raw = await readFile(target, "utf8");
+  } catch (error) {
+    if (!file && (error as NodeJS.ErrnoException).code === "ENOENT") return { file: null, defaults: {}, profiles: {} };
+    throw new Error(`Cannot read config file ${target}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return parseConfig(raw, target);
+}
+
+function parseEnvValue(kind: FieldKind, raw: string): unknown {
+  if (kind === "positiveInt" || kind === "positiveNumber") return raw.trim() === "" ? Number.NaN : Number(raw);
+  if (kind === "boolean") {
+    if (/^(1|true|yes)$/i.test(raw)) return true;
+    if (/^(0|false|no)$/i.test(raw)) return false;
+    return raw;
+  }
+  return raw;
+}
+
+export function envValues(env: NodeJS.ProcessEnv): Array<[keyof Options, unknown, string]> {
+  const values: Array<[keyof Options, unknown, string]> = [];
+  for (const [key, kind] of Object.entries(CONFIG_FIELDS) as Array<[keyof Options, FieldKind]>) {
+    const name = envName(key);
+    const raw = env[name];
+    if (raw === undefined) continue;
+    const result = coerce(kind, parseEnvValue(kind, raw));
+    if (!result.ok) throw new Error(`${name} ${KIND_MESSAGES[kind]}`);
+    values.push([key, result.value, name]);
+  }
+  return values;
+}
+
+export function resolveOptions(
+  cli: Options,
+  explicit: ReadonlySet<keyof Options>,
+  config: ConfigFile,
+  profile: string | null,
+  env: NodeJS.ProcessEnv = process.env
+): ResolvedOptions {
+  const options = defaultOptions();
+  const sources = Object.fromEntries(Object.keys(options).map((key) => [key, "default"])) as ResolvedOptions["sources"];
+  const apply = (values: ConfigValues, source: OptionSource) => {
+    for (const [key, value] of Object.entries(values)) {
+      Object.assign(options, { [key]: Array.isArray(value) ? [...value] : value });
+      sources[key as keyof Options] = source;
+    }
+  };
+
+  apply(config.defaults, "config");
+
+  const profileName = profile ?? env.WIFI_STATS_PROFILE ?? null;
+  if (profileName) {
+    const values = Object.hasOwn(config.profiles, profileName) ? config.profiles[profileName] : null;
+    if (!values) {
+      const available = Object.keys(config.profiles);
+      throw new Error(
+        `Unknown profile "${profileName}"${available.length > 0 ? ` (available: ${available.join(", ")})` : " (no profiles configured)"}`
+      );
+    }
+    apply(values, `profile:${profileName}`);
+  }
+
+  for (const [key, value, name] of envValues(env)) {
+    apply({ [key]: value }, `env:${name}`);
+  }
+
+  for (const key of explicit) {
+    Object.assign(options, { [key]: cli[key] });
+    sources[key] = "cli";
+  }
+
+  return { options, sources, file: config.file, profile: profileName };
+}
@@ -0,0 +1,218 @@
+import { request as httpRequest, type IncomingMessage } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { BlockList, isIP } from "node:net";
+import { performance } from "node:perf_hooks";
+import { dnsLookup, udpTransport, type DnsTransport } from "./dns.js";
+import type { Logger } from "./logger.js";
+import type { StageError } from "./stages.js";
+
+// `unknown` when the check was cut short by a timeout or cancellation.
+export type ConnectivityState = "online" | "captive" | "dns-hijacked" | "offline" | "unknown";
+
+export type ConnectivityReport = {
+  state: ConnectivityState;
+  reason: string;
+  url: string;
+  // What the system resolver returned for the probe host.
+  addresses: string[];
+  status: number | null;
+  // Where a captive portal sent the probe: the Location header or a meta refresh.
+  redirectUrl: string | null;
+  durationMs: number | null;
+};
+
+export type ConnectivitySettings = {
+  url: string;
+  // Text the probe page must contain; an HTTP 204 passes regardless.
+  expect: string;
+  timeoutMs?: number;
+};
+
+// Resolves a host name to its addresses, rejecting when the name doesn't resolve.
+export type HostResolver = (host: string) => Promise<string[]>;
+
+export const DEFAULT_CONNECTIVITY_URL = "http://captive.apple.com/hotspot-detect.html";
+export const DEFAULT_CONNECTIVITY_EXPECT = "Success";
+export const CONNECTIVITY_TIMEOUT_MS = 5000;
+
+const USER_AGENT = "wifi-stats";
+// Portal pages are small; the expected text and a meta refresh sit near the top.
+const MAX_BODY_BYTES = 64 * 1024;
+
+// Addresses a public probe host never legitimately resolves to.
+const PRIVATE_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15]
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["fc00::", 7],
+  ["fe80::", 10]
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv6");
+}
+
+type ProbeResponse = {
+  status: number;
+  location: string | null;
+  body: string;
+};
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  return family !== 0 && PRIVATE_RANGES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+export function parseConnectivityUrl(raw: string): URL {
+  const invalid = () => new Error(`Invalid connectivity URL "${raw}": expected an http:// or https:// URL`);
+  if (!/^https?:\/\//i.test(raw)) throw invalid();
+  try {
+    return new URL(raw);
+  } catch {
+    throw invalid();
+  }
+}
+
+// Looks the host up the way the rest of the report does: A first, AAAA on IPv6-only networks.
+export function dnsResolver(server: string | null, log: Logger, transport: DnsTransport = udpTransport): HostResolver {
+  return async (host) => {
+    for (const type of ["A", "AAAA"] as const) {
+      const lookup = await dnsLookup(host, server, { type, queries: 1 }, log, transport);
+      if (lookup.failure) throw new Error(lookup.error ?? lookup.failure);
+      const addresses = lookup.answers.filter((answer) => answer.type === type).map((answer) => answer.data);
+      if (addresses.length > 0) return addresses;
+    }
+    return [];
+  };
+}
+
+// Sends the GET to an address resolved up front, so the check sees the same answer the resolver gave.
+// Redirects are not followed: they are what a portal looks like.
+function fetchProbe(url: URL, address: string, timeoutMs: number, signal?: AbortSignal): Promise<ProbeResponse> {
+  return new Promise((resolve, reject) => {
+    const host = url.hostname.replace(/^\[(.*)\]$/, "$1");
+    const request = url.protocol === "https:" ? httpsRequest : httpRequest;
+    const req = request({
+      host: address,
+      port: url.port ? Number(url.port) : undefined,
+      path: `${url.pathname}${url.search}`,
+      headers: { host: url.host, "user-agent": USER_AGENT, connection: "close" },
+      servername: isIP(host) ? undefined : host,
+      signal
+    });
+    const timer = setTimeout(() => req.destroy(new Error(`no answer within ${timeoutMs} ms`)), timeoutMs);
+
+    req.once("error", (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    req.once("response", (response: IncomingMessage) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      const done = () => {
+        clearTimeout(timer);
+        const location = response.headers.location ?? null;
+        resolve({ status: response.statusCode ?? 0, location, body: Buffer.concat(chunks).toString("utf8") });
+        response.destroy();
+      };
+      response.on("data", (chunk: Buffer) => {
+        chunks.push(chunk);
+        size += chunk.length;
+        if (size >= MAX_BODY_BYTES) done();
+      });
+      response.once("end", done);
+      response.once("error", (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+    });
+    req.end();
+  });
+}
+
+function portalUrl(response: ProbeResponse, base: URL): string | null {
+  const refresh = response.body.match(/<meta[^>]+http-equiv=["']?refresh["']?[^>]*content=["']?\s*\d+\s*;\s*url=([^"'>\s]+)/i);
+  const target = response.location ?? refresh?.[1] ?? null;
+  if (!target) return null;
+  try {
+    return new URL(target, base).toString();
+  } catch {
+    return target;
+  }
+}
+
+export function connectivityError(url: string, error: StageError): ConnectivityReport {
+  const outcome = error === "timeout" ? "timed out" : "was cancelled";
+  return { state: "unknown", reason: `connectivity check ${outcome}`, url, addresses: [], status: null, redirectUrl: null, durationMs: null };
+}
+
+// Fetches the probe page and compares it with the expected answer. A different page or a redirect is a
+// captive portal; a public host resolving to a private address that then doesn't answer is a hijacking
+// resolver; anything else that fails is offline.
+export async function checkConnectivity(
+  settings: ConnectivitySettings,
+  resolve: HostResolver,
+  log: Logger,
+  signal?: AbortSignal
+): Promise<ConnectivityReport> {
+  const url = parseConnectivityUrl(settings.url);
+  const host = url.hostname.replace(/^\[(.*)\]$/, "$1");
+  const startedAt = performance.now();
+  log("info", "collect.connectivity.start", { url: settings.url });
+
+  const report = (state: ConnectivityState, reason: string, fields: Partial<ConnectivityReport> = {}): ConnectivityReport => {
+    const result = {
+      state,
+      reason,
+      url: settings.url,
+      addresses: [],
+      status: null,
+      redirectUrl: null,
+      durationMs: round3(performance.now() - startedAt),
+      ...fields
+    };
+    if (state === "online") log("success", "collect.connectivity.success", { url: settings.url, durationMs: result.durationMs });
+    else log("error", "collect.connectivity.error", { url: settings.url, state, reason });
+    return result;
+  };
+
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : await resolve(host);
+  } catch (error) {
+    return report("offline", `${host} did not resolve: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (addresses.length === 0) return report("offline", `${host} has no addresses`);
+
+  let response: ProbeResponse;
+  try {
+    response = await fetchProbe(url, addresses[0], settings.timeoutMs ?? CONNECTIVITY_TIMEOUT_MS, signal);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (!isIP(host) && addresses.every(isPrivateAddress)) {
+      return report("dns-hijacked", `${host} resolved to private address ${addresses[0]}, which did not answer (${message})`, { addresses });
+    }
+    return report("offline", `${url.host} did not answer: ${message}`, { addresses });
+  }
+
+  const { status } = response;
+  if (status === 204 || (status >= 200 && status < 300 && response.body.includes(settings.expect))) {
+    return report("online", `${url.host} answered as expected (HTTP ${status})`, { addresses, status });
+  }
+  const redirectUrl = portalUrl(response, url);
+  const reason = redirectUrl ? `HTTP ${status} redirect to ${redirectUrl}` : `HTTP ${status} with an unexpected page`;
+  return report("captive", reason, { addresses, status, redirectUrl });
+}
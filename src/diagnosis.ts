@@ -0,0 +1,299 @@
+import type { OutputData } from "./report.js";
+
+export type Severity = "info" | "warning" | "critical";
+
+export type Finding = {
+  id: string;
+  severity: Severity;
+  metric: string;
+  value: number | string | null;
+  message: string;
+  recommendation: string | null;
+};
+
+export type Diagnosis = {
+  score: number;
+  verdict: "healthy" | "degraded" | "poor";
+  findings: Finding[];
+};
+
+export type DiagnosisInput = Pick<OutputData, "wifi" | "router" | "internet" | "dns" | "speedtest" | "ipv6" | "connectivity" | "probes">;
+
+// Thresholds follow the interpretation hints in skill.md.
+const SIGNAL_FAIR_DBM = -60;
+const SIGNAL_WEAK_DBM = -70;
+const SIGNAL_UNUSABLE_DBM = -80;
+const SNR_LOW_DB = 25;
+const SNR_POOR_DB = 15;
+const ROUTER_SLOW_MS = 20;
+const INTERNET_SLOW_MS = 100;
+const JITTER_HIGH_MS = 30;
+const LOSS_CRITICAL_PCT = 5;
+const DNS_SLOW_MS = 100;
+const NON_OVERLAPPING_24GHZ = [1, 6, 11];
+
+const SEVERITY_PENALTY: Record<Severity, number> = {
+  info: 5,
+  warning: 15,
+  critical: 30
+};
+
+function checkSignal(input: DiagnosisInput, findings: Finding[]): void {
+  const signal = input.wifi?.signalDbm;
+  if (signal === null || signal === undefined) return;
+
+  if (signal < SIGNAL_UNUSABLE_DBM) {
+    findings.push({
+      id: "signal.unusable",
+      severity: "critical",
+      metric: "wifi.signalDbm",
+      value: signal,
+      message: `Signal is very weak (${signal} dBm); expect drops and low throughput.`,
+      recommendation: "Move closer to the access point or add one nearer to this spot."
+    });
+  } else if (signal < SIGNAL_WEAK_DBM) {
+    findings.push({
+      id: "signal.weak",
+      severity: "warning",
+      metric: "wifi.signalDbm",
+      value: signal,
+      message: `Signal is weak (${signal} dBm).`,
+      recommendation: "Move closer to the access point or remove obstructions between you and it."
+    });
+  } else if (signal < SIGNAL_FAIR_DBM) {
+    findings.push({
+      id: "signal.fair",
+      severity: "info",
+      metric: "wifi.signalDbm",
+      value: signal,
+      message: `Signal is fair (${signal} dBm); fine for browsing, marginal for calls.`,
+      recommendation: null
+    });
+  }
+
+  const noise = input.wifi?.noiseDbm;
+  if (noise === null || noise === undefined) return;
+  const snr = signal - noise;
+
+  if (snr < SNR_POOR_DB) {
+    findings.push({
+      id: "snr.poor",
+      severity: "critical",
+      metric: "wifi.snrDb",
+      value: snr,
+      message: `Signal-to-noise ratio is poor (${snr} dB); the link cannot hold high data rates.`,
+      recommendation: "Look for interference sources (microwaves, other APs) or change channel."
+    });
+  } else if (snr < SNR_LOW_DB) {
+    findings.push({
+      id: "snr.low",
+      severity: "warning",
+      metric: "wifi.snrDb",
+      value: snr,
+      message: `Signal-to-noise ratio is low (${snr} dB).`,
+      recommendation: "Reduce interference or move closer to the access point."
+    });
+  }
+}
+
+function checkChannel(input: DiagnosisInput, findings: Finding[]): void {
+  const { band, channel } = input.wifi ?? {};
+  if (band !== "2.4 GHz" || channel === null || channel === undefined) return;
+
+  if (!NON_OVERLAPPING_24GHZ.includes(channel)) {
+    findings.push({
+      id: "channel.overlapping",
+      severity: "warning",
+      metric: "wifi.channel",
+      value: channel,
+      message: `2.4 GHz channel ${channel} overlaps its neighbours and is prone to congestion.`,
+      recommendation: "Configure the access point to use channel 1, 6 or 11, or switch to 5 GHz."
+    });
+    return;
+  }
+
+  findings.push({
+    id: "band.2ghz",
+    severity: "info",
+    metric: "wifi.band",
+    value: band,
+    message: "Connected on 2.4 GHz, which is usually congested and slower.",
+    recommendation: "Prefer a 5 GHz or 6 GHz network if the access point offers one."
+  });
+}
+
+// ICMP loss while every TCP/HTTP probe answered: the network drops ping, not traffic.
+export function pingFiltered(input: Pick<DiagnosisInput, "probes">): boolean {
+  return !!input.probes && input.probes.length > 0 && input.probes.every((probe) => probe.error === null);
+}
+
+function checkPaths(input: DiagnosisInput, findings: Finding[]): void {
+  const routerPing = input.router.ping;
+  const internetPing = input.internet.ping;
+  const routerLoss = routerPing?.lossPct ?? null;
+  const internetLoss = internetPing?.lossPct ?? null;
+
+  // Working probes outweigh ping loss at any hop, including a router that drops ICMP too.
+  const internetLost = internetLoss !== null && internetLoss > 0;
+  if ((internetLost || (routerLoss !== null && routerLoss > 0)) && pingFiltered(input)) {
+    const lossPct = internetLost ? internetLoss : routerLoss;
+    findings.push({
+      id: "ping.filtered",
+      severity: "info",
+      metric: internetLost ? "internet.ping.lossPct" : "router.ping.lossPct",
+      value: lossPct,
+      message: `Ping loses ${lossPct}%, but every probe answered, so ICMP is filtered rather than the link failing.`,
+      recommendation: null
+    });
+  } else if (routerLoss !== null && routerLoss > 0) {
+    findings.push({
+      id: "loss.local",
+      severity: routerLoss >= LOSS_CRITICAL_PCT ? "critical" : "warning",
+      metric: "router.ping.lossPct",
+      value: routerLoss,
+      message: `Packet loss to the router (${routerLoss}%) points to a local Wi-Fi problem.`,
+      recommendation: "Check signal quality and interference before contacting the ISP."
+    });
+  } else if (routerLoss === 0 && internetLoss !== null && internetLoss > 0) {
+    findings.push({
+      id: "loss.upstream",
+      severity: internetLoss >= LOSS_CRITICAL_PCT ? "critical" : "warning",
+      metric: "internet.ping.lossPct",
+      value: internetLoss,
+      message: `Router is clean but internet loss is ${internetLoss}%, so the problem is upstream (ISP or beyond).`,
+      recommendation: "Restart the modem or raise it with the ISP, quoting these numbers."
+    });
+  }
+
+  const routerAvg = routerPing?.avgMs ?? null;
+  if (routerAvg !== null && routerAvg > ROUTER_SLOW_MS) {
+    findings.push({
+      id: "latency.local",
+      severity: "warning",
+      metric: "router.ping.avgMs",
+      value: routerAvg,
+      message: `Router latency is high (${routerAvg} ms); a healthy LAN hop is a few ms.`,
+      recommendation: "Check for airtime contention, weak signal or an overloaded router."
+    });
+  }
+
+  const internetAvg = internetPing?.avgMs ?? null;
+  if (internetAvg !== null && internetAvg > INTERNET_SLOW_MS) {
+    findings.push({
+      id: "latency.internet",
+      severity: "warning",
+      metric: "internet.ping.avgMs",
+      value: internetAvg,
+      message: `Internet latency is high (${internetAvg} ms).`,
+      recommendation: routerAvg !== null && routerAvg <= ROUTER_SLOW_MS ? "Local hop is fine; check the ISP link." : null
+    });
+  }
+
+  for (const [metric, ping] of [["router.ping.jitterMs", routerPing], ["internet.ping.jitterMs", internetPing]] as const) {
+    const jitter = ping?.jitterMs ?? null;
+    if (jitter !== null && jitter > JITTER_HIGH_MS) {
+      findings.push({
+        id: metric.startsWith("router") ? "jitter.local" : "jitter.internet",
+        severity: "warning",
+        metric,
+        value: jitter,
+        message: `Jitter is high (${jitter} ms); voice and video calls will stutter.`,
+        recommendation: null
+      });
+    }
+  }
+}
+
+function checkDns(input: DiagnosisInput, findings: Finding[]): void {
+  const lookup = input.dns.lookup;
+  if (!lookup) return;
+
+  if (lookup.lookupMs === null && lookup.error) {
+    findings.push({
+      id: "dns.failed",
+      severity: "critical",
+      metric: "dns.lookup.lookupMs",
+      value: null,
+      message: `DNS lookup for ${lookup.host} failed: ${lookup.error}.`,
+      recommendation: "Try a public resolver such as 1.1.1.1 to see if the configured one is at fault."
+    });
+    return;
+  }
+
+  if (lookup.lookupMs !== null && lookup.lookupMs > DNS_SLOW_MS) {
+    findings.push({
+      id: "dns.slow",
+      severity: "warning",
+      metric: "dns.lookup.lookupMs",
+      value: lookup.lookupMs,
+      message: `DNS lookups are slow (${lookup.lookupMs} ms); pages will feel sluggish to start.`,
+      recommendation: "Compare against a public resolver such as 1.1.1.1 or 8.8.8.8."
+    });
+  }
+}
+
+// Only a broken family is a finding: plenty of networks are IPv4-only and work fine.
+function checkIpv6(input: DiagnosisInput, findings: Finding[]): void {
+  if (input.ipv6.status !== "broken") return;
+  findings.push({
+    id: "ipv6.broken",
+    severity: "warning",
+    metric: "ipv6.status",
+    value: input.ipv6.status,
+    message: `IPv6 is configured but broken: ${input.ipv6.reason}.`,
+    recommendation: "Apps try IPv6 first and stall before falling back; fix IPv6 on the router or turn it off there."
+  });
+}
+
+// Each state explains the failures elsewhere in the report, so it leads with what to do about it.
+function checkConnectivity(input: DiagnosisInput, findings: Finding[]): void {
+  const check = input.connectivity;
+  if (!check) return;
+
+  if (check.state === "captive") {
+    findings.push({
+      id: "connectivity.captive",
+      severity: "critical",
+      metric: "connectivity.state",
+      value: check.state,
+      message: `Wi-Fi is connected, but traffic is held by a captive portal (${check.reason}).`,
+      recommendation: check.redirectUrl
+        ? `Open ${check.redirectUrl} in a browser and sign in or accept the terms.`
+        : "Open any http:// page in a browser to reach the sign-in page."
+    });
+  } else if (check.state === "dns-hijacked") {
+    findings.push({
+      id: "connectivity.dns-hijacked",
+      severity: "critical",
+      metric: "connectivity.state",
+      value: check.state,
+      message: `The DNS server is redirecting lookups: ${check.reason}.`,
+      recommendation: "Sign in to the network if it has a portal, otherwise switch to a trusted resolver."
+    });
+  } else if (check.state === "offline") {
+    findings.push({
+      id: "connectivity.offline",
+      severity: "critical",
+      metric: "connectivity.state",
+      value: check.state,
+      message: `The web is not reachable: ${check.reason}.`,
+      recommendation: "Check the router's upstream connection; if only this device is affected, reconnect to the network."
+    });
+  }
+}
+
+export function diagnose(input: DiagnosisInput): Diagnosis {
+  const findings: Finding[] = [];
+  checkSignal(input, findings);
+  checkChannel(input, findings);
+  checkPaths(input, findings);
+  checkDns(input, findings);
+  checkIpv6(input, findings);
+  checkConnectivity(input, findings);
+
+  const penalty = findings.reduce((total, finding) => total + SEVERITY_PENALTY[finding.severity], 0);
+  const score = Math.max(0, 100 - penalty);
+  const verdict = score >= 80 ? "healthy" : score >= 50 ? "degraded" : "poor";
+
+  return { score, verdict, findings };
+}
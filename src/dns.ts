@@ -0,0 +1,448 @@
+import { randomInt } from "node:crypto";
+import { createSocket } from "node:dgram";
+import { getServers } from "node:dns";
+import { mkdir, writeFile } from "node:fs/promises";
+import { isIPv6 } from "node:net";
+import path from "node:path";
+import { performance } from "node:perf_hooks";
+import type { Logger } from "./logger.js";
+import { percentile } from "./stats.js";
+
+const DNS_PORT = 53;
+const DEFAULT_TIMEOUT_MS = 2000;
+
+export const DNS_RECORD_TYPES = ["A", "AAAA", "HTTPS"] as const;
+
+export type DnsRecordType = (typeof DNS_RECORD_TYPES)[number];
+
+export type DnsFailure = "nxdomain" | "servfail" | "refused" | "timeout" | "error";
+
+export type DnsAnswer = {
+  type: string;
+  ttl: number;
+  data: string;
+};
+
+export type DnsLookupResult = {
+  host: string;
+  server: string | null;
+  type: DnsRecordType;
+  // The first query, which the resolver usually has to answer from upstream; null when it failed.
+  lookupMs: number | null;
+  // Median of the repeat queries, which a caching resolver answers locally.
+  warmMs: number | null;
+  queries: number;
+  rcode: string | null;
+  answers: DnsAnswer[];
+  failure: DnsFailure | null;
+  error: string | null;
+};
+
+export type DnsLookupSettings = {
+  type: DnsRecordType;
+  queries: number;
+  timeoutMs?: number;
+};
+
+export type DnsExchange = {
+  response: Buffer;
+  elapsedMs: number;
+};
+
+// Sends one query packet and resolves with the matching response. Failures reject with an error whose
+// `code` is ETIMEOUT, ECONNREFUSED or whatever the socket reported; an aborted `signal` rejects with its reason.
+export type DnsTransport = (server: string, query: Buffer, timeoutMs: number, signal?: AbortSignal) => Promise<DnsExchange>;
+
+export type DnsMessage = {
+  id: number;
+  rcode: string;
+  truncated: boolean;
+  questions: Array<{ name: string; type: string }>;
+  answers: DnsAnswer[];
+};
+
+const TYPE_CODES: Record<string, number> = { A: 1, CNAME: 5, AAAA: 28, HTTPS: 65 };
+const TYPE_NAMES = new Map(Object.entries(TYPE_CODES).map(([name, code]) => [code, name]));
+const RCODES = ["NOERROR", "FORMERR", "SERVFAIL", "NXDOMAIN", "NOTIMP", "REFUSED"];
+const RCODE_FAILURES: Record<string, DnsFailure> = { NXDOMAIN: "nxdomain", SERVFAIL: "servfail", REFUSED: "refused" };
+
+export function isDnsRecordType(value: string): value is DnsRecordType {
+  return (DNS_RECORD_TYPES as readonly string[]).includes(value);
+}
+
+export function encodeQuery(id: number, name: string, type: DnsRecordType): Buffer {
+  const labels = name.replace(/\.$/, "").split(".").filter(Boolean);
+  const header = Buffer.alloc(12);
+  header.writeUInt16BE(id, 0);
+  header.writeUInt16BE(0x0100, 2); // standard query, recursion desired
+  header.writeUInt16BE(1, 4);
+  const encodedName = labels.map((label) => {
+    const bytes = Buffer.from(label, "utf8");
+    if (bytes.length > 63) throw new Error(`DNS label too long: ${label}`);
+    return Buffer.concat([Buffer.from([bytes.length]), bytes]);
+  });
+  const tail = Buffer.alloc(5);
+  tail.writeUInt16BE(TYPE_CODES[type], 1);
+  tail.writeUInt16BE(1, 3); // class IN
+  return Buffer.concat([header, ...encodedName, tail]);
+}
+
+function readName(packet: Buffer, offset: number): { name: string; next: number } {
+  const labels: string[] = [];
+  let position = offset;
+  let next = -1;
+  // Bounding the steps by the packet length stops compression pointer loops.
+  for (let jumps = 0; jumps <= packet.length; jumps += 1) {
+    const length = packet.readUInt8(position);
+    if (length === 0) {
+      return { name: labels.join(".") || ".", next: next === -1 ? position + 1 : next };
+    }
+    if ((length & 0xc0) === 0xc0) {
+      if (next === -1) next = position + 2;
+      position = packet.readUInt16BE(position) & 0x3fff;
+      continue;
+    }
+    labels.push(packet.toString("utf8", position + 1, position + 1 + length));
+    position += length + 1;
+  }
+  throw new Error("compression loop in name");
+}
+
+function formatIpv6(bytes: Buffer): string {
+  const groups = Array.from({ length: 8 }, (_, index) => bytes.readUInt16BE(index * 2));
+  let bestStart = -1;
+  let bestLength = 0;
+  for (let start = 0; start < 8; start += 1) {
+    let length = 0;
+    while (start + length < 8 && groups[start + length] === 0) length += 1;
+    if (length > bestLength) [bestStart, bestLength] = [start, length];
+  }
+  const hex = groups.map((group) => group.toString(16));
+  if (bestLength < 2) return hex.join(":");
+  return `${hex.slice(0, bestStart).join(":")}::${hex.slice(bestStart + bestLength).join(":")}`;
+}
+
+function formatSvcParam(key: number, value: Buffer): string {
+  switch (key) {
+    case 1: {
+      const protocols: string[] = [];
+      for (let offset = 0; offset < value.length; offset += value[offset] + 1) {
+        protocols.push(value.toString("utf8", offset + 1, offset + 1 + value[offset]));
+      }
+      return `alpn=${protocols.join(",")}`;
+    }
+    case 2:
+      return "no-default-alpn";
+    case 3:
+      return `port=${value.readUInt16BE(0)}`;
+    case 4:
+      return `ipv4hint=${Array.from({ length: value.length / 4 }, (_, index) => [...value.subarray(index * 4, index * 4 + 4)].join(".")).join(",")}`;
+    case 5:
+      return `ech=${value.toString("base64")}`;
+    case 6:
+      return `ipv6hint=${Array.from({ length: value.length / 16 }, (_, index) => formatIpv6(value.subarray(index * 16, index * 16 + 16))).join(",")}`;
+    default:
+      return `key${key}`;
+  }
+}
+
+function formatHttps(packet: Buffer, offset: number, end: number): string {
+  const priority = packet.readUInt16BE(offset);
+  const target = readName(packet, offset + 2);
+  const params: string[] = [];
+  for (let position = target.next; position + 4 <= end; ) {
+    const key = packet.readUInt16BE(position);
+    const length = packet.readUInt16BE(position + 2);
+    params.push(formatSvcParam(key, packet.subarray(position + 4, position + 4 + length)));
+    position += 4 + length;
+  }
+  return [String(priority), target.name, ...params].join(" ");
+}
+
+function formatRecord(packet: Buffer, type: number, offset: number, length: number): string {
+  const data = packet.subarray(offset, offset + length);
+  switch (TYPE_NAMES.get(type)) {
+    case "A":
+      return [...data].join(".");
+    case "AAAA":
+      return formatIpv6(data);
+    case "CNAME":
+      return readName(packet, offset).name;
+    case "HTTPS":
+      return formatHttps(packet, offset, offset + length);
+    default:
+      return data.toString("hex");
+  }
+}
+
+export function decodeMessage(packet: Buffer): DnsMessage {
+  if (packet.length < 12) throw new Error("DNS message shorter than its header");
+  const flags = packet.readUInt16BE(2);
+  const questionCount = packet.readUInt16BE(4);
+  const answerCount = packet.readUInt16BE(6);
+
+  let offset = 12;
+  const questions: DnsMessage["questions"] = [];
+  for (let index = 0; index < questionCount; index += 1) {
+    const { name, next } = readName(packet, offset);
+    const type = packet.readUInt16BE(next);
+    questions.push({ name, type: TYPE_NAMES.get(type) ?? `TYPE${type}` });
+    offset = next + 4;
+  }
+
+  const answers: DnsAnswer[] = [];
+  for (let index = 0; index < answerCount; index += 1) {
+    const { next } = readName(packet, offset);
+    const type = packet.readUInt16BE(next);
+    const ttl = packet.readUInt32BE(next + 4);
+    const length = packet.readUInt16BE(next + 8);
+    if (next + 10 + length > packet.length) throw new Error("DNS answer runs past the end of the message");
+    answers.push({ type: TYPE_NAMES.get(type) ?? `TYPE${type}`, ttl, data: formatRecord(packet, type, next + 10, length) });
+    offset = next + 10 + length;
+  }
+
+  const rcode = flags & 0x000f;
+  return {
+    id: packet.readUInt16BE(0),
+    rcode: RCODES[rcode] ?? `RCODE${rcode}`,
+    truncated: (flags & 0x0200) !== 0,
+    questions,
+    answers
+  };
+}
+
+// Accepts "1.1.1.1", "1.1.1.1:5353", "2606:4700::1111" and "[::1]:5353".
+export function parseServer(server: string): { address: string; port: number } {
+  const bracketed = server.match(/^\[(.+)\](?::(\d+))?$/);
+  if (bracketed) return { address: bracketed[1], port: bracketed[2] ? Number(bracketed[2]) : DNS_PORT };
+  const withPort = server.match(/^([^:]+):(\d+)$/);
+  if (withPort) return { address: withPort[1], port: Number(withPort[2]) };
+  return { address: server, port: DNS_PORT };
+}
+
+function codedError(message: string, code: string): NodeJS.ErrnoException {
+  return Object.assign(new Error(message), { code });
+}
+
+// Aborting either signal closes the socket and rejects with the abort reason.
+export function createDnsTransport(factorySignal?: AbortSignal): DnsTransport {
+  return (server, query, timeoutMs, callSignal) =>
+    new Promise((resolve, reject) => {
+      const signal = factorySignal && callSignal ? AbortSignal.any([factorySignal, callSignal]) : (factorySignal ?? callSignal);
+      signal?.throwIfAborted();
+      const { address, port } = parseServer(server);
+      const socket = createSocket(isIPv6(address) ? "udp6" : "udp4");
+      let sentAt = 0;
+      let settled = false;
+
+      const finish = (error: unknown, exchange?: DnsExchange) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+        socket.close();
+        if (exchange) resolve(exchange);
+        else reject(error);
+      };
+      const onAbort = () => finish(signal?.reason);
+      const timer = setTimeout(() => finish(codedError(`timed out after ${timeoutMs} ms`, "ETIMEOUT")), timeoutMs);
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      socket.on("error", (error) => finish(error));
+      socket.on("message", (message) => {
+        // Stray datagrams are ignored; only the reply carrying this query's ID counts.
+        if (message.length < 12 || message.readUInt16BE(0) !== query.readUInt16BE(0)) return;
+        finish(null, { response: message, elapsedMs: performance.now() - sentAt });
+      });
+      socket.connect(port, address, () => {
+        sentAt = performance.now();
+        socket.send(query);
+      });
+    });
+}
+
+export const udpTransport: DnsTransport = createDnsTransport();
+
+// Recorded next to command captures by --record; the query ID is rewritten on replay.
+export type DnsCapture = {
+  server: string;
+  question: string;
+  response: string | null;
+  elapsedMs: number | null;
+  errorCode: string | null;
+  errorMessage: string | null;
+};
+
+export const DNS_CAPTURE_PREFIX = "dns-";
+
+function questionOf(query: Buffer): string {
+  const [question] = decodeMessage(query).questions;
+  return `${question?.name} ${question?.type}`;
+}
+
+export async function createRecordingTransport(dir: string, inner: DnsTransport = udpTransport): Promise<DnsTransport> {
+  await mkdir(dir, { recursive: true });
+  let sequence = 0;
+  return async (server, query, timeoutMs, signal) => {
+    sequence += 1;
+    const file = path.join(dir, `${DNS_CAPTURE_PREFIX}${String(sequence).padStart(3, "0")}.json`);
+    const capture: DnsCapture = {
+      server,
+      question: questionOf(query),
+      response: null,
+      elapsedMs: null,
+      errorCode: null,
+      errorMessage: null
+    };
+    try {
+      const exchange = await inner(server, query, timeoutMs, signal);
+      await writeFile(file, `${JSON.stringify({ ...capture, response: exchange.response.toString("base64"), elapsedMs: exchange.elapsedMs }, null, 2)}\n`);
+      return exchange;
+    } catch (error) {
+      const { code, message } = error as NodeJS.ErrnoException;
+      await writeFile(file, `${JSON.stringify({ ...capture, errorCode: code ?? null, errorMessage: message }, null, 2)}\n`);
+      throw error;
+    }
+  };
+}
+
+// Repeated queries are served in recorded order; the last capture keeps repeating.
+export function createReplayTransport(captures: DnsCapture[]): DnsTransport {
+  const queues = new Map<string, DnsCapture[]>();
+  for (const capture of captures) {
+    const key = `${capture.server} ${capture.question}`;
+    queues.set(key, [...(queues.get(key) ?? []), capture]);
+  }
+
+  const served = new Map<string, number>();
+  return async (server, query) => {
+    const key = `${server} ${questionOf(query)}`;
+    const queue = queues.get(key);
+    if (!queue) throw codedError(`no recorded DNS response for: ${key}`, "ENOENT");
+
+    const index = served.get(key) ?? 0;
+    served.set(key, index + 1);
+    const capture = queue[Math.min(index, queue.length - 1)];
+    if (capture.response === null) throw codedError(capture.errorMessage ?? "query failed", capture.errorCode ?? "EIO");
+
+    const response = Buffer.from(capture.response, "base64");
+    query.copy(response, 0, 0, 2);
+    return { response, elapsedMs: capture.elapsedMs ?? 0 };
+  };
+}
+
+type Attempt = {
+  elapsedMs: number | null;
+  rcode: string | null;
+  answers: DnsAnswer[];
+  failure: DnsFailure | null;
+  error: string | null;
+};
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+async function queryOnce(
+  host: string,
+  server: string,
+  type: DnsRecordType,
+  timeoutMs: number,
+  transport: DnsTransport
+): Promise<Attempt> {
+  const failed = (failure: DnsFailure, error: string, rcode: string | null = null): Attempt => ({
+    elapsedMs: null,
+    rcode,
+    answers: [],
+    failure,
+    error
+  });
+
+  let exchange: DnsExchange;
+  try {
+    exchange = await transport(server, encodeQuery(randomInt(0x10000), host, type), timeoutMs);
+  } catch (error) {
+    const { code, message } = error as NodeJS.ErrnoException;
+    if (code === "ETIMEOUT") return failed("timeout", `no response from ${server} within ${timeoutMs} ms`);
+    if (code === "ECONNREFUSED") return failed("refused", `${server} is not accepting DNS queries`);
+    return failed("error", message);
+  }
+
+  let message: DnsMessage;
+  try {
+    message = decodeMessage(exchange.response);
+  } catch (error) {
+    return failed("error", `malformed response from ${server}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  switch (message.rcode) {
+    case "NOERROR":
+      return { elapsedMs: round(exchange.elapsedMs), rcode: message.rcode, answers: message.answers, failure: null, error: null };
+    case "NXDOMAIN":
+      return failed("nxdomain", `${host} does not exist (NXDOMAIN)`, message.rcode);
+    case "SERVFAIL":
+      return failed("servfail", `${server} could not resolve ${host} (SERVFAIL)`, message.rcode);
+    default:
+      return failed(RCODE_FAILURES[message.rcode] ?? "error", `${server} answered ${message.rcode}`, message.rcode);
+  }
+}
+
+// A lookup that never got an answer to time.
+export function lookupError(
+  host: string,
+  server: string | null,
+  type: DnsRecordType,
+  failure: DnsFailure,
+  error: string
+): DnsLookupResult {
+  return { host, server, type, lookupMs: null, warmMs: null, queries: 0, rcode: null, answers: [], failure, error };
+}
+
+export async function dnsLookup(
+  host: string,
+  server: string | null,
+  settings: DnsLookupSettings,
+  log: Logger,
+  transport: DnsTransport = udpTransport
+): Promise<DnsLookupResult> {
+  // Without a known nameserver, fall back to the one Node's own resolver would use.
+  const target = server ?? getServers()[0] ?? null;
+  const { type, queries, timeoutMs = DEFAULT_TIMEOUT_MS } = settings;
+  log("info", "collect.dns-lookup.start", { host, server: target, type });
+
+  if (!target) {
+    log("error", "collect.dns-lookup.error", { host, failure: "error" });
+    return lookupError(host, null, type, "error", "no DNS server configured");
+  }
+
+  // The first query is the cold one; repeats measure the resolver's cache. A failed first query
+  // ends the run, since every repeat would only wait out the same failure.
+  const cold = await queryOnce(host, target, type, timeoutMs, transport);
+  const warm: number[] = [];
+  let sent = 1;
+  if (!cold.failure) {
+    for (; sent < queries; sent += 1) {
+      const attempt = await queryOnce(host, target, type, timeoutMs, transport);
+      if (attempt.elapsedMs !== null) warm.push(attempt.elapsedMs);
+    }
+  }
+
+  const result: DnsLookupResult = {
+    host,
+    server: target,
+    type,
+    lookupMs: cold.elapsedMs,
+    warmMs: percentile(warm, 50),
+    queries: sent,
+    rcode: cold.rcode,
+    answers: cold.answers,
+    failure: cold.failure,
+    error: cold.error
+  };
+  if (cold.failure) {
+    log("error", "collect.dns-lookup.error", { host, failure: cold.failure, error: cold.error });
+  } else {
+    log("success", "collect.dns-lookup.success", { host, lookupMs: result.lookupMs, warmMs: result.warmMs });
+  }
+  return result;
+}
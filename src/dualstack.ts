@@ -0,0 +1,101 @@
+import { isIPv4, isIPv6 } from "node:net";
+import { pingHost6, type PingResult } from "./collector.js";
+import { pingFiltered } from "./diagnosis.js";
+import { dnsLookup, parseServer, udpTransport, type DnsLookupResult, type DnsTransport } from "./dns.js";
+import type { Logger } from "./logger.js";
+import type { PlatformBackend } from "./platform.js";
+import type { ProbeResult } from "./probes.js";
+import { runCommand, type CommandRunner } from "./runner.js";
+import type { StageError } from "./stages.js";
+
+export type IpFamily = "ipv4" | "ipv6";
+
+// `unknown` when the probes were cut short by a timeout or cancellation.
+export type IpFamilyStatus = "working" | "broken" | "absent" | "unknown";
+
+export type IpFamilyReport = {
+  status: IpFamilyStatus;
+  reason: string;
+  gateway: string | null;
+  dnsServers: string[];
+  router: PingResult | null;
+  internet: PingResult | null;
+  // A for IPv4, AAAA for IPv6.
+  resolution: DnsLookupResult | null;
+};
+
+export type IpFamilyMeasurements = Omit<IpFamilyReport, "status" | "reason">;
+
+export type Ipv6Settings = {
+  samples: number;
+  target: string;
+  dnsHost: string;
+  dnsQueries: number;
+};
+
+const LABELS: Record<IpFamily, string> = { ipv4: "IPv4", ipv6: "IPv6" };
+
+export function nameserversOf(family: IpFamily, servers: string[]): string[] {
+  const matches = family === "ipv4" ? isIPv4 : isIPv6;
+  return servers.filter((server) => matches(parseServer(server).address));
+}
+
+// Reachability of the internet target decides; a missing default route alone means the family
+// isn't offered, while a route that leads nowhere is the case where apps stall before falling back.
+// Probes that all answered over the same family make an unanswered ping filtering, not breakage.
+export function assessFamily(family: IpFamily, measurements: IpFamilyMeasurements, probes?: ProbeResult[]): IpFamilyReport {
+  const label = LABELS[family];
+  const { gateway, internet, resolution } = measurements;
+  // NXDOMAIN is an answer about the name, not about the path the query took.
+  const resolutionFailed = resolution?.failure && resolution.failure !== "nxdomain" ? resolution : null;
+  const report = (status: IpFamilyStatus, reason: string): IpFamilyReport => ({ status, reason, ...measurements });
+
+  const filtered = internet?.avgMs === null && pingFiltered({ probes });
+  if (internet && (internet.avgMs !== null || filtered)) {
+    if (resolutionFailed) {
+      return report("broken", `${internet.target} is reachable, but the ${resolutionFailed.type} lookup failed: ${resolutionFailed.error}`);
+    }
+    return report(
+      "working",
+      filtered ? `${internet.target} doesn't answer ping, but every probe answered (ICMP filtered)` : `${internet.target} reachable in ${internet.avgMs} ms`
+    );
+  }
+  if (!gateway) return report("absent", `no ${label} default route`);
+  if (!internet) return report("broken", `${label} default route via ${gateway}, but no internet target to test`);
+  return report("broken", `${label} default route via ${gateway}, but ${internet.target} is unreachable (${internet.error ?? "no replies"})`);
+}
+
+export function unassessedFamily(
+  family: IpFamily,
+  error: StageError,
+  measurements: IpFamilyMeasurements = { gateway: null, dnsServers: [], router: null, internet: null, resolution: null }
+): IpFamilyReport {
+  const outcome = error === "timeout" ? "timed out" : "was cancelled";
+  return { status: "unknown", reason: `${LABELS[family]} check ${outcome}`, ...measurements };
+}
+
+export async function collectIpv6(
+  settings: Ipv6Settings,
+  dnsServers: string[],
+  backend: PlatformBackend,
+  log: Logger,
+  run: CommandRunner = runCommand,
+  transport: DnsTransport = udpTransport
+): Promise<IpFamilyReport> {
+  const gateway = await backend.getDefaultGateway6(log, run);
+  const servers = nameserversOf("ipv6", dnsServers);
+  if (!gateway) {
+    return assessFamily("ipv6", { gateway, dnsServers: servers, router: null, internet: null, resolution: null });
+  }
+
+  // AAAA goes to an IPv6 nameserver when there is one, so a broken IPv6 DNS path shows up too.
+  const [router, internet, resolution] = await Promise.all([
+    pingHost6(gateway, settings.samples, log, run),
+    pingHost6(settings.target, settings.samples, log, run),
+    dnsLookup(settings.dnsHost, servers[0] ?? dnsServers[0] ?? null, { type: "AAAA", queries: settings.dnsQueries }, log, transport)
+  ]);
+
+  const report = assessFamily("ipv6", { gateway, dnsServers: servers, router, internet, resolution });
+  log(report.status === "broken" ? "error" : "success", "collect.ipv6.result", { status: report.status, reason: report.reason });
+  return report;
+}
@@ -0,0 +1,225 @@
+import { createServer, type Server } from "node:http";
+import { isIPv6, type AddressInfo } from "node:net";
+import type { Logger } from "./logger.js";
+import type { PingResult } from "./collector.js";
+import type { DnsLookupResult } from "./dns.js";
+import type { ConnectivityState } from "./connectivity.js";
+import type { IpFamilyStatus } from "./dualstack.js";
+import type { OutputData } from "./report.js";
+
+export type ExporterSettings = {
+  host: string;
+  port: number;
+  intervalSec: number;
+};
+
+export type Exporter = {
+  server: Server;
+  url: string;
+  latest: () => OutputData | null;
+  stop: () => Promise<void>;
+};
+
+type Labels = Record<string, string | number | null | undefined>;
+
+type MetricFamily = {
+  name: string;
+  help: string;
+  samples: Array<{ labels: Labels; value: number | null | undefined }>;
+};
+
+const IP_FAMILY_STATUSES: IpFamilyStatus[] = ["working", "broken", "absent", "unknown"];
+const CONNECTIVITY_STATES: ConnectivityState[] = ["online", "captive", "dns-hijacked", "offline", "unknown"];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels)
+    .filter(([, value]) => value !== null && value !== undefined)
+    .map(([key, value]) => `${key}="${escapeLabel(String(value))}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function pingSamples(output: OutputData, pick: (ping: PingResult) => number | null) {
+  const paths: Array<[string, PingResult | null]> = [
+    ["router", output.router.ping],
+    ...output.internet.pings.map((ping): [string, PingResult] => ["internet", ping])
+  ];
+  return paths
+    .filter(([, ping]) => ping !== null)
+    .map(([path, ping]) => ({ labels: { path, target: ping?.target }, value: ping ? pick(ping) : null }));
+}
+
+function probeSamples(output: OutputData) {
+  return (output.probes ?? []).flatMap((probe) =>
+    (["connect", "tls", "ttfb", "total"] as const)
+      .filter((phase) => probe[phase] !== null)
+      .map((phase) => ({ labels: { target: probe.target, phase }, value: probe[phase]?.avgMs }))
+  );
+}
+
+function metricFamilies(output: OutputData): MetricFamily[] {
+  const wifiLabels = { ssid: output.wifi?.ssid, bssid: output.wifi?.bssid, band: output.wifi?.band };
+  const dnsSamples = (pick: (lookup: DnsLookupResult) => number | null) =>
+    output.dns.lookups.map((lookup) => ({
+      labels: { server: lookup.server ?? output.dns.server, host: lookup.host, type: lookup.type },
+      value: pick(lookup)
+    }));
+  const speedtest = output.speedtest && !output.speedtest.error ? output.speedtest : null;
+
+  return [
+    { name: "wifi_stats_signal_dbm", help: "Received signal strength (RSSI)", samples: [{ labels: wifiLabels, value: output.wifi?.signalDbm }] },
+    { name: "wifi_stats_noise_dbm", help: "Noise floor", samples: [{ labels: wifiLabels, value: output.wifi?.noiseDbm }] },
+    { name: "wifi_stats_channel", help: "Wi-Fi channel number", samples: [{ labels: wifiLabels, value: output.wifi?.channel }] },
+    { name: "wifi_stats_link_rate_mbps", help: "Transmit link rate", samples: [{ labels: wifiLabels, value: output.wifi?.linkRateMbps }] },
+    { name: "wifi_stats_max_link_rate_mbps", help: "Highest link rate for the PHY mode, width and streams", samples: [{ labels: wifiLabels, value: output.wifi?.maxRateMbps }] },
+    { name: "wifi_stats_snr_db", help: "Signal-to-noise ratio", samples: [{ labels: wifiLabels, value: output.wifi?.snrDb }] },
+    { name: "wifi_stats_signal_quality_percent", help: "Signal strength mapped to 0-100%", samples: [{ labels: wifiLabels, value: output.wifi?.signalQualityPct }] },
+    { name: "wifi_stats_ping_avg_ms", help: "Average ping round-trip time", samples: pingSamples(output, (ping) => ping.avgMs) },
+    { name: "wifi_stats_ping_jitter_ms", help: "Ping round-trip standard deviation", samples: pingSamples(output, (ping) => ping.jitterMs) },
+    { name: "wifi_stats_ping_p95_ms", help: "95th percentile ping round-trip time", samples: pingSamples(output, (ping) => ping.p95Ms) },
+    { name: "wifi_stats_ping_loss_percent", help: "Ping packet loss", samples: pingSamples(output, (ping) => ping.lossPct) },
+    { name: "wifi_stats_dns_lookup_ms", help: "DNS lookup time (first, uncached query)", samples: dnsSamples((lookup) => lookup.lookupMs) },
+    { name: "wifi_stats_dns_warm_ms", help: "Median DNS lookup time of repeat queries", samples: dnsSamples((lookup) => lookup.warmMs) },
+    {
+      name: "wifi_stats_ip_family_status",
+      help: "Dual-stack verdict per address family (1 for the current status)",
+      samples: (["ipv4", "ipv6"] as const).flatMap((family) =>
+        IP_FAMILY_STATUSES.map((status) => ({
+          labels: { family, status },
+          value: Number(output[family].status === status)
+        }))
+      )
+    },
+    {
+      name: "wifi_stats_connectivity_state",
+      help: "Connectivity check verdict (1 for the current state)",
+      samples: CONNECTIVITY_STATES.map((state) => ({
+        labels: { state },
+        value: output.connectivity ? Number(output.connectivity.state === state) : null
+      }))
+    },
+    { name: "wifi_stats_probe_avg_ms", help: "Average TCP/TLS/HTTP probe time per phase", samples: probeSamples(output) },
+    {
+      name: "wifi_stats_probe_loss_percent",
+      help: "Share of probe samples that failed",
+      samples: (output.probes ?? []).map((probe) => ({ labels: { target: probe.target }, value: probe.total.lossPct }))
+    },
+    { name: "wifi_stats_speedtest_download_mbps", help: "networkQuality download throughput", samples: [{ labels: {}, value: speedtest?.downloadMbps }] },
+    { name: "wifi_stats_speedtest_upload_mbps", help: "networkQuality upload throughput", samples: [{ labels: {}, value: speedtest?.uploadMbps }] },
+    { name: "wifi_stats_speedtest_base_rtt_ms", help: "networkQuality idle round-trip time", samples: [{ labels: {}, value: speedtest?.baseRttMs }] },
+    {
+      name: "wifi_stats_bufferbloat_increase_ms",
+      help: "Average ping increase under load",
+      samples: [{ labels: { target: output.bufferbloat?.target }, value: output.bufferbloat?.increaseMs }]
+    },
+    { name: "wifi_stats_health_score", help: "Diagnosis health score (0-100)", samples: [{ labels: {}, value: output.diagnosis.score }] },
+    {
+      name: "wifi_stats_last_collection_timestamp_seconds",
+      help: "Unix time of the cached collection",
+      samples: [{ labels: {}, value: Date.parse(output.timestamp) / 1000 }]
+    }
+  ];
+}
+
+export function renderMetrics(output: OutputData | null): string {
+  const lines = [
+    "# HELP wifi_stats_up Whether a collection result is cached",
+    "# TYPE wifi_stats_up gauge",
+    `wifi_stats_up ${output ? 1 : 0}`
+  ];
+
+  if (output) {
+    for (const family of metricFamilies(output)) {
+      const samples = family.samples.filter((sample) => typeof sample.value === "number" && Number.isFinite(sample.value));
+      if (samples.length === 0) continue;
+      lines.push(`# HELP ${family.name} ${family.help}`, `# TYPE ${family.name} gauge`);
+      for (const sample of samples) {
+        lines.push(`${family.name}${formatLabels(sample.labels)} ${sample.value}`);
+      }
+    }
+  }
+
+  lines.push("# EOF");
+  return `${lines.join("\n")}\n`;
+}
+
+export async function startExporter(
+  // Gets a signal that aborts when the exporter stops, so a collection in progress ends with it.
+  collect: (signal: AbortSignal) => Promise<OutputData>,
+  settings: ExporterSettings,
+  log: Logger
+): Promise<Exporter> {
+  let latest: OutputData | null = null;
+  let timer: NodeJS.Timeout | null = null;
+  let running: Promise<void> | null = null;
+  const controller = new AbortController();
+
+  // Collection runs on its own schedule so scrapes never wait on a 12-sample ping.
+  const collectOnce = async () => {
+    try {
+      latest = await collect(controller.signal);
+      log("success", "serve.collect.success", { timestamp: latest.timestamp });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      const message = error instanceof Error ? error.message : String(error);
+      log("error", "serve.collect.error", { error: message });
+    }
+  };
+  const loop = () => {
+    running = collectOnce().then(() => {
+      running = null;
+      if (!controller.signal.aborted) timer = setTimeout(loop, settings.intervalSec * 1000);
+    });
+  };
+
+  const server = createServer((request, response) => {
+    const pathname = new URL(request.url ?? "/", "http://localhost").pathname;
+
+    if (pathname === "/metrics") {
+      response.writeHead(200, { "content-type": "application/openmetrics-text; version=1.0.0; charset=utf-8" });
+      response.end(renderMetrics(latest));
+      return;
+    }
+
+    if (pathname === "/healthz") {
+      response.writeHead(200, { "content-type": "application/json" });
+      response.end(JSON.stringify({ status: "ok", lastCollection: latest?.timestamp ?? null }));
+      return;
+    }
+
+    if (pathname === "/snapshot") {
+      response.writeHead(latest ? 200 : 503, { "content-type": "application/json" });
+      response.end(JSON.stringify(latest ?? { error: "no collection yet" }));
+      return;
+    }
+
+    response.writeHead(404, { "content-type": "text/plain" });
+    response.end("not found\n");
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(settings.port, settings.host, () => resolve());
+  });
+
+  const address = server.address() as AddressInfo;
+  const host = isIPv6(settings.host) ? `[${settings.host}]` : settings.host;
+  const url = `http://${host}:${address.port}`;
+  log("info", "serve.listening", { url });
+  loop();
+
+  return {
+    server,
+    url,
+    latest: () => latest,
+    stop: async () => {
+      controller.abort();
+      if (timer) clearTimeout(timer);
+      await running;
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  };
+}
@@ -0,0 +1,373 @@
+import type { PingResult } from "./collector.js";
+import { renderPretty } from "./render.js";
+import type { OutputData } from "./report.js";
+
+export type OutputFormat = "json" | "pretty" | "csv" | "markdown" | "html";
+
+export type FormatContext = {
+  colorEnabled: boolean;
+  // CSV header row; off when appending to an existing sheet or after the first --watch run.
+  header: boolean;
+  // One record per line (NDJSON) instead of an indented document.
+  stream: boolean;
+};
+
+export type Formatter = (output: OutputData, context: FormatContext) => string;
+
+type Section = {
+  title: string;
+  header: string[];
+  rows: string[][];
+  notes: string[];
+};
+
+type CsvValue = string | number | boolean | null | undefined;
+
+// Column names are part of the CSV contract: append new ones at the end, never rename or reorder.
+const CSV_COLUMNS: Array<[string, (output: OutputData) => CsvValue]> = [
+  ["timestamp", (output) => output.timestamp],
+  ["wifi.ssid", (output) => output.wifi?.ssid],
+  ["wifi.bssid", (output) => output.wifi?.bssid],
+  ["wifi.band", (output) => output.wifi?.band],
+  ["wifi.channel", (output) => output.wifi?.channel],
+  ["wifi.signalDbm", (output) => output.wifi?.signalDbm],
+  ["wifi.noiseDbm", (output) => output.wifi?.noiseDbm],
+  ["wifi.linkRateMbps", (output) => output.wifi?.linkRateMbps],
+  ["router.gateway", (output) => output.router.gateway],
+  ["router.ping.avgMs", (output) => output.router.ping?.avgMs],
+  ["router.ping.jitterMs", (output) => output.router.ping?.jitterMs],
+  ["router.ping.p95Ms", (output) => output.router.ping?.p95Ms],
+  ["router.ping.lossPct", (output) => output.router.ping?.lossPct],
+  ["internet.target", (output) => output.internet.target],
+  ["internet.ping.avgMs", (output) => output.internet.ping?.avgMs],
+  ["internet.ping.jitterMs", (output) => output.internet.ping?.jitterMs],
+  ["internet.ping.p95Ms", (output) => output.internet.ping?.p95Ms],
+  ["internet.ping.lossPct", (output) => output.internet.ping?.lossPct],
+  ["dns.server", (output) => output.dns.server],
+  ["dns.lookup.host", (output) => output.dns.lookup?.host],
+  ["dns.lookup.lookupMs", (output) => output.dns.lookup?.lookupMs],
+  ["speedtest.downloadMbps", (output) => output.speedtest?.downloadMbps],
+  ["speedtest.uploadMbps", (output) => output.speedtest?.uploadMbps],
+  ["speedtest.baseRttMs", (output) => output.speedtest?.baseRttMs],
+  ["bufferbloat.increaseMs", (output) => output.bufferbloat?.increaseMs],
+  ["bufferbloat.grade", (output) => output.bufferbloat?.grade],
+  ["path.firstBadHop", (output) => output.path?.firstBadHop?.hop],
+  ["diagnosis.score", (output) => output.diagnosis.score],
+  ["diagnosis.verdict", (output) => output.diagnosis.verdict],
+  ["assertions.failed", (output) => output.assertions?.failed],
+  ["meta.platform", (output) => output.meta.platform],
+  ["dns.lookup.warmMs", (output) => output.dns.lookup?.warmMs],
+  ["dns.lookup.rcode", (output) => output.dns.lookup?.rcode],
+  ["ipv4.status", (output) => output.ipv4.status],
+  ["ipv6.status", (output) => output.ipv6.status],
+  ["ipv6.internet.avgMs", (output) => output.ipv6.internet?.avgMs],
+  ["wifi.widthMhz", (output) => output.wifi?.widthMhz],
+  ["wifi.phyMode", (output) => output.wifi?.phyMode],
+  ["wifi.mcs", (output) => output.wifi?.mcs],
+  ["wifi.nss", (output) => output.wifi?.nss],
+  ["wifi.security", (output) => output.wifi?.security],
+  ["wifi.snrDb", (output) => output.wifi?.snrDb],
+  ["wifi.signalQualityPct", (output) => output.wifi?.signalQualityPct],
+  ["wifi.linkRatePct", (output) => output.wifi?.linkRatePct],
+  ["connectivity.state", (output) => output.connectivity?.state]
+];
+
+function csvCell(value: CsvValue): string {
+  if (value === null || value === undefined) return "";
+  // SSIDs come from the air; a leading =, +, - or @ would run as a formula when the file is opened in a spreadsheet.
+  const text = typeof value === "string" && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function renderCsv(output: OutputData, context: FormatContext): string {
+  const row = CSV_COLUMNS.map(([, pick]) => csvCell(pick(output))).join(",");
+  const header = CSV_COLUMNS.map(([name]) => name).join(",");
+  return context.header ? `${header}\n${row}\n` : `${row}\n`;
+}
+
+function value(amount: number | string | null | undefined, unit = ""): string {
+  if (amount === null || amount === undefined) return "n/a";
+  return unit ? `${amount} ${unit}` : String(amount);
+}
+
+function pingRows(ping: PingResult | null): string[][] {
+  if (!ping) return [["Ping", "n/a"]];
+  return [
+    ["Ping", value(ping.avgMs, "ms")],
+    ["Jitter", value(ping.jitterMs, "ms")],
+    ["P95", value(ping.p95Ms, "ms")],
+    ["Loss", value(ping.lossPct, "%")],
+    ...(ping.error ? [["Error", ping.error]] : [])
+  ];
+}
+
+function keyValue(title: string, rows: string[][], notes: string[] = []): Section {
+  return { title, header: ["Metric", "Value"], rows, notes };
+}
+
+function reportSections(output: OutputData): Section[] {
+  const { wifi, router, internet, dns } = output;
+  const sections: Section[] = [
+    keyValue(
+      "Wi-Fi",
+      wifi
+        ? [
+            ["SSID", value(wifi.ssid)],
+            ["BSSID", value(wifi.bssid)],
+            ["Band", value(wifi.band)],
+            ["Channel", value(wifi.channel)],
+            ["Width", value(wifi.widthMhz, "MHz")],
+            ["PHY Mode", value(wifi.phyMode)],
+            ["MCS / Streams", `${value(wifi.mcs)} / ${value(wifi.nss)}`],
+            ["Security", value(wifi.security)],
+            ["Country", value(wifi.countryCode)],
+            ["Signal", value(wifi.signalDbm, "dBm")],
+            ["Noise", value(wifi.noiseDbm, "dBm")],
+            ["SNR", value(wifi.snrDb, "dB")],
+            ["Signal Quality", value(wifi.signalQualityPct, "%")],
+            ["Link Rate", value(wifi.linkRateMbps, "Mbps")],
+            ["Max Rate", value(wifi.maxRateMbps, "Mbps")],
+            ["Link Rate / Max", value(wifi.linkRatePct, "%")]
+          ]
+        : [["Status", "n/a"]]
+    )
+  ];
+
+  if (output.connectivity) {
+    const { state, status, redirectUrl, reason } = output.connectivity;
+    sections.push(
+      keyValue("Connectivity", [["State", state], ["HTTP Status", value(status)], ["Portal", value(redirectUrl)]], [reason])
+    );
+  }
+
+  sections.push(
+    keyValue("Router", [["Gateway", value(router.gateway)], ...pingRows(router.ping)])
+  );
+
+  if (internet.pings.length > 1) {
+    sections.push({
+      title: "Internet",
+      header: ["Target", "Ping", "Jitter", "P95", "Loss"],
+      rows: internet.pings.map((ping) => [
+        ping.target,
+        value(ping.avgMs, "ms"),
+        value(ping.jitterMs, "ms"),
+        value(ping.p95Ms, "ms"),
+        value(ping.lossPct, "%")
+      ]),
+      notes: []
+    });
+  } else {
+    sections.push(keyValue("Internet", [["Target", internet.target], ...pingRows(internet.ping)]));
+  }
+
+  sections.push({
+    title: "DNS",
+    header: ["Host", "Type", "Server", "Lookup", "Warm", "Answers"],
+    rows: dns.lookups.map((lookup) => [
+      lookup.host,
+      lookup.type,
+      value(lookup.server ?? dns.server),
+      lookup.error ?? value(lookup.lookupMs, "ms"),
+      value(lookup.warmMs, "ms"),
+      String(lookup.answers.filter((answer) => answer.type === lookup.type).length)
+    ]),
+    notes: []
+  });
+
+  if (dns.comparison) {
+    sections.push({
+      title: "Resolvers",
+      header: ["#", "Server", "Source", "Median", "Max", "Failed"],
+      rows: dns.comparison.map((result) => [
+        String(result.rank),
+        result.server,
+        result.source,
+        value(result.medianMs, "ms"),
+        value(result.maxMs, "ms"),
+        `${result.failures}/${result.lookups.length}`
+      ]),
+      notes: []
+    });
+  }
+
+  const families = [["IPv4", output.ipv4], ["IPv6", output.ipv6]] as const;
+  sections.push({
+    title: "IPv4 / IPv6",
+    header: ["Family", "Status", "Gateway", "Router", "Internet", "Lookup"],
+    rows: families.map(([label, family]) => [
+      label,
+      family.status,
+      value(family.gateway),
+      value(family.router?.avgMs, "ms"),
+      value(family.internet?.avgMs, "ms"),
+      value(family.resolution?.lookupMs, "ms")
+    ]),
+    notes: families.map(([label, family]) => `${label}: ${family.reason}`)
+  });
+
+  if (output.probes) {
+    sections.push({
+      title: "Probes",
+      header: ["Target", "Connect", "TLS", "TTFB", "Total", "Loss", "Result"],
+      rows: output.probes.map((probe) => [
+        probe.target,
+        value(probe.connect.avgMs, "ms"),
+        value(probe.tls?.avgMs, "ms"),
+        value(probe.ttfb?.avgMs, "ms"),
+        value(probe.total.avgMs, "ms"),
+        value(probe.total.lossPct, "%"),
+        probe.error ?? value(probe.status)
+      ]),
+      notes: []
+    });
+  }
+
+  if (output.path) {
+    sections.push({
+      title: `Path to ${output.path.target}`,
+      header: ["Hop", "Host", "Loss", "Avg", "Best", "Worst"],
+      rows: output.path.hops.map(({ hop, address, ping }) => [
+        String(hop),
+        address ?? "???",
+        value(ping?.lossPct, "%"),
+        value(ping?.avgMs, "ms"),
+        value(ping?.minMs, "ms"),
+        value(ping?.maxMs, "ms")
+      ]),
+      notes: [output.path.error ?? output.path.firstBadHop?.message ?? "No persistent loss or latency jump along the path"]
+    });
+  }
+
+  if (output.bufferbloat) {
+    const { load, idle, loaded, increaseMs, grade, error } = output.bufferbloat;
+    sections.push(
+      keyValue(
+        "Bufferbloat",
+        [
+          ["Load", load.source],
+          ["Idle", value(idle.avgMs, "ms")],
+          ["Loaded", value(loaded.avgMs, "ms")],
+          ["Increase", value(increaseMs, "ms")],
+          ["Grade", value(grade)]
+        ],
+        error ? [error] : []
+      )
+    );
+  }
+
+  if (output.speedtest) {
+    const { speedtest } = output;
+    sections.push(
+      keyValue(
+        "Speed Test",
+        speedtest.error
+          ? [["Error", speedtest.error]]
+          : [
+              ["Download", value(speedtest.downloadMbps, "Mbps")],
+              ["Upload", value(speedtest.uploadMbps, "Mbps")],
+              ["Base RTT", value(speedtest.baseRttMs, "ms")],
+              ["Responsiveness", value(speedtest.responsivenessMs, "ms")]
+            ]
+      )
+    );
+  }
+
+  const { score, verdict, findings } = output.diagnosis;
+  sections.push(
+    keyValue(
+      "Diagnosis",
+      [["Health", `${score}/100 (${verdict})`]],
+      findings.map((finding) => `[${finding.severity}] ${finding.message}${finding.recommendation ? ` — ${finding.recommendation}` : ""}`)
+    )
+  );
+
+  if (output.assertions) {
+    sections.push({
+      title: "Assertions",
+      header: ["Result", "Assertion", "Actual"],
+      rows: output.assertions.results.map((result) => [
+        result.passed ? "PASS" : "FAIL",
+        result.expression,
+        result.reason ?? JSON.stringify(result.actual)
+      ]),
+      notes: [`${output.assertions.passed} passed, ${output.assertions.failed} failed`]
+    });
+  }
+
+  return sections;
+}
+
+function markdownCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+export function renderMarkdown(output: OutputData): string {
+  const lines = [`## Wi-Fi Stats — ${output.timestamp}`];
+  for (const section of reportSections(output)) {
+    lines.push("", `### ${section.title}`, "");
+    lines.push(`| ${section.header.join(" | ")} |`, `| ${section.header.map(() => "---").join(" | ")} |`);
+    for (const row of section.rows) {
+      lines.push(`| ${row.map(markdownCell).join(" | ")} |`);
+    }
+    if (section.notes.length > 0) {
+      lines.push("", ...section.notes.map((note) => `- ${note}`));
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+const HTML_STYLE = `
+body { font: 14px/1.45 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; margin: 2rem auto; max-width: 52rem; color: #1d1d1f; }
+h1 { font-size: 1.4rem; margin-bottom: 0.2rem; }
+h2 { font-size: 1.05rem; margin: 1.6rem 0 0.4rem; border-bottom: 1px solid #ddd; padding-bottom: 0.2rem; }
+.meta { color: #6e6e73; }
+table { border-collapse: collapse; width: 100%; }
+th, td { text-align: left; padding: 0.25rem 0.6rem; border-bottom: 1px solid #eee; }
+th { background: #f5f5f7; font-weight: 600; }
+ul { margin: 0.5rem 0; padding-left: 1.2rem; }
+.healthy { color: #1a7f37; } .degraded { color: #9a6700; } .poor { color: #cf222e; }
+`.trim();
+
+export function renderHtml(output: OutputData): string {
+  const verdict = output.diagnosis.verdict;
+  const body = reportSections(output).map((section) => {
+    const header = section.header.map((cell) => `<th>${escapeHtml(cell)}</th>`).join("");
+    const rows = section.rows.map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join("")}</tr>`);
+    const notes = section.notes.length > 0 ? `\n<ul>${section.notes.map((note) => `<li>${escapeHtml(note)}</li>`).join("")}</ul>` : "";
+    return `<h2>${escapeHtml(section.title)}</h2>\n<table>\n<tr>${header}</tr>\n${rows.join("\n")}\n</table>${notes}`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Wi-Fi Stats ${escapeHtml(output.timestamp)}</title>
+<style>
+${HTML_STYLE}
+</style>
+</head>
+<body>
+<h1>Wi-Fi Stats</h1>
+<p class="meta">${escapeHtml(output.timestamp)} · ${escapeHtml(output.meta.platform)}${verdict ? ` · <span class="${verdict}">${escapeHtml(verdict)}</span>` : ""}</p>
+${body.join("\n")}
+</body>
+</html>
+`;
+}
+
+export const FORMATTERS: Record<OutputFormat, Formatter> = {
+  json: (output, context) => (context.stream ? `${JSON.stringify(output)}\n` : `${JSON.stringify(output, null, 2)}\n`),
+  pretty: (output, context) => renderPretty(output, context.colorEnabled),
+  csv: renderCsv,
+  markdown: renderMarkdown,
+  html: renderHtml
+};
+
+export function isOutputFormat(value: string): value is OutputFormat {
+  return Object.hasOwn(FORMATTERS, value);
+}
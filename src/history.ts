@@ -0,0 +1,167 @@
+import { appendFile, mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import path from "node:path";
+import { colorize, formatTable } from "./render.js";
+import type { OutputData } from "./report.js";
+import { distribution, type Distribution } from "./stats.js";
+
+export type HistoryGroupBy = "hour" | "ap";
+
+export type HistoryFilter = {
+  since: Date | null;
+  until: Date | null;
+  ssid: string | null;
+  bssid: string | null;
+};
+
+export type HistoryGroup = {
+  key: string;
+  runs: number;
+  firstSeen: string;
+  lastSeen: string;
+  routerPingMs: Distribution;
+  internetLossPct: Distribution;
+  signalDbm: Distribution;
+  downloadMbps: Distribution;
+  uploadMbps: Distribution;
+};
+
+export type PruneResult = {
+  kept: number;
+  removed: number;
+};
+
+const RELATIVE_UNITS: Record<string, number> = {
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000
+};
+
+export function defaultHistoryPath(
+  env: NodeJS.ProcessEnv = process.env,
+  platform: string = process.platform,
+  home: string = homedir()
+): string {
+  if (env.XDG_DATA_HOME) return path.join(env.XDG_DATA_HOME, "wifi-stats", "history.ndjson");
+  if (platform === "darwin") {
+    return path.join(home, "Library", "Application Support", "wifi-stats", "history.ndjson");
+  }
+  return path.join(home, ".local", "share", "wifi-stats", "history.ndjson");
+}
+
+export async function appendHistory(file: string, output: OutputData): Promise<void> {
+  await mkdir(path.dirname(file), { recursive: true });
+  await appendFile(file, `${JSON.stringify(output)}\n`);
+}
+
+export async function readHistory(file: string): Promise<OutputData[]> {
+  let raw: string;
+  try {
+    raw = await readFile(file, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  const entries: OutputData[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as OutputData);
+    } catch {
+      // A partially written line (e.g. from an interrupted run) is skipped, not fatal.
+    }
+  }
+  return entries;
+}
+
+export function parseTimeBound(value: string, now = new Date()): Date | null {
+  const relative = value.match(/^(\d+)([mhdw])$/);
+  if (relative) {
+    return new Date(now.getTime() - Number.parseInt(relative[1], 10) * RELATIVE_UNITS[relative[2]]);
+  }
+
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? null : new Date(parsed);
+}
+
+export function filterHistory(entries: OutputData[], filter: HistoryFilter): OutputData[] {
+  return entries.filter((entry) => {
+    const time = Date.parse(entry.timestamp);
+    if (filter.since && time < filter.since.getTime()) return false;
+    if (filter.until && time > filter.until.getTime()) return false;
+    if (filter.ssid && entry.wifi?.ssid !== filter.ssid) return false;
+    if (filter.bssid && entry.wifi?.bssid?.toLowerCase() !== filter.bssid.toLowerCase()) return false;
+    return true;
+  });
+}
+
+function groupKey(entry: OutputData, groupBy: HistoryGroupBy): string {
+  if (groupBy === "ap") {
+    return `${entry.wifi?.ssid ?? "Unknown"} (${entry.wifi?.bssid ?? "unknown"})`;
+  }
+  return `${entry.timestamp.slice(0, 13)}:00Z`;
+}
+
+export function aggregateHistory(entries: OutputData[], groupBy: HistoryGroupBy): HistoryGroup[] {
+  const groups = new Map<string, OutputData[]>();
+  for (const entry of entries) {
+    const key = groupKey(entry, groupBy);
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  }
+
+  return [...groups.entries()]
+    .map(([key, members]) => {
+      const timestamps = members.map((entry) => entry.timestamp).sort();
+      return {
+        key,
+        runs: members.length,
+        firstSeen: timestamps[0],
+        lastSeen: timestamps[timestamps.length - 1],
+        routerPingMs: distribution(members.map((entry) => entry.router.ping?.avgMs)),
+        internetLossPct: distribution(members.map((entry) => entry.internet.ping?.lossPct)),
+        signalDbm: distribution(members.map((entry) => entry.wifi?.signalDbm)),
+        downloadMbps: distribution(members.map((entry) => entry.speedtest?.downloadMbps)),
+        uploadMbps: distribution(members.map((entry) => entry.speedtest?.uploadMbps))
+      };
+    })
+    .sort((a, b) => (groupBy === "hour" ? a.key.localeCompare(b.key) : b.runs - a.runs));
+}
+
+export async function pruneHistory(file: string, olderThan: Date): Promise<PruneResult> {
+  const entries = await readHistory(file);
+  const kept = entries.filter((entry) => Date.parse(entry.timestamp) >= olderThan.getTime());
+  if (kept.length === entries.length) return { kept: kept.length, removed: 0 };
+
+  // Write to a sibling file first so an interrupted prune never truncates the history.
+  const tmpFile = `${file}.tmp`;
+  await writeFile(tmpFile, kept.map((entry) => `${JSON.stringify(entry)}\n`).join(""));
+  await rename(tmpFile, file);
+  return { kept: kept.length, removed: entries.length - kept.length };
+}
+
+function formatPair(value: Distribution): string {
+  if (value.count === 0) return "n/a";
+  return `${value.p50}/${value.p95}`;
+}
+
+export function renderHistory(groups: HistoryGroup[], groupBy: HistoryGroupBy, colorEnabled: boolean): string {
+  if (groups.length === 0) return "No history entries match.\n";
+
+  const header = [groupBy === "ap" ? "Access Point" : "Hour", "Runs", "Router ms", "Loss %", "Signal dBm", "Down Mbps", "Up Mbps"];
+  const rows = groups.map((group) => [
+    group.key,
+    String(group.runs),
+    formatPair(group.routerPingMs),
+    formatPair(group.internetLossPct),
+    formatPair(group.signalDbm),
+    formatPair(group.downloadMbps),
+    formatPair(group.uploadMbps)
+  ]);
+
+  const [headerRow, ...bodyRows] = formatTable(header, rows);
+
+  const lines = [colorize(colorEnabled, 1, "Wi-Fi History (p50/p95)"), "", colorize(colorEnabled, 36, headerRow), ...bodyRows];
+  return `${lines.join("\n")}\n`;
+}
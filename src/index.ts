@@ -0,0 +1,202 @@
+import { parseLoadSpec } from "./bufferbloat.js";
+import { parseConnectivityUrl } from "./connectivity.js";
+import { isDnsRecordType, udpTransport, type DnsTransport } from "./dns.js";
+import { silentLogger, type Logger } from "./logger.js";
+import { selectBackend } from "./platform.js";
+import { parseProbeTarget } from "./probes.js";
+import { collectReport, defaultOptions, type CollectionSettings, type OutputData } from "./report.js";
+import { runCommand, type CommandRunner } from "./runner.js";
+import { isStage, STAGES } from "./stages.js";
+
+export type CollectOptions = Partial<CollectionSettings> & {
+  // Receives the same structured events the CLI writes to stderr; silent by default.
+  logger?: Logger;
+  // Aborting kills running commands and rejects with the signal's reason.
+  signal?: AbortSignal;
+  // Resolve with what was collected when `signal` aborts, cut-short sections marked "cancelled".
+  partial?: boolean;
+  // Backend to use (darwin or linux); defaults to process.platform. Pair with `run` and `dns` from
+  // `loadReplay` to replay a capture.
+  platform?: string;
+  run?: CommandRunner;
+  dns?: DnsTransport;
+};
+
+function checkSettings(settings: CollectionSettings): void {
+  if (!Number.isInteger(settings.samples) || settings.samples <= 0) {
+    throw new Error("samples must be a positive integer");
+  }
+  if (!Number.isInteger(settings.maxHops) || settings.maxHops <= 0 || settings.maxHops > 255) {
+    throw new Error("maxHops must be an integer between 1 and 255");
+  }
+  if (!Number.isInteger(settings.dnsQueries) || settings.dnsQueries <= 0) {
+    throw new Error("dnsQueries must be a positive integer");
+  }
+  if (settings.dnsTypes.length === 0 || settings.dnsTypes.some((type) => !isDnsRecordType(type))) {
+    throw new Error("dnsTypes must be a non-empty list of A, AAAA or HTTPS");
+  }
+  for (const key of ["internetHosts", "dnsHosts"] as const) {
+    if (settings[key].length === 0 || settings[key].some((host) => !host)) {
+      throw new Error(`${key} must be a non-empty list of host names`);
+    }
+  }
+  if (!settings.ipv6Host) throw new Error("ipv6Host must be a host name or address");
+  for (const [stage, seconds] of Object.entries(settings.timeouts)) {
+    if (!isStage(stage)) throw new Error(`timeouts.${stage} is not a stage; valid stages: ${STAGES.join(", ")}`);
+    if (typeof seconds !== "number" || !Number.isFinite(seconds) || seconds <= 0) {
+      throw new Error(`timeouts.${stage} must be a positive number of seconds`);
+    }
+  }
+  parseLoadSpec(settings.load);
+  settings.probes.forEach(parseProbeTarget);
+  parseConnectivityUrl(settings.connectivityUrl);
+  if (!settings.connectivityExpect) throw new Error("connectivityExpect must be a non-empty string");
+}
+
+export async function collectWifiStats(options: CollectOptions = {}): Promise<OutputData> {
+  const { logger = silentLogger, signal, partial = false, platform = process.platform, run, dns, ...overrides } = options;
+
+  const settings: CollectionSettings = defaultOptions();
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value !== undefined) Object.assign(settings, { [key]: value });
+  }
+  checkSettings(settings);
+
+  const backend = selectBackend(platform);
+  if (!backend) throw new Error(`Unsupported platform: ${platform}`);
+
+  if (!partial) signal?.throwIfAborted();
+  const output = await collectReport(settings, backend, logger, run ?? runCommand, dns ?? udpTransport, signal);
+  // Commands killed by the abort come back as errors; only hand out the report when asked for partial results.
+  if (!partial) signal?.throwIfAborted();
+  return output;
+}
+
+// Collectors
+export {
+  getAirportInfo,
+  getDefaultGateway,
+  getDefaultGateway6,
+  getDnsServers,
+  pingError,
+  pingHost,
+  pingHost6,
+  runSpeedTest,
+  scanNetworks,
+  traceRoute
+} from "./collector.js";
+export { getLinuxDefaultGateway, getLinuxDefaultGateway6, getLinuxDnsServers, getLinuxWifiInfo } from "./linux-collector.js";
+export { darwinBackend, linuxBackend, selectBackend } from "./platform.js";
+export { collectPath, findFirstBadHop } from "./path.js";
+export { collectProbes, parseProbeTarget, probeError, probeOnce, probeTarget } from "./probes.js";
+export { checkConnectivity, connectivityError, dnsResolver, isPrivateAddress, parseConnectivityUrl } from "./connectivity.js";
+export {
+  bufferbloatError,
+  createLoadGenerator,
+  gradeBufferbloat,
+  httpDownloadLoad,
+  httpUploadLoad,
+  measureBufferbloat,
+  parseLoadSpec,
+  speedTestLoad
+} from "./bufferbloat.js";
+export { compareResolvers, rankResolvers, resolverCandidates } from "./resolvers.js";
+export { assessFamily, collectIpv6, nameserversOf, unassessedFamily } from "./dualstack.js";
+export { createStages, defaultTimeouts, parseTimeouts, resolveTimeouts, STAGES } from "./stages.js";
+export {
+  createDnsTransport,
+  lookupError,
+  createRecordingTransport,
+  createReplayTransport,
+  decodeMessage,
+  dnsLookup,
+  encodeQuery,
+  udpTransport
+} from "./dns.js";
+export { collectReport, defaultOptions, hasCollectionError } from "./report.js";
+
+// Parsers
+export {
+  frequencyToChannel,
+  parseAirportOutput,
+  parseAirportScan,
+  parseIpRouteDefault,
+  parseIwDevOutput,
+  parseIwLinkOutput,
+  parsePingStats,
+  parseProcNetWireless,
+  parseResolvConf,
+  parseResolvectlStatus,
+  parseScutilNameservers,
+  parseSystemProfilerNetworks,
+  parseSystemProfilerOutput,
+  parseTracerouteOutput,
+  summarizeRtts
+} from "./parsers.js";
+
+// Analysis and output
+export { diagnose } from "./diagnosis.js";
+export { evaluateAssertions, parseAssertion } from "./assertions.js";
+export {
+  checkAlertRules,
+  createAlerter,
+  defaultAlertStatePath,
+  deliverAlert,
+  evaluateAlerts,
+  loadAlertState,
+  saveAlertState,
+  toAlertRule,
+  toAlertTarget,
+  webhookPayload
+} from "./alerts.js";
+export { analyzeScan } from "./scan.js";
+export { compareSnapshots, loadSnapshots, parseSnapshots, renderComparison } from "./compare.js";
+export { FORMATTERS, isOutputFormat, renderCsv, renderHtml, renderMarkdown } from "./formatters.js";
+export { renderPretty } from "./render.js";
+export { OUTPUT_SCHEMA, SCHEMA_VERSION, validateSchema } from "./schema.js";
+
+// Command execution and logging
+export { createCommandRunner, createRecordingRunner, loadReplay, runCommand } from "./runner.js";
+export { log, silentLogger } from "./logger.js";
+
+export type { NetworkScan, PingResult, SpeedTestResult, TracerouteResult } from "./collector.js";
+export type {
+  DnsAnswer,
+  DnsCapture,
+  DnsExchange,
+  DnsFailure,
+  DnsLookupResult,
+  DnsLookupSettings,
+  DnsMessage,
+  DnsRecordType,
+  DnsTransport
+} from "./dns.js";
+export type { PingStats, ScanNetwork, TracerouteHop, WifiStats } from "./parsers.js";
+export type { PlatformBackend } from "./platform.js";
+export type { PathHop, PathProblem, PathReport } from "./path.js";
+export type { ProbeKind, ProbeResult, ProbeSample, ProbeTarget } from "./probes.js";
+export type { ConnectivityReport, ConnectivitySettings, ConnectivityState, HostResolver } from "./connectivity.js";
+export type { BufferbloatGrade, BufferbloatResult, LoadGenerator, LoadSpec, LoadSummary } from "./bufferbloat.js";
+export type { ResolverResult, ResolverSource } from "./resolvers.js";
+export type { IpFamily, IpFamilyMeasurements, IpFamilyReport, IpFamilyStatus, Ipv6Settings } from "./dualstack.js";
+export type { CollectionSettings, OutputData } from "./report.js";
+export type { Stage, StageError, Stages, StageSettings, StageTiming, TimeoutBasis, Timeouts } from "./stages.js";
+export type { Diagnosis, Finding, Severity } from "./diagnosis.js";
+export type { Assertion, AssertionReport, AssertionResult } from "./assertions.js";
+export type {
+  AlertDelivery,
+  AlertEvent,
+  AlertEventKind,
+  AlertRule,
+  AlertRuleState,
+  AlertSettings,
+  AlertState,
+  AlertTarget,
+  WebhookPreset
+} from "./alerts.js";
+export type { ScanReport } from "./scan.js";
+export type { ChangeDirection, Comparison, ComparisonRow, SnapshotSummary } from "./compare.js";
+export type { FormatContext, Formatter, OutputFormat } from "./formatters.js";
+export type { JsonSchema, ValidateOptions } from "./schema.js";
+export type { CaptureManifest, CommandResult, CommandRunner, ReplaySession } from "./runner.js";
+export type { LogLevel, Logger } from "./logger.js";
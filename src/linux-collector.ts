@@ -0,0 +1,133 @@
+import {
+  parseIpRouteDefault,
+  parseIwDevOutput,
+  parseIwLinkOutput,
+  parseProcNetWireless,
+  parseResolvConf,
+  parseResolvectlStatus,
+  withLinkMetrics,
+  type WifiStats,
+  type WirelessProcEntry
+} from "./parsers.js";
+import type { Logger } from "./logger.js";
+import { runCommand, type CommandRunner } from "./runner.js";
+
+const PROC_NET_WIRELESS = "/proc/net/wireless";
+const RESOLV_CONF = "/etc/resolv.conf";
+
+// Files are read through the command runner so they are captured by --record.
+async function readProcNetWireless(log: Logger, run: CommandRunner): Promise<WirelessProcEntry[]> {
+  const result = await run("cat", [PROC_NET_WIRELESS]);
+  if (result.error) {
+    log("error", "collect.proc-wireless.error", { stderr: result.stderr });
+    return [];
+  }
+  return parseProcNetWireless(result.stdout);
+}
+
+export async function getLinuxWifiInfo(log: Logger, run: CommandRunner = runCommand): Promise<WifiStats | null> {
+  log("info", "collect.iw.start", {});
+  const procEntries = await readProcNetWireless(log, run);
+
+  const devResult = await run("iw", ["dev"]);
+  if (devResult.error) {
+    log("error", "collect.iw.error", { stderr: devResult.stderr });
+  }
+
+  const interfaces = devResult.error ? [] : parseIwDevOutput(devResult.stdout);
+  for (const entry of procEntries) {
+    if (!interfaces.includes(entry.interfaceName)) interfaces.push(entry.interfaceName);
+  }
+
+  for (const interfaceName of interfaces) {
+    const procEntry = procEntries.find((entry) => entry.interfaceName === interfaceName) ?? null;
+    const linkResult = devResult.error ? null : await run("iw", ["dev", interfaceName, "link"]);
+    const parsed = linkResult && !linkResult.error ? parseIwLinkOutput(linkResult.stdout) : null;
+
+    if (parsed) {
+      const stats = withLinkMetrics({
+        ...parsed,
+        signalDbm: parsed.signalDbm ?? procEntry?.signalDbm ?? null,
+        noiseDbm: procEntry?.noiseDbm ?? null
+      });
+      log("success", "collect.iw.success", { interfaceName, ssid: stats.ssid });
+      return stats;
+    }
+
+    if (!linkResult && procEntry) {
+      // Without iw only the kernel's signal/noise counters are available.
+      log("success", "collect.proc-wireless.success", { interfaceName });
+      return withLinkMetrics({
+        ssid: null,
+        bssid: null,
+        signalDbm: procEntry.signalDbm,
+        noiseDbm: procEntry.noiseDbm,
+        channel: null,
+        band: null,
+        linkRateMbps: null,
+        widthMhz: null,
+        phyMode: null,
+        mcs: null,
+        nss: null,
+        security: null,
+        maxRateMbps: null,
+        countryCode: null
+      });
+    }
+  }
+
+  log("error", "collect.iw.not-connected", { interfaces });
+  return null;
+}
+
+export async function getLinuxDefaultGateway(log: Logger, run: CommandRunner = runCommand): Promise<string | null> {
+  log("info", "collect.gateway.start", {});
+  const result = await run("ip", ["route", "show", "default"]);
+  const gateway = parseIpRouteDefault(result.stdout);
+
+  if (!gateway) {
+    log("error", "collect.gateway.error", { stderr: result.stderr });
+    return null;
+  }
+
+  log("success", "collect.gateway.success", { gateway });
+  return gateway;
+}
+
+export async function getLinuxDefaultGateway6(log: Logger, run: CommandRunner = runCommand): Promise<string | null> {
+  log("info", "collect.gateway6.start", {});
+  const result = await run("ip", ["-6", "route", "show", "default"]);
+  const gateway = parseIpRouteDefault(result.stdout);
+
+  if (!gateway) {
+    log("info", "collect.gateway6.none", { stderr: result.stderr });
+    return null;
+  }
+
+  log("success", "collect.gateway6.success", { gateway });
+  return gateway;
+}
+
+export async function getLinuxDnsServers(log: Logger, run: CommandRunner = runCommand): Promise<string[]> {
+  log("info", "collect.dns-server.start", {});
+  const result = await run("resolvectl", ["status"]);
+  let servers = result.error ? [] : parseResolvectlStatus(result.stdout);
+
+  if (servers.length === 0) {
+    log("info", "collect.dns-server.resolv-conf", { stderr: result.stderr });
+    const resolvConf = await run("cat", [RESOLV_CONF]);
+    if (resolvConf.error) {
+      log("error", "collect.dns-server.error", { stderr: resolvConf.stderr });
+      return [];
+    }
+    servers = parseResolvConf(resolvConf.stdout);
+  }
+
+  if (servers.length === 0) {
+    log("error", "collect.dns-server.error", { stderr: result.stderr });
+    return [];
+  }
+
+  log("success", "collect.dns-server.success", { servers });
+  return servers;
+}
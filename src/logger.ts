@@ -11,3 +11,5 @@ export const log: Logger = (level, message, data = {}) => {
 
   process.stderr.write(`${JSON.stringify(entry)}\n`);
 };
+
+export const silentLogger: Logger = () => {};
@@ -1,3 +1,5 @@
+import { percentile } from "./stats.js";
+
 export type WifiStats = {
   ssid: string | null;
   bssid: string | null;
@@ -6,12 +8,130 @@ export type WifiStats = {
   channel: number | null;
   band: string | null;
   linkRateMbps: number | null;
+  widthMhz: number | null;
+  // "802.11ax", "802.11ac", ...
+  phyMode: string | null;
+  mcs: number | null;
+  nss: number | null;
+  security: string | null;
+  // Reported by the driver, or the PHY maximum for the mode, width and spatial streams.
+  maxRateMbps: number | null;
+  countryCode: string | null;
+  snrDb: number | null;
+  signalQualityPct: number | null;
+  linkRatePct: number | null;
+};
+
+// What the collectors read; the rest of WifiStats is computed from it by withLinkMetrics.
+export type WifiLink = Omit<WifiStats, "snrDb" | "signalQualityPct" | "linkRatePct">;
+
+type PhyRates = {
+  symbolUs: number;
+  // Data subcarriers per channel width in MHz.
+  subcarriers: Record<number, number>;
+  // Coded bits per subcarrier at the mode's top MCS (modulation bits x coding rate).
+  topMcsBits: number;
+};
+
+// Short guard interval for HT/VHT (3.6 us symbols), 0.8 us for HE/EHT (13.6 us).
+const PHY_RATES: Record<string, PhyRates> = {
+  "802.11n": { symbolUs: 3.6, subcarriers: { 20: 52, 40: 108 }, topMcsBits: 6 * (5 / 6) },
+  "802.11ac": { symbolUs: 3.6, subcarriers: { 20: 52, 40: 108, 80: 234, 160: 468 }, topMcsBits: 8 * (5 / 6) },
+  "802.11ax": { symbolUs: 13.6, subcarriers: { 20: 234, 40: 468, 80: 980, 160: 1960 }, topMcsBits: 10 * (5 / 6) },
+  "802.11be": { symbolUs: 13.6, subcarriers: { 20: 234, 40: 468, 80: 980, 160: 1960, 320: 3920 }, topMcsBits: 12 * (5 / 6) }
+};
+
+const LEGACY_MAX_MBPS: Record<string, number> = { "802.11a": 54, "802.11g": 54, "802.11b": 11 };
+
+export function phyMaxRateMbps(phyMode: string | null, widthMhz: number | null, nss: number | null): number | null {
+  if (!phyMode) return null;
+  if (phyMode in LEGACY_MAX_MBPS) return LEGACY_MAX_MBPS[phyMode];
+  const rates = PHY_RATES[phyMode];
+  const subcarriers = rates && widthMhz ? rates.subcarriers[widthMhz] : undefined;
+  if (!subcarriers || !nss) return null;
+  return Math.round(((subcarriers * rates.topMcsBits * nss) / rates.symbolUs) * 10) / 10;
+}
+
+// Maps RSSI linearly from -100 dBm (0%) to -50 dBm (100%).
+export function signalQuality(signalDbm: number): number {
+  return Math.min(100, Math.max(0, 2 * (signalDbm + 100)));
+}
+
+export function withLinkMetrics(link: WifiLink): WifiStats {
+  const { signalDbm, noiseDbm, linkRateMbps } = link;
+  const maxRateMbps = link.maxRateMbps ?? phyMaxRateMbps(link.phyMode, link.widthMhz, link.nss);
+  return {
+    ...link,
+    maxRateMbps,
+    snrDb: signalDbm !== null && noiseDbm !== null ? signalDbm - noiseDbm : null,
+    signalQualityPct: signalDbm !== null ? signalQuality(signalDbm) : null,
+    linkRatePct: linkRateMbps !== null && maxRateMbps ? Math.round((linkRateMbps / maxRateMbps) * 100) : null
+  };
+}
+
+function bandLabel(ghz: string): string {
+  return ghz === "2" || ghz === "2.4" ? "2.4 GHz" : `${ghz} GHz`;
+}
+
+function bandForChannel(channel: number): string {
+  return channel > 14 ? "5 GHz" : "2.4 GHz";
+}
+
+const WIDTHS_MHZ = [20, 40, 80, 160, 320];
+
+// airport reports "149,80" (width), "36,+1" (40 MHz, secondary above) or "6g37/160", whose
+// band prefix is the only way to tell 6 GHz channels from 5 GHz ones.
+export function parseChannelSpec(spec: string): { channel: number; band: string; widthMhz: number | null } | null {
+  const banded = spec.match(/^(2|5|6)g(\d+)(?:\/(\d+))?$/i);
+  if (banded) {
+    return {
+      channel: Number.parseInt(banded[2], 10),
+      band: bandLabel(banded[1]),
+      widthMhz: banded[3] ? Number.parseInt(banded[3], 10) : null
+    };
+  }
+
+  const plain = spec.match(/^(\d+)(?:,([+-]?\d+))?$/);
+  if (!plain) return null;
+  const channel = Number.parseInt(plain[1], 10);
+  const modifier = plain[2];
+  let widthMhz: number | null = null;
+  if (modifier === "+1" || modifier === "-1") widthMhz = 40;
+  else if (modifier && WIDTHS_MHZ.includes(Number(modifier))) widthMhz = Number(modifier);
+  return { channel, band: bandForChannel(channel), widthMhz };
+}
+
+const AIRPORT_SECURITY: Record<string, string> = {
+  none: "None",
+  open: "None",
+  wep: "WEP",
+  "wpa-psk": "WPA Personal",
+  "wpa2-psk": "WPA2 Personal",
+  "wpa3-sae": "WPA3 Personal",
+  wpa2: "WPA2 Enterprise",
+  wpa3: "WPA3 Enterprise"
 };
 
+function toInt(value: string | undefined): number | null {
+  if (value === undefined || !/^-?\d+/.test(value.trim())) return null;
+  return Number.parseInt(value, 10);
+}
+
 export type PingStats = {
   avgMs: number | null;
   jitterMs: number | null;
   lossPct: number | null;
+  minMs: number | null;
+  maxMs: number | null;
+  p50Ms: number | null;
+  p95Ms: number | null;
+  p99Ms: number | null;
+  rfc3550JitterMs: number | null;
+  maxConsecutiveLoss: number | null;
+  outOfOrder: number;
+  duplicates: number;
+  // One entry per transmitted probe in sequence order; null marks a lost probe.
+  rttsMs: Array<number | null>;
 };
 
 export function parseAirportOutput(output: string): WifiStats {
@@ -27,55 +147,458 @@ export function parseAirportOutput(output: string): WifiStats {
     data[key] = value;
   }
 
-  const channelValue = data.channel ? data.channel.split(",")[0] : null;
-  const channel = channelValue ? Number.parseInt(channelValue, 10) : null;
-  const band = channel ? (channel > 14 ? "5 GHz" : "2.4 GHz") : null;
-  const linkRate = data.lastTxRate ? Number.parseInt(data.lastTxRate, 10) : null;
+  const channel = data.channel ? parseChannelSpec(data.channel) : null;
+  const linkAuth = data["link auth"]?.toLowerCase();
 
-  return {
+  return withLinkMetrics({
     ssid: data.SSID ?? null,
     bssid: data.BSSID ?? null,
-    signalDbm: data.agrCtlRSSI ? Number.parseInt(data.agrCtlRSSI, 10) : null,
-    noiseDbm: data.agrCtlNoise ? Number.parseInt(data.agrCtlNoise, 10) : null,
-    channel,
-    band,
-    linkRateMbps: linkRate
-  };
+    signalDbm: toInt(data.agrCtlRSSI),
+    noiseDbm: toInt(data.agrCtlNoise),
+    channel: channel?.channel ?? null,
+    band: channel?.band ?? null,
+    linkRateMbps: toInt(data.lastTxRate),
+    widthMhz: channel?.widthMhz ?? null,
+    phyMode: null,
+    mcs: toInt(data.MCS),
+    nss: toInt(data.NSS),
+    security: linkAuth ? (AIRPORT_SECURITY[linkAuth] ?? linkAuth) : null,
+    // 0 means the driver doesn't know.
+    maxRateMbps: toInt(data.maxRate) || null,
+    countryCode: null
+  });
 }
 
 export function parseSystemProfilerOutput(output: string): WifiStats {
   const ssidMatch = output.match(/Current Network Information:\s*\n\s{12}(.+):/);
   const signalMatch = output.match(/Signal \/ Noise: (-?\d+) dBm \/ (-?\d+) dBm/);
   const channelMatch = output.match(/Channel: (\d+) \(([^)]+)\)/);
-  const transmitMatch = output.match(/Transmit Rate: (\d+)/);
+  const field = (name: string) => output.match(new RegExp(`^\\s*${name}: (.+)$`, "m"))?.[1].trim();
 
   const channel = channelMatch ? Number.parseInt(channelMatch[1], 10) : null;
-  let band = null;
-  if (channelMatch && channelMatch[2]) {
-    const bandMatch = channelMatch[2].match(/(\d+\.?\d*)GHz/i);
-    band = bandMatch ? `${bandMatch[1]} GHz` : null;
-  }
+  // "Channel: 37 (6GHz, 160MHz)"; 2.4 GHz is written "2GHz".
+  const bandMatch = channelMatch?.[2].match(/(\d+(?:\.\d+)?)GHz/i);
+  const widthMatch = channelMatch?.[2].match(/(\d+)MHz/i);
 
-  return {
+  return withLinkMetrics({
     ssid: ssidMatch ? ssidMatch[1].trim() : null,
     bssid: null,
     signalDbm: signalMatch ? Number.parseInt(signalMatch[1], 10) : null,
     noiseDbm: signalMatch ? Number.parseInt(signalMatch[2], 10) : null,
     channel,
-    band,
-    linkRateMbps: transmitMatch ? Number.parseInt(transmitMatch[1], 10) : null
-  };
+    band: bandMatch ? bandLabel(bandMatch[1]) : null,
+    linkRateMbps: toInt(field("Transmit Rate")),
+    widthMhz: widthMatch ? Number.parseInt(widthMatch[1], 10) : null,
+    phyMode: field("PHY Mode") ?? null,
+    mcs: toInt(field("MCS Index")),
+    nss: null,
+    security: field("Security") ?? null,
+    maxRateMbps: null,
+    countryCode: field("Country Code") ?? null
+  });
+}
+
+type PingReply = {
+  seq: number;
+  rttMs: number | null;
+  duplicate: boolean;
+};
+
+function parsePingReplies(output: string): PingReply[] {
+  const replies: PingReply[] = [];
+  for (const line of output.split("\n")) {
+    const reply = line.match(/icmp_seq=(\d+).*?time[=<]([\d.]+) ms/);
+    if (reply) {
+      replies.push({
+        seq: Number.parseInt(reply[1], 10),
+        rttMs: Number.parseFloat(reply[2]),
+        duplicate: line.includes("(DUP!)")
+      });
+      continue;
+    }
+
+    const timeout = line.match(/(?:Request timeout for icmp_seq|no answer yet for icmp_seq=)\s*(\d+)/);
+    if (timeout) replies.push({ seq: Number.parseInt(timeout[1], 10), rttMs: null, duplicate: false });
+  }
+  return replies;
+}
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// RFC 3550 interarrival jitter: J += (|D| - J) / 16, where D is the change in transit time
+// between consecutive replies. Send spacing is constant, so the RTT delta stands in for D.
+function rfc3550Jitter(rtts: number[]): number | null {
+  if (rtts.length < 2) return null;
+  let jitter = 0;
+  for (let index = 1; index < rtts.length; index += 1) {
+    jitter += (Math.abs(rtts[index] - rtts[index - 1]) - jitter) / 16;
+  }
+  return round3(jitter);
+}
+
+function longestLossRun(samples: Array<number | null>): number {
+  let longest = 0;
+  let current = 0;
+  for (const sample of samples) {
+    current = sample === null ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  }
+  return longest;
 }
 
 export function parsePingStats(output: string): PingStats {
   const lossMatch = output.match(/([\d.]+)% packet loss/);
   const rttMatch = output.match(
-    /round-trip min\/avg\/max\/stddev = ([\d.]+)\/([\d.]+)\/([\d.]+)\/([\d.]+) ms/
+    /(?:round-trip|rtt) min\/avg\/max\/(?:stddev|std-dev|mdev) = ([\d.]+)\/([\d.]+)\/([\d.]+)\/([\d.]+) ms/
   );
+  const transmittedMatch = output.match(/(\d+) packets transmitted/);
+
+  const replies = parsePingReplies(output);
+  const answered = replies.filter((reply) => reply.rttMs !== null && !reply.duplicate);
+
+  // macOS numbers probes from 0, Linux from 1.
+  const firstSeq = replies.some((reply) => reply.seq === 0) || /round-trip/.test(output) ? 0 : 1;
+  const transmitted = transmittedMatch ? Number.parseInt(transmittedMatch[1], 10) : 0;
+  const highestSeq = replies.reduce((max, reply) => Math.max(max, reply.seq), firstSeq - 1);
+  const sampleCount = replies.length > 0 ? Math.max(transmitted, highestSeq - firstSeq + 1) : 0;
+
+  const rttsMs: Array<number | null> = Array.from({ length: sampleCount }, () => null);
+  for (const reply of answered) {
+    rttsMs[reply.seq - firstSeq] = reply.rttMs;
+  }
+
+  let outOfOrder = 0;
+  let highestSeen = -1;
+  for (const reply of answered) {
+    if (reply.seq < highestSeen) outOfOrder += 1;
+    highestSeen = Math.max(highestSeen, reply.seq);
+  }
+
+  const rtts = rttsMs.filter((value): value is number => value !== null);
 
   return {
     avgMs: rttMatch ? Number.parseFloat(rttMatch[2]) : null,
     jitterMs: rttMatch ? Number.parseFloat(rttMatch[4]) : null,
-    lossPct: lossMatch ? Number.parseFloat(lossMatch[1]) : null
+    lossPct: lossMatch ? Number.parseFloat(lossMatch[1]) : null,
+    minMs: rttMatch ? Number.parseFloat(rttMatch[1]) : rtts.length > 0 ? Math.min(...rtts) : null,
+    maxMs: rttMatch ? Number.parseFloat(rttMatch[3]) : rtts.length > 0 ? Math.max(...rtts) : null,
+    p50Ms: percentile(rtts, 50),
+    p95Ms: percentile(rtts, 95),
+    p99Ms: percentile(rtts, 99),
+    rfc3550JitterMs: rfc3550Jitter(rtts),
+    maxConsecutiveLoss: sampleCount > 0 ? longestLossRun(rttsMs) : null,
+    outOfOrder,
+    duplicates: replies.filter((reply) => reply.duplicate).length,
+    rttsMs
+  };
+}
+
+// The same statistics for timings measured in-process (one entry per sample, null when it failed).
+export function summarizeRtts(rttsMs: Array<number | null>): PingStats {
+  const rtts = rttsMs.filter((value): value is number => value !== null);
+  const avg = rtts.length > 0 ? rtts.reduce((sum, value) => sum + value, 0) / rtts.length : null;
+  // Population standard deviation, as ping's stddev/mdev.
+  const deviation = avg === null ? null : Math.sqrt(rtts.reduce((sum, value) => sum + (value - avg) ** 2, 0) / rtts.length);
+
+  return {
+    avgMs: avg === null ? null : round3(avg),
+    jitterMs: deviation === null ? null : round3(deviation),
+    lossPct: rttsMs.length > 0 ? round3((100 * (rttsMs.length - rtts.length)) / rttsMs.length) : null,
+    minMs: rtts.length > 0 ? Math.min(...rtts) : null,
+    maxMs: rtts.length > 0 ? Math.max(...rtts) : null,
+    p50Ms: percentile(rtts, 50),
+    p95Ms: percentile(rtts, 95),
+    p99Ms: percentile(rtts, 99),
+    rfc3550JitterMs: rfc3550Jitter(rtts),
+    maxConsecutiveLoss: rttsMs.length > 0 ? longestLossRun(rttsMs) : null,
+    outOfOrder: 0,
+    duplicates: 0,
+    rttsMs
   };
 }
+
+export function parseScutilNameservers(output: string): string[] {
+  const servers: string[] = [];
+  for (const match of output.matchAll(/nameserver\[\d+\] : (\S+)/g)) {
+    if (!servers.includes(match[1])) servers.push(match[1]);
+  }
+  return servers;
+}
+
+export type TracerouteHop = {
+  hop: number;
+  address: string | null;
+  rttsMs: Array<number | null>;
+};
+
+// Expects `traceroute -n` output; a hop may list several responders (load balancing),
+// in which case the first one is kept.
+export function parseTracerouteOutput(output: string): TracerouteHop[] {
+  const hops: TracerouteHop[] = [];
+  for (const line of output.split("\n")) {
+    const hopMatch = line.match(/^\s*(\d+)\s+(.*)$/);
+    const current: TracerouteHop | undefined = hopMatch
+      ? { hop: Number.parseInt(hopMatch[1], 10), address: null, rttsMs: [] }
+      : hops[hops.length - 1];
+    if (!current) continue;
+    if (hopMatch) hops.push(current);
+
+    for (const token of (hopMatch ? hopMatch[2] : line).matchAll(/\*|([\d.]+) ms|([\da-fA-F:.]*[.:][\da-fA-F:.]+)/g)) {
+      if (token[0] === "*") {
+        current.rttsMs.push(null);
+      } else if (token[1] !== undefined) {
+        current.rttsMs.push(Number.parseFloat(token[1]));
+      } else if (!current.address) {
+        current.address = token[2];
+      }
+    }
+  }
+  return hops;
+}
+
+export type WirelessProcEntry = {
+  interfaceName: string;
+  linkQuality: number | null;
+  signalDbm: number | null;
+  noiseDbm: number | null;
+};
+
+export function frequencyToChannel(freqMhz: number): { channel: number; band: string } | null {
+  if (freqMhz === 2484) return { channel: 14, band: "2.4 GHz" };
+  if (freqMhz >= 2412 && freqMhz < 2484) return { channel: (freqMhz - 2407) / 5, band: "2.4 GHz" };
+  if (freqMhz >= 5955 && freqMhz <= 7115) return { channel: (freqMhz - 5950) / 5, band: "6 GHz" };
+  if (freqMhz >= 5160 && freqMhz <= 5925) return { channel: (freqMhz - 5000) / 5, band: "5 GHz" };
+  return null;
+}
+
+export function parseIwDevOutput(output: string): string[] {
+  const interfaces: string[] = [];
+  for (const match of output.matchAll(/^\s*Interface (\S+)/gm)) {
+    interfaces.push(match[1]);
+  }
+  return interfaces;
+}
+
+export function parseIwLinkOutput(output: string): WifiStats | null {
+  const connectedMatch = output.match(/^Connected to ([0-9a-f:]{17})/im);
+  if (!connectedMatch) return null;
+
+  const ssidMatch = output.match(/^\s*SSID: (.*)$/m);
+  const freqMatch = output.match(/^\s*freq: ([\d.]+)/m);
+  const signalMatch = output.match(/^\s*signal: (-?\d+) dBm/m);
+  const txMatch = output.match(/^\s*tx bitrate: ([\d.]+) MBit\/s(.*)$/m);
+
+  const freq = freqMatch ? Number.parseFloat(freqMatch[1]) : null;
+  const channelInfo = freq ? frequencyToChannel(Math.round(freq)) : null;
+  const rate = parseIwBitrate(txMatch?.[2] ?? "");
+
+  return withLinkMetrics({
+    ssid: ssidMatch ? ssidMatch[1].trim() : null,
+    bssid: connectedMatch[1].toLowerCase(),
+    signalDbm: signalMatch ? Number.parseInt(signalMatch[1], 10) : null,
+    noiseDbm: null,
+    channel: channelInfo?.channel ?? null,
+    band: channelInfo?.band ?? null,
+    linkRateMbps: txMatch ? Math.round(Number.parseFloat(txMatch[1])) : null,
+    widthMhz: rate.widthMhz,
+    phyMode: rate.phyMode,
+    mcs: rate.mcs,
+    nss: rate.nss,
+    security: null,
+    maxRateMbps: null,
+    countryCode: null
+  });
+}
+
+const IW_PHY_MODES: Record<string, string> = { EHT: "802.11be", HE: "802.11ax", VHT: "802.11ac" };
+
+// The tail of an iw bitrate line, e.g. "VHT-MCS 9 80MHz short GI VHT-NSS 2" or "HE-MCS 11 HE-NSS 2 160MHz".
+// HT rates carry only "MCS 15 40MHz", where the stream count is folded into the index. iw leaves
+// out the width at 20 MHz.
+export function parseIwBitrate(details: string): Pick<WifiLink, "phyMode" | "mcs" | "nss" | "widthMhz"> {
+  const widthMatch = details.match(/\b(\d+)MHz/);
+  const modern = details.match(/\b(EHT|HE|VHT)-MCS (\d+)/);
+  if (modern) {
+    const nssMatch = details.match(new RegExp(`\\b${modern[1]}-NSS (\\d+)`));
+    return {
+      phyMode: IW_PHY_MODES[modern[1]],
+      mcs: Number.parseInt(modern[2], 10),
+      nss: nssMatch ? Number.parseInt(nssMatch[1], 10) : null,
+      widthMhz: widthMatch ? Number.parseInt(widthMatch[1], 10) : 20
+    };
+  }
+
+  const ht = details.match(/\bMCS (\d+)/);
+  if (ht) {
+    const index = Number.parseInt(ht[1], 10);
+    return { phyMode: "802.11n", mcs: index % 8, nss: Math.floor(index / 8) + 1, widthMhz: widthMatch ? Number.parseInt(widthMatch[1], 10) : 20 };
+  }
+
+  return { phyMode: null, mcs: null, nss: null, widthMhz: widthMatch ? Number.parseInt(widthMatch[1], 10) : null };
+}
+
+export function parseProcNetWireless(output: string): WirelessProcEntry[] {
+  const entries: WirelessProcEntry[] = [];
+
+  for (const line of output.split("\n")) {
+    const match = line.match(/^\s*([^\s|:]+):\s+\S+\s+(-?[\d.]+)\s+(-?[\d.]+)\s+(-?[\d.]+)/);
+    if (!match) continue;
+
+    const toNumber = (value: string): number => Number.parseInt(value, 10);
+    const signal = toNumber(match[3]);
+    const noise = toNumber(match[4]);
+
+    entries.push({
+      interfaceName: match[1],
+      linkQuality: toNumber(match[2]),
+      // The kernel reports -256 (or 0) when the driver does not expose a value.
+      signalDbm: signal < 0 && signal > -256 ? signal : null,
+      noiseDbm: noise < 0 && noise > -256 ? noise : null
+    });
+  }
+
+  return entries;
+}
+
+// Works for `ip route` and `ip -6 route`; link-local IPv6 gateways get the interface as zone
+// ("fe80::1%wlp2s0"), as they are only reachable through it.
+export function parseIpRouteDefault(output: string): string | null {
+  const match = output.match(/^default via (\S+)(?:.*?\bdev (\S+))?/m);
+  if (!match) return null;
+  const [, gateway, device] = match;
+  return device && /^fe80:/i.test(gateway) && !gateway.includes("%") ? `${gateway}%${device}` : gateway;
+}
+
+export function parseResolvectlStatus(output: string): string[] {
+  const servers: string[] = [];
+  const add = (value: string) => {
+    // Servers may carry a DoT name suffix, e.g. "1.1.1.1#cloudflare-dns.com".
+    const address = value.split("#")[0];
+    if (address && !servers.includes(address)) servers.push(address);
+  };
+
+  for (const match of output.matchAll(/^\s*Current DNS Server: (\S+)/gm)) {
+    add(match[1]);
+  }
+
+  const lines = output.split("\n");
+  for (let index = 0; index < lines.length; index += 1) {
+    const match = lines[index].match(/^\s*DNS Servers: (.+)$/);
+    if (!match) continue;
+
+    match[1].trim().split(/\s+/).forEach(add);
+    // Additional servers are listed on indented continuation lines without a label.
+    for (let next = index + 1; next < lines.length; next += 1) {
+      const continuation = lines[next].match(/^\s+([0-9a-f.:]+(?:%\w+)?(?:#\S+)?)\s*$/i);
+      if (!continuation) break;
+      add(continuation[1]);
+    }
+  }
+
+  return servers;
+}
+
+export function parseResolvConf(output: string): string[] {
+  const servers: string[] = [];
+  for (const match of output.matchAll(/^\s*nameserver\s+(\S+)/gm)) {
+    servers.push(match[1]);
+  }
+  return servers;
+}
+
+export type ScanNetwork = {
+  ssid: string | null;
+  bssid: string | null;
+  rssiDbm: number | null;
+  channel: number;
+  band: string;
+  widthMhz: number;
+  // Secondary 40 MHz channel position from `airport -s` ("+1" above, "-1" below).
+  secondary: "above" | "below" | null;
+  security: string | null;
+};
+
+export function parseAirportScan(output: string): ScanNetwork[] {
+  const networks: ScanNetwork[] = [];
+
+  for (const line of output.split("\n")) {
+    // SSIDs are right-aligned and may contain spaces, so anchor on the BSSID column.
+    const match = line.match(
+      /^\s*(.*?)\s+((?:[0-9a-f]{1,2}:){5}[0-9a-f]{1,2})\s+(-?\d+)\s+(\S+)\s+\S+\s+\S+\s+(.*?)\s*$/i
+    );
+    // The channel column has the same forms as the current link's, "6g37/160" included.
+    const spec = match ? parseChannelSpec(match[4]) : null;
+    if (!match || !spec) continue;
+
+    const modifier = match[4].match(/,([+-]1)$/)?.[1];
+    networks.push({
+      ssid: match[1].trim() || null,
+      bssid: match[2].toLowerCase(),
+      rssiDbm: Number.parseInt(match[3], 10),
+      channel: spec.channel,
+      band: spec.band,
+      widthMhz: spec.widthMhz ?? 20,
+      secondary: modifier ? (modifier === "+1" ? "above" : "below") : null,
+      security: match[5] || null
+    });
+  }
+
+  return networks;
+}
+
+export function parseSystemProfilerNetworks(output: string): ScanNetwork[] {
+  const sectionMatch = output.match(/^(\s*)Other Local Wi-Fi Networks:\s*\n([\s\S]*)$/m);
+  if (!sectionMatch) return [];
+
+  const sectionIndent = sectionMatch[1].length;
+  const networks: ScanNetwork[] = [];
+  let current: { ssid: string; fields: Record<string, string> } | null = null;
+  let ssidIndent: number | null = null;
+
+  const flush = () => {
+    if (!current) return;
+    const channelMatch = current.fields.Channel?.match(/(\d+)(?: \(([^)]+)\))?/);
+    if (channelMatch) {
+      const channel = Number.parseInt(channelMatch[1], 10);
+      const details = channelMatch[2] ?? "";
+      const bandMatch = details.match(/(\d+)GHz/i);
+      const widthMatch = details.match(/(\d+)MHz/i);
+      const band = bandMatch ? bandLabel(bandMatch[1]) : bandForChannel(channel);
+      const signalMatch = current.fields["Signal / Noise"]?.match(/(-?\d+) dBm/);
+
+      networks.push({
+        ssid: current.ssid,
+        bssid: null,
+        rssiDbm: signalMatch ? Number.parseInt(signalMatch[1], 10) : null,
+        channel,
+        band,
+        widthMhz: widthMatch ? Number.parseInt(widthMatch[1], 10) : 20,
+        secondary: null,
+        security: current.fields.Security ?? null
+      });
+    }
+    current = null;
+  };
+
+  for (const line of sectionMatch[2].split("\n")) {
+    if (!line.trim()) continue;
+    const indent = line.length - line.trimStart().length;
+    if (indent <= sectionIndent) break;
+
+    const headerMatch = line.match(/^\s*(.+):\s*$/);
+    if (headerMatch && (ssidIndent === null || indent <= ssidIndent)) {
+      flush();
+      ssidIndent = indent;
+      current = { ssid: headerMatch[1].trim(), fields: {} };
+      continue;
+    }
+
+    const fieldMatch = line.match(/^\s*([^:]+):\s*(.*)$/);
+    if (current && fieldMatch) current.fields[fieldMatch[1].trim()] = fieldMatch[2].trim();
+  }
+  flush();
+
+  return networks;
+}
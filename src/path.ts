@@ -0,0 +1,77 @@
+import { pingHost, traceRoute, type PingResult } from "./collector.js";
+import type { Logger } from "./logger.js";
+import { runCommand, type CommandRunner } from "./runner.js";
+
+export type PathHop = {
+  hop: number;
+  address: string | null;
+  ping: PingResult | null;
+};
+
+export type PathProblem = {
+  hop: number;
+  address: string | null;
+  reason: "loss" | "latency";
+  message: string;
+};
+
+export type PathReport = {
+  target: string;
+  hops: PathHop[];
+  firstBadHop: PathProblem | null;
+  error: string | null;
+};
+
+const LOSS_PCT = 5;
+const LATENCY_JUMP_MS = 30;
+
+// A problem only counts if it persists to the destination; loss or delay that disappears
+// at the next hop is usually a router de-prioritising ICMP to itself, not forwarding trouble.
+export function findFirstBadHop(hops: PathHop[]): PathProblem | null {
+  const measured = hops.filter((hop): hop is PathHop & { ping: PingResult } => hop.ping !== null);
+
+  for (let index = 0; index < measured.length; index += 1) {
+    const { hop, address, ping } = measured[index];
+    const onward = measured.slice(index);
+
+    if ((ping.lossPct ?? 0) >= LOSS_PCT && onward.every((later) => (later.ping.lossPct ?? 0) >= LOSS_PCT)) {
+      return { hop, address, reason: "loss", message: `Loss starts at hop ${hop} (${ping.lossPct}%) and continues to the target` };
+    }
+
+    const previousMs = measured[index - 1]?.ping.avgMs ?? null;
+    const onwardMs = onward.flatMap((later) => (later.ping.avgMs === null ? [] : [later.ping.avgMs]));
+    if (
+      previousMs !== null &&
+      ping.avgMs !== null &&
+      onwardMs.every((avgMs) => avgMs - previousMs >= LATENCY_JUMP_MS)
+    ) {
+      return {
+        hop,
+        address,
+        reason: "latency",
+        message: `Latency jumps by ${Math.round(ping.avgMs - previousMs)} ms at hop ${hop} and stays high`
+      };
+    }
+  }
+
+  return null;
+}
+
+export async function collectPath(
+  host: string,
+  samples: number,
+  maxHops: number,
+  log: Logger,
+  run: CommandRunner = runCommand
+): Promise<PathReport> {
+  const trace = await traceRoute(host, maxHops, log, run);
+  const hops = await Promise.all(
+    trace.hops.map(async ({ hop, address }) => ({
+      hop,
+      address,
+      ping: address ? await pingHost(address, samples, log, run) : null
+    }))
+  );
+
+  return { target: host, hops, firstBadHop: findFirstBadHop(hops), error: trace.error };
+}
@@ -0,0 +1,62 @@
+import {
+  getAirportInfo,
+  getDefaultGateway,
+  getDefaultGateway6,
+  getDnsServers,
+  runSpeedTest,
+  scanNetworks,
+  speedTestError,
+  type NetworkScan,
+  type SpeedTestResult
+} from "./collector.js";
+import {
+  getLinuxDefaultGateway,
+  getLinuxDefaultGateway6,
+  getLinuxDnsServers,
+  getLinuxWifiInfo
+} from "./linux-collector.js";
+import type { Logger } from "./logger.js";
+import type { WifiStats } from "./parsers.js";
+import type { CommandRunner } from "./runner.js";
+
+export type PlatformBackend = {
+  name: string;
+  getWifiStats: (log: Logger, run: CommandRunner) => Promise<WifiStats | null>;
+  getDefaultGateway: (log: Logger, run: CommandRunner) => Promise<string | null>;
+  getDefaultGateway6: (log: Logger, run: CommandRunner) => Promise<string | null>;
+  getDnsServers: (log: Logger, run: CommandRunner) => Promise<string[]>;
+  runSpeedTest: (log: Logger, run: CommandRunner) => Promise<SpeedTestResult>;
+  scanNetworks: (log: Logger, run: CommandRunner) => Promise<NetworkScan>;
+};
+
+export const darwinBackend: PlatformBackend = {
+  name: "darwin",
+  getWifiStats: getAirportInfo,
+  getDefaultGateway,
+  getDefaultGateway6,
+  getDnsServers,
+  runSpeedTest,
+  scanNetworks
+};
+
+export const linuxBackend: PlatformBackend = {
+  name: "linux",
+  getWifiStats: getLinuxWifiInfo,
+  getDefaultGateway: getLinuxDefaultGateway,
+  getDefaultGateway6: getLinuxDefaultGateway6,
+  getDnsServers: getLinuxDnsServers,
+  runSpeedTest: async (log) => {
+    log("error", "collect.speedtest.unsupported", { platform: "linux" });
+    return speedTestError("networkQuality is only available on macOS");
+  },
+  scanNetworks: async (log) => {
+    log("error", "collect.scan.unsupported", { platform: "linux" });
+    return { source: null, networks: [], error: "network scan is only available on macOS" };
+  }
+};
+
+export function selectBackend(platform: string): PlatformBackend | null {
+  if (platform === "darwin") return darwinBackend;
+  if (platform === "linux") return linuxBackend;
+  return null;
+}
@@ -0,0 +1,206 @@
+import { request } from "node:http";
+import { connect, isIP, type Socket } from "node:net";
+import { performance } from "node:perf_hooks";
+import { connect as connectTls } from "node:tls";
+import { pingError, type PingResult } from "./collector.js";
+import type { Logger } from "./logger.js";
+import { summarizeRtts } from "./parsers.js";
+
+export type ProbeKind = "tcp" | "http" | "https";
+
+export type ProbeTarget = {
+  target: string;
+  kind: ProbeKind;
+  host: string;
+  port: number;
+  path: string;
+};
+
+export type ProbeSample = {
+  connectMs: number | null;
+  tlsMs: number | null;
+  ttfbMs: number | null;
+  totalMs: number | null;
+  status: number | null;
+  error: string | null;
+};
+
+// Each phase carries ping's statistics; a sample that failed before reaching a phase counts as lost there.
+export type ProbeResult = {
+  target: string;
+  kind: ProbeKind;
+  host: string;
+  port: number;
+  samples: number;
+  // TCP handshake, after name resolution.
+  connect: PingResult;
+  // https only.
+  tls: PingResult | null;
+  // From sending the request to the first response byte; http(s) only.
+  ttfb: PingResult | null;
+  // Name resolution through the end of the response (or the TCP handshake for host:port targets).
+  total: PingResult;
+  // Last HTTP status seen; any status counts as an answer.
+  status: number | null;
+  error: string | null;
+};
+
+// Per sample; the stage default allows every sample of every target to use it up.
+export const PROBE_SAMPLE_TIMEOUT_MS = 3000;
+
+const USER_AGENT = "wifi-stats";
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+export function parseProbeTarget(raw: string): ProbeTarget {
+  const invalid = () => new Error(`Invalid probe target "${raw}": expected http(s)://host/path or host:port`);
+
+  if (/^https?:\/\//i.test(raw)) {
+    let url: URL;
+    try {
+      url = new URL(raw);
+    } catch {
+      throw invalid();
+    }
+    const kind = url.protocol === "https:" ? "https" : "http";
+    const host = url.hostname.replace(/^\[(.*)\]$/, "$1");
+    return { target: raw, kind, host, port: Number(url.port) || (kind === "https" ? 443 : 80), path: `${url.pathname}${url.search}` };
+  }
+
+  // host:port or [v6]:port
+  const match = raw.match(/^(?:\[([^\]]+)\]|([^\s:/[\]]+)):(\d+)$/);
+  const port = match ? Number.parseInt(match[3], 10) : 0;
+  if (!match || port < 1 || port > 65535) throw invalid();
+  return { target: raw, kind: "tcp", host: match[1] ?? match[2], port, path: "/" };
+}
+
+// One connect (+ TLS handshake + GET) against the target. Never rejects; failures land in `error`.
+export function probeOnce(target: ProbeTarget, signal?: AbortSignal, timeoutMs = PROBE_SAMPLE_TIMEOUT_MS): Promise<ProbeSample> {
+  return new Promise((resolve) => {
+    const sample: ProbeSample = { connectMs: null, tlsMs: null, ttfbMs: null, totalMs: null, status: null, error: null };
+    const startedAt = performance.now();
+    const since = (from: number) => round3(performance.now() - from);
+    const sockets: Socket[] = [];
+    let settled = false;
+
+    const finish = (error: string | null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      sockets.forEach((socket) => socket.destroy());
+      if (error) sample.error = error;
+      else sample.totalMs = since(startedAt);
+      resolve(sample);
+    };
+    const onAbort = () => finish("aborted");
+    const timer = setTimeout(() => finish(`no answer within ${timeoutMs} ms`), timeoutMs);
+    if (signal?.aborted) return finish("aborted");
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    const get = (connection: Socket) => {
+      const sentAt = performance.now();
+      const req = request({
+        host: target.host,
+        port: target.port,
+        path: target.path,
+        headers: { "user-agent": USER_AGENT, connection: "close" },
+        createConnection: () => connection
+      });
+      req.once("error", (error) => finish(error.message));
+      req.once("response", (response) => {
+        sample.ttfbMs = since(sentAt);
+        sample.status = response.statusCode ?? null;
+        response.once("error", (error) => finish(error.message));
+        response.once("end", () => finish(null));
+        response.resume();
+      });
+      req.end();
+    };
+
+    let connectFrom = startedAt;
+    const socket = connect({ host: target.host, port: target.port });
+    sockets.push(socket);
+    socket.once("lookup", () => (connectFrom = performance.now()));
+    socket.once("error", (error) => finish(error.message));
+    socket.once("connect", () => {
+      sample.connectMs = since(connectFrom);
+      if (target.kind === "tcp") return finish(null);
+      if (target.kind === "http") return get(socket);
+
+      const handshakeFrom = performance.now();
+      const secure = connectTls({ socket, servername: isIP(target.host) ? undefined : target.host, ALPNProtocols: ["http/1.1"] });
+      sockets.push(secure);
+      secure.once("error", (error) => finish(`TLS: ${error.message}`));
+      secure.once("secureConnect", () => {
+        sample.tlsMs = since(handshakeFrom);
+        get(secure);
+      });
+    });
+  });
+}
+
+function phase(target: string, values: Array<number | null>, error: string | null): PingResult {
+  const stats = summarizeRtts(values);
+  return { target, ...stats, samples: values.length, error: stats.avgMs === null ? (error ?? "no samples") : null };
+}
+
+export function probeError(raw: string, samples: number, error: string): ProbeResult {
+  const target = parseProbeTarget(raw);
+  const failed = pingError(raw, samples, error);
+  return {
+    target: raw,
+    kind: target.kind,
+    host: target.host,
+    port: target.port,
+    samples,
+    connect: failed,
+    tls: target.kind === "https" ? failed : null,
+    ttfb: target.kind === "tcp" ? null : failed,
+    total: failed,
+    status: null,
+    error
+  };
+}
+
+// Samples run back to back; unlike ping there is no fixed send interval to keep.
+export async function probeTarget(raw: string, samples: number, log: Logger, signal?: AbortSignal): Promise<ProbeResult> {
+  const target = parseProbeTarget(raw);
+  log("info", "collect.probe.start", { target: raw, kind: target.kind, samples });
+
+  const results: ProbeSample[] = [];
+  for (let index = 0; index < samples; index += 1) {
+    results.push(await probeOnce(target, signal));
+  }
+
+  const latestFirst = [...results].reverse();
+  const lastError = latestFirst.find((sample) => sample.error)?.error ?? null;
+  const pick = (key: "connectMs" | "tlsMs" | "ttfbMs" | "totalMs") => phase(raw, results.map((sample) => sample[key]), lastError);
+  const total = pick("totalMs");
+  const result: ProbeResult = {
+    target: raw,
+    kind: target.kind,
+    host: target.host,
+    port: target.port,
+    samples,
+    connect: pick("connectMs"),
+    tls: target.kind === "https" ? pick("tlsMs") : null,
+    ttfb: target.kind === "tcp" ? null : pick("ttfbMs"),
+    total,
+    status: latestFirst.find((sample) => sample.status !== null)?.status ?? null,
+    error: total.error
+  };
+
+  if (result.error) {
+    log("error", "collect.probe.error", { target: raw, error: result.error });
+  } else {
+    log("success", "collect.probe.success", { target: raw, totalMs: total.avgMs, lossPct: total.lossPct, status: result.status });
+  }
+  return result;
+}
+
+export function collectProbes(targets: string[], samples: number, log: Logger, signal?: AbortSignal): Promise<ProbeResult[]> {
+  return Promise.all(targets.map((target) => probeTarget(target, samples, log, signal)));
+}
@@ -0,0 +1,354 @@
+import type { PingResult, SpeedTestResult } from "./collector.js";
+import type { ConnectivityReport, ConnectivityState } from "./connectivity.js";
+import type { Severity } from "./diagnosis.js";
+import type { DnsLookupResult } from "./dns.js";
+import type { IpFamilyReport, IpFamilyStatus } from "./dualstack.js";
+import type { WifiStats } from "./parsers.js";
+import type { PathReport } from "./path.js";
+import type { ProbeResult } from "./probes.js";
+import type { OutputData } from "./report.js";
+import type { ResolverResult } from "./resolvers.js";
+
+const SEVERITY_COLORS: Record<Severity, number> = {
+  info: 36,
+  warning: 33,
+  critical: 31
+};
+
+const FAMILY_COLORS: Record<IpFamilyStatus, number> = {
+  working: 32,
+  broken: 31,
+  absent: 33,
+  unknown: 33
+};
+
+const CONNECTIVITY_COLORS: Record<ConnectivityState, number> = {
+  online: 32,
+  captive: 31,
+  "dns-hijacked": 31,
+  offline: 31,
+  unknown: 33
+};
+
+export function colorize(enabled: boolean, colorCode: number, text: string): string {
+  if (!enabled) return text;
+  return `\u001b[${colorCode}m${text}\u001b[0m`;
+}
+
+export function formatMetric(
+  label: string,
+  value: number | string | null | undefined,
+  unit: string,
+  color: number,
+  colorEnabled: boolean
+): string {
+  const displayValue = value === null || value === undefined ? "n/a" : value;
+  const coloredValue = colorize(colorEnabled, color, String(displayValue));
+  return `  ${label}: ${coloredValue}${unit ? ` ${unit}` : ""}`;
+}
+
+const SPARK_BLOCKS = ["▁", "▂", "▃", "▄", "▅", "▆", "▇", "█"];
+
+// Lost probes render as "×" so loss bursts stand out next to latency spikes.
+export function sparkline(values: Array<number | null>): string {
+  const present = values.filter((value): value is number => value !== null);
+  if (present.length === 0) return values.map(() => "×").join("");
+  const min = Math.min(...present);
+  const range = Math.max(...present) - min;
+
+  return values
+    .map((value) => {
+      if (value === null) return "×";
+      const level = range === 0 ? 0 : Math.round(((value - min) / range) * (SPARK_BLOCKS.length - 1));
+      return SPARK_BLOCKS[level];
+    })
+    .join("");
+}
+
+function formatValue(value: number | null | undefined): string {
+  return value === null || value === undefined ? "n/a" : String(value);
+}
+
+export function formatTable(header: string[], rows: string[][]): string[] {
+  const widths = header.map((label, column) => Math.max(label.length, ...rows.map((row) => row[column].length)));
+  const formatRow = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column])).join("  ").trimEnd();
+  return [formatRow(header), ...rows.map(formatRow)];
+}
+
+export function renderPath(path: PathReport, colorEnabled: boolean): string[] {
+  if (path.error) return [`  Error: ${path.error}`];
+
+  const rows = path.hops.map(({ hop, address, ping }) => [
+    String(hop),
+    address ?? "???",
+    formatValue(ping?.lossPct),
+    formatValue(ping?.samples),
+    formatValue(ping?.avgMs),
+    formatValue(ping?.minMs),
+    formatValue(ping?.maxMs),
+    formatValue(ping?.jitterMs)
+  ]);
+  const [header, ...body] = formatTable(["Hop", "Host", "Loss %", "Sent", "Avg ms", "Best ms", "Worst ms", "Jitter ms"], rows);
+  const lines = [`  ${colorize(colorEnabled, 36, header)}`];
+  body.forEach((row, index) => {
+    const isBad = path.hops[index].hop === path.firstBadHop?.hop;
+    lines.push(isBad ? `  ${colorize(colorEnabled, 31, `${row}  <- ${path.firstBadHop?.reason}`)}` : `  ${row}`);
+  });
+  lines.push(`  ${path.firstBadHop ? path.firstBadHop.message : "No persistent loss or latency jump along the path"}`);
+  return lines;
+}
+
+function describePhy(wifi: WifiStats): string | null {
+  const parts = [
+    wifi.phyMode,
+    wifi.mcs === null || wifi.mcs === undefined ? null : `MCS ${wifi.mcs}`,
+    wifi.nss ? `${wifi.nss} stream${wifi.nss === 1 ? "" : "s"}` : null
+  ].filter((part): part is string => Boolean(part));
+  return parts.length > 0 ? parts.join(", ") : null;
+}
+
+export function renderWifiLines(wifi: WifiStats | null, colorEnabled: boolean): string[] {
+  if (!wifi) return ["  n/a"];
+  const linkRateShare =
+    wifi.linkRatePct !== null && wifi.linkRatePct !== undefined ? ` (${wifi.linkRatePct}% of ${wifi.maxRateMbps} Mbps max)` : "";
+  const quality = wifi.signalQualityPct !== null && wifi.signalQualityPct !== undefined ? ` (${wifi.signalQualityPct}% quality)` : "";
+  const phy = describePhy(wifi);
+
+  const lines = [
+    `  SSID: ${wifi.ssid ?? "Unknown"}${wifi.band ? ` (${wifi.band})` : ""}`,
+    `  BSSID: ${wifi.bssid ?? "Unknown"}`,
+    `${formatMetric("Link Rate", wifi.linkRateMbps, "Mbps", 32, colorEnabled)}${linkRateShare}`,
+    `${formatMetric("Signal", wifi.signalDbm, "dBm", 33, colorEnabled)}${quality}`,
+    formatMetric("Noise", wifi.noiseDbm, "dBm", 32, colorEnabled),
+    formatMetric("SNR", wifi.snrDb, "dB", 32, colorEnabled),
+    `  Channel: ${wifi.channel ?? "Unknown"}${wifi.widthMhz ? ` (${wifi.widthMhz} MHz)` : ""}`
+  ];
+  if (phy) lines.push(`  PHY: ${phy}`);
+  if (wifi.security) lines.push(`  Security: ${wifi.security}`);
+  if (wifi.countryCode) lines.push(`  Country: ${wifi.countryCode}`);
+  return lines;
+}
+
+export function renderPingLines(ping: PingResult, colorEnabled: boolean): string[] {
+  const lines = [
+    formatMetric("Ping", ping.avgMs, "ms", 32, colorEnabled),
+    formatMetric("Jitter", ping.jitterMs, "ms", 31, colorEnabled),
+    formatMetric("Loss", ping.lossPct, "%", 33, colorEnabled),
+    formatMetric("P95", ping.p95Ms, "ms", 33, colorEnabled)
+  ];
+  if (ping.rttsMs?.length) lines.push(`  Samples: ${sparkline(ping.rttsMs)}`);
+  return lines;
+}
+
+// CNAME hops are part of the answer section but not what was asked for.
+function answerRecords(lookup: DnsLookupResult): string[] {
+  return lookup.answers.filter((answer) => answer.type === lookup.type).map((answer) => answer.data);
+}
+
+export function renderDnsLookupLines(lookups: DnsLookupResult[], colorEnabled: boolean): string[] {
+  if (lookups.length === 1) {
+    const [lookup] = lookups;
+    const lines = [
+      formatMetric("Lookup", lookup.lookupMs, "ms", 32, colorEnabled),
+      formatMetric("Warm", lookup.warmMs, "ms", 32, colorEnabled)
+    ];
+    if (lookup.error) lines.push(`  Error: ${lookup.error}`);
+    else lines.push(`  ${lookup.type}: ${answerRecords(lookup).join(", ") || "no records"}`);
+    return lines;
+  }
+
+  const rows = lookups.map((lookup) => {
+    const records = answerRecords(lookup);
+    const answer = records.length > 1 ? `${records[0]} (+${records.length - 1})` : (records[0] ?? "no records");
+    return [lookup.host, lookup.type, formatValue(lookup.lookupMs), formatValue(lookup.warmMs), lookup.error ?? answer];
+  });
+  const [header, ...body] = formatTable(["Host", "Type", "Lookup ms", "Warm ms", "Answer"], rows);
+  return [
+    `  ${colorize(colorEnabled, 36, header)}`,
+    ...body.map((row, index) => `  ${lookups[index].error ? colorize(colorEnabled, 31, row) : row}`)
+  ];
+}
+
+export function renderResolverLines(comparison: ResolverResult[], colorEnabled: boolean): string[] {
+  const rows = comparison.map((result) => [
+    String(result.rank),
+    result.server,
+    result.source,
+    formatValue(result.medianMs),
+    formatValue(result.maxMs),
+    `${result.failures}/${result.lookups.length}`
+  ]);
+  const [header, ...body] = formatTable(["#", "Server", "Source", "Median ms", "Max ms", "Failed"], rows);
+  return [`  ${colorize(colorEnabled, 36, header)}`, ...body.map((row, index) => `  ${index === 0 ? colorize(colorEnabled, 32, row) : row}`)];
+}
+
+export function renderIpFamilyLines(families: Array<[string, IpFamilyReport]>, colorEnabled: boolean): string[] {
+  const rows = families.map(([label, family]) => [
+    label,
+    family.status,
+    family.gateway ?? "none",
+    formatValue(family.router?.avgMs),
+    formatValue(family.internet?.avgMs),
+    formatValue(family.resolution?.lookupMs)
+  ]);
+  const [header, ...body] = formatTable(["Family", "Status", "Gateway", "Router ms", "Internet ms", "Lookup ms"], rows);
+  return [
+    `  ${colorize(colorEnabled, 36, header)}`,
+    ...body.map((row, index) => `  ${colorize(colorEnabled, FAMILY_COLORS[families[index][1].status], row)}`),
+    ...families.map(([label, family]) => `  ${label}: ${family.reason}`)
+  ];
+}
+
+export function renderConnectivityLines(check: ConnectivityReport, colorEnabled: boolean): string[] {
+  const lines = [`  State: ${colorize(colorEnabled, CONNECTIVITY_COLORS[check.state], check.state)}`, `  ${check.reason}`];
+  if (check.redirectUrl) lines.push(`  Portal: ${check.redirectUrl}`);
+  return lines;
+}
+
+export function renderProbeLines(probes: ProbeResult[], colorEnabled: boolean): string[] {
+  const rows = probes.map((probe) => [
+    probe.target,
+    formatValue(probe.connect.avgMs),
+    formatValue(probe.tls?.avgMs),
+    formatValue(probe.ttfb?.avgMs),
+    formatValue(probe.total.avgMs),
+    formatValue(probe.total.jitterMs),
+    formatValue(probe.total.lossPct),
+    probe.error ?? (probe.status === null ? "" : `HTTP ${probe.status}`)
+  ]);
+  const [header, ...body] = formatTable(["Target", "Connect ms", "TLS ms", "TTFB ms", "Total ms", "Jitter ms", "Loss %", "Result"], rows);
+  return [
+    `  ${colorize(colorEnabled, 36, header)}`,
+    ...body.map((row, index) => `  ${probes[index].error ? colorize(colorEnabled, 31, row) : row}`)
+  ];
+}
+
+export function renderSpeedTestLines(speedtest: SpeedTestResult, colorEnabled: boolean): string[] {
+  if (speedtest.error) return [`  Error: ${speedtest.error}`];
+  const lines = [
+    formatMetric("Download", speedtest.downloadMbps, "Mbps", 32, colorEnabled),
+    formatMetric("Upload", speedtest.uploadMbps, "Mbps", 32, colorEnabled),
+    formatMetric("Base RTT", speedtest.baseRttMs, "ms", 33, colorEnabled),
+    formatMetric("Responsiveness", speedtest.responsivenessMs, "ms", 33, colorEnabled)
+  ];
+  if (speedtest.endpoint) lines.push(`  Endpoint: ${speedtest.endpoint}`);
+  return lines;
+}
+
+export function renderPretty(output: OutputData, colorEnabled: boolean): string {
+  const lines: string[] = [];
+
+  const title = colorize(colorEnabled, 1, "Wi-Fi Stats");
+  lines.push(title);
+
+  const stages = Object.entries(output.meta.stages);
+  const interrupted = stages.filter(([, timing]) => timing.error);
+  if (interrupted.length > 0) {
+    const described = interrupted.map(([stage, timing]) => `${stage} ${timing.error === "timeout" ? "timed out" : "cancelled"}`);
+    lines.push(colorize(colorEnabled, 31, `Partial results: ${described.join(", ")}`));
+  }
+
+  lines.push("\nWi-Fi", ...renderWifiLines(output.wifi, colorEnabled));
+
+  if (output.connectivity) {
+    lines.push("\nConnectivity", ...renderConnectivityLines(output.connectivity, colorEnabled));
+  }
+
+  lines.push("\nRouter");
+  lines.push(`  Gateway: ${output.router.gateway ?? "Unknown"}`);
+  if (output.router.ping) {
+    lines.push(...renderPingLines(output.router.ping, colorEnabled));
+  }
+
+  lines.push("\nInternet");
+  if (output.internet.pings.length > 1) {
+    const rows = output.internet.pings.map((ping) => [
+      ping.target,
+      formatValue(ping.avgMs),
+      formatValue(ping.jitterMs),
+      formatValue(ping.lossPct),
+      formatValue(ping.p95Ms),
+      ping.error ?? ""
+    ]);
+    const [header, ...body] = formatTable(["Target", "Ping ms", "Jitter ms", "Loss %", "P95 ms", "Error"], rows);
+    lines.push(`  ${colorize(colorEnabled, 36, header)}`, ...body.map((row) => `  ${row}`));
+  } else {
+    lines.push(`  Target: ${output.internet.target}`);
+    if (output.internet.ping) {
+      lines.push(...renderPingLines(output.internet.ping, colorEnabled));
+    }
+  }
+
+  lines.push("\nDNS");
+  lines.push(`  Server: ${output.dns.server ?? "Unknown"} (${output.dns.source})`);
+  if (output.dns.lookups.length > 0) {
+    lines.push(...renderDnsLookupLines(output.dns.lookups, colorEnabled));
+  }
+
+  if (output.dns.comparison) {
+    lines.push("\nResolvers (ranked)", ...renderResolverLines(output.dns.comparison, colorEnabled));
+  }
+
+  lines.push("\nIPv4 / IPv6", ...renderIpFamilyLines([["IPv4", output.ipv4], ["IPv6", output.ipv6]], colorEnabled));
+
+  if (output.probes) {
+    lines.push("\nProbes", ...renderProbeLines(output.probes, colorEnabled));
+  }
+
+  if (output.path) {
+    lines.push(`\nPath to ${output.path.target}`);
+    lines.push(...renderPath(output.path, colorEnabled));
+  }
+
+  if (output.bufferbloat) {
+    const { load, idle, loaded, increaseMs, grade, error } = output.bufferbloat;
+    const gradeColor = grade === "A+" || grade === "A" ? 32 : grade === "B" || grade === "C" ? 33 : 31;
+    lines.push("\nBufferbloat");
+    lines.push(`  Load: ${load.source}${load.throughputMbps === null ? "" : ` (${load.throughputMbps} Mbps)`}`);
+    if (error) {
+      lines.push(`  Error: ${error}`);
+    } else {
+      lines.push(formatMetric("Idle", idle.avgMs, "ms", 32, colorEnabled));
+      lines.push(formatMetric("Loaded", loaded.avgMs, "ms", 33, colorEnabled));
+      lines.push(formatMetric("Increase", increaseMs === null ? null : `+${increaseMs}`, "ms", 33, colorEnabled));
+      lines.push(`  Grade: ${colorize(colorEnabled, gradeColor, grade ?? "n/a")}`);
+    }
+  }
+
+  if (output.speedtest) {
+    lines.push("\nSpeed Test", ...renderSpeedTestLines(output.speedtest, colorEnabled));
+  }
+
+  const { score, verdict, findings } = output.diagnosis;
+  const scoreColor = verdict === "healthy" ? 32 : verdict === "degraded" ? 33 : 31;
+  lines.push("\nDiagnosis");
+  lines.push(`  Health: ${colorize(colorEnabled, scoreColor, `${score}/100`)} (${verdict})`);
+  for (const finding of findings) {
+    lines.push(`  ${colorize(colorEnabled, SEVERITY_COLORS[finding.severity], `[${finding.severity}]`)} ${finding.message}`);
+    if (finding.recommendation) {
+      lines.push(`    -> ${finding.recommendation}`);
+    }
+  }
+
+  if (stages.length > 0) {
+    // One column per stage keeps the table to two lines.
+    const durations = stages.map(([, timing]) => `${timing.durationMs}${timing.error ? ` ${timing.error}` : ""}`);
+    const [header, body] = formatTable(
+      stages.map(([stage]) => stage),
+      [durations]
+    );
+    lines.push("\nTimings (ms)", `  ${colorize(colorEnabled, 36, header)}`, `  ${body}`);
+  }
+
+  if (output.assertions) {
+    lines.push("\nAssertions");
+    for (const result of output.assertions.results) {
+      const status = result.passed ? colorize(colorEnabled, 32, "PASS") : colorize(colorEnabled, 31, "FAIL");
+      const detail = result.reason ?? `actual: ${JSON.stringify(result.actual)}`;
+      lines.push(`  ${status} ${result.expression} (${detail})`);
+    }
+    lines.push(`  ${output.assertions.passed} passed, ${output.assertions.failed} failed`);
+  }
+
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,365 @@
+import { DEFAULT_ALERT_COOLDOWN_SEC, type AlertRule, type AlertTarget } from "./alerts.js";
+import type { AssertionReport } from "./assertions.js";
+import {
+  bufferbloatError,
+  createLoadGenerator,
+  measureBufferbloat,
+  parseLoadSpec,
+  type BufferbloatResult
+} from "./bufferbloat.js";
+import type { PingResult, SpeedTestResult } from "./collector.js";
+import { pingError, pingHost, speedTestError } from "./collector.js";
+import {
+  checkConnectivity,
+  connectivityError,
+  DEFAULT_CONNECTIVITY_EXPECT,
+  DEFAULT_CONNECTIVITY_URL,
+  dnsResolver,
+  type ConnectivityReport
+} from "./connectivity.js";
+import { diagnose, pingFiltered, type Diagnosis } from "./diagnosis.js";
+import {
+  assessFamily,
+  collectIpv6,
+  nameserversOf,
+  unassessedFamily,
+  type IpFamilyMeasurements,
+  type IpFamilyReport
+} from "./dualstack.js";
+import { dnsLookup, lookupError, udpTransport, type DnsLookupResult, type DnsRecordType, type DnsTransport } from "./dns.js";
+import type { Logger } from "./logger.js";
+import type { WifiStats } from "./parsers.js";
+import { collectPath, type PathReport } from "./path.js";
+import type { PlatformBackend } from "./platform.js";
+import { collectProbes, probeError, type ProbeResult } from "./probes.js";
+import { compareResolvers, resolverCandidates, type ResolverResult } from "./resolvers.js";
+import { runCommand, type CommandRunner } from "./runner.js";
+import { SCHEMA_VERSION } from "./schema.js";
+import { createStages, resolveTimeouts, type Stage, type StageError, type StageTiming, type Timeouts } from "./stages.js";
+
+export type Options = {
+  json: boolean;
+  pretty: boolean;
+  format: string | null;
+  header: boolean;
+  samples: number;
+  internetHosts: string[];
+  ipv6Host: string;
+  routerHost: string | null;
+  dnsHosts: string[];
+  dnsTypes: DnsRecordType[];
+  dnsQueries: number;
+  compareResolvers: boolean;
+  resolvers: string[];
+  path: boolean;
+  maxHops: number;
+  bufferbloat: boolean;
+  load: string;
+  speedtest: boolean;
+  probes: string[];
+  connectivity: boolean;
+  connectivityUrl: string;
+  connectivityExpect: string;
+  noColor: boolean;
+  record: string | null;
+  replay: string | null;
+  watch: boolean;
+  interval: number;
+  save: boolean;
+  asserts: string[];
+  assertFile: string | null;
+  timeouts: Timeouts;
+  alerts: AlertRule[];
+  alertTargets: AlertTarget[];
+  alertCooldown: number;
+};
+
+// The options that shape what gets collected; the rest only affect CLI output and scheduling.
+export type CollectionSettings = Pick<
+  Options,
+  | "samples"
+  | "internetHosts"
+  | "ipv6Host"
+  | "routerHost"
+  | "dnsHosts"
+  | "dnsTypes"
+  | "dnsQueries"
+  | "compareResolvers"
+  | "resolvers"
+  | "path"
+  | "maxHops"
+  | "bufferbloat"
+  | "load"
+  | "speedtest"
+  | "probes"
+  | "connectivity"
+  | "connectivityUrl"
+  | "connectivityExpect"
+  | "timeouts"
+>;
+
+export type OutputData = {
+  schemaVersion: typeof SCHEMA_VERSION;
+  timestamp: string;
+  wifi: WifiStats | null;
+  router: {
+    gateway: string | null;
+    ping: PingResult | null;
+  };
+  internet: {
+    target: string;
+    ping: PingResult | null;
+    pings: PingResult[];
+  };
+  dns: {
+    server: string | null;
+    source: "router" | "system";
+    lookup: DnsLookupResult | null;
+    lookups: DnsLookupResult[];
+    comparison?: ResolverResult[];
+  };
+  speedtest: SpeedTestResult | null;
+  // The same probes per address family; `router`, `internet` and `dns` above stay as they were.
+  ipv4: IpFamilyReport;
+  ipv6: IpFamilyReport;
+  // Whether the web is reachable or stuck behind a captive portal; with --connectivity.
+  connectivity?: ConnectivityReport;
+  // TCP/TLS/HTTP timings for the --probe targets, for networks that filter ICMP.
+  probes?: ProbeResult[];
+  path?: PathReport;
+  bufferbloat?: BufferbloatResult;
+  diagnosis: Diagnosis;
+  assertions?: AssertionReport;
+  meta: {
+    platform: string;
+    samples: number;
+    dnsHost: string;
+    speedtest: boolean;
+    // Wall-clock time per collector; stages that were skipped are left out.
+    stages: Partial<Record<Stage, StageTiming>>;
+  };
+};
+
+// Give the load a moment to fill the bottleneck queue before sampling loaded latency.
+const BUFFERBLOAT_WARMUP_MS = 2000;
+
+export function defaultOptions(): Options {
+  return {
+    json: false,
+    pretty: false,
+    format: null,
+    header: true,
+    samples: 12,
+    internetHosts: ["1.1.1.1"],
+    ipv6Host: "2606:4700:4700::1111",
+    routerHost: null,
+    dnsHosts: ["cloudflare.com"],
+    dnsTypes: ["A"],
+    dnsQueries: 3,
+    compareResolvers: false,
+    resolvers: [],
+    path: false,
+    maxHops: 30,
+    bufferbloat: false,
+    load: "networkquality",
+    speedtest: false,
+    probes: [],
+    connectivity: false,
+    connectivityUrl: DEFAULT_CONNECTIVITY_URL,
+    connectivityExpect: DEFAULT_CONNECTIVITY_EXPECT,
+    noColor: false,
+    record: null,
+    replay: null,
+    watch: false,
+    interval: 5,
+    save: false,
+    asserts: [],
+    assertFile: null,
+    timeouts: {},
+    alerts: [],
+    alertTargets: [],
+    alertCooldown: DEFAULT_ALERT_COOLDOWN_SEC
+  };
+}
+
+export async function collectReport(
+  options: CollectionSettings,
+  backend: PlatformBackend,
+  log: Logger,
+  run: CommandRunner = runCommand,
+  transport: DnsTransport = udpTransport,
+  // Aborting ends collection early; the report still comes back, with the cut-short sections marked "cancelled".
+  signal?: AbortSignal
+): Promise<OutputData> {
+  const { stage, timings } = createStages({ timeouts: resolveTimeouts(options, options.timeouts), signal, run, transport, log });
+  const pingsInterrupted = (hosts: string[]) => (error: StageError) => hosts.map((host) => pingError(host, options.samples, error));
+
+  const wifi = await stage("wifi", (run) => backend.getWifiStats(log, run), () => null);
+  const gateway = options.routerHost ?? (await stage("gateway", (run) => backend.getDefaultGateway(log, run), () => null));
+  const dnsServers = await stage("dnsServers", (run) => backend.getDnsServers(log, run), () => []);
+  const dnsServer = dnsServers[0] ?? null;
+  const lookupSettings = (type: DnsRecordType) => ({ type, queries: options.dnsQueries });
+  const lookupQueue = options.dnsHosts.flatMap((host) => options.dnsTypes.map((type) => ({ host, type })));
+  // The IPv4 view reuses the report's own A lookup unless that went to an IPv6 nameserver.
+  const ipv4Server = nameserversOf("ipv4", dnsServers)[0] ?? dnsServer;
+  const reusesLookup = options.dnsTypes.includes("A") && ipv4Server === dnsServer;
+
+  const [routerPing, internetPings, lookups, comparison, speedtest, ipv6, connectivity, probes] = await Promise.all([
+    gateway
+      ? stage("router", (run) => pingHost(gateway, options.samples, log, run), (error) => pingError(gateway, options.samples, error))
+      : Promise.resolve(null),
+    stage(
+      "internet",
+      (run) => Promise.all(options.internetHosts.map((host) => pingHost(host, options.samples, log, run))),
+      pingsInterrupted(options.internetHosts)
+    ),
+    stage(
+      "dns",
+      async (_run, transport) => {
+        const [all, ipv4Lookup] = await Promise.all([
+          Promise.all(lookupQueue.map(({ host, type }) => dnsLookup(host, dnsServer, lookupSettings(type), log, transport))),
+          reusesLookup ? Promise.resolve(null) : dnsLookup(options.dnsHosts[0], ipv4Server, lookupSettings("A"), log, transport)
+        ]);
+        return { all, ipv4Lookup };
+      },
+      (error) => ({
+        all: lookupQueue.map(({ host, type }) => lookupError(host, dnsServer, type, error === "timeout" ? "timeout" : "error", error)),
+        ipv4Lookup: null
+      })
+    ),
+    options.compareResolvers
+      ? stage(
+          "resolvers",
+          (_run, transport) =>
+            compareResolvers(
+              resolverCandidates(dnsServers, options.resolvers),
+              options.dnsHosts,
+              lookupSettings(options.dnsTypes[0]),
+              log,
+              transport
+            ),
+          () => null
+        )
+      : Promise.resolve(null),
+    options.speedtest ? stage("speedtest", (run) => backend.runSpeedTest(log, run), speedTestError) : Promise.resolve(null),
+    stage(
+      "ipv6",
+      (run, transport) =>
+        collectIpv6(
+          { samples: options.samples, target: options.ipv6Host, dnsHost: options.dnsHosts[0], dnsQueries: options.dnsQueries },
+          dnsServers,
+          backend,
+          log,
+          run,
+          transport
+        ),
+      (error) => unassessedFamily("ipv6", error)
+    ),
+    options.connectivity
+      ? stage(
+          "connectivity",
+          (_run, transport, signal) =>
+            checkConnectivity(
+              { url: options.connectivityUrl, expect: options.connectivityExpect },
+              dnsResolver(dnsServer, log, transport),
+              log,
+              signal
+            ),
+          (error) => connectivityError(options.connectivityUrl, error)
+        )
+      : Promise.resolve(undefined),
+    options.probes.length > 0
+      ? stage(
+          "probes",
+          (_run, _transport, signal) => collectProbes(options.probes, options.samples, log, signal),
+          (error) => options.probes.map((target) => probeError(target, options.samples, error))
+        )
+      : Promise.resolve(undefined)
+  ]);
+
+  // The first target (and record type) stays in `ping`/`lookup` so single-target consumers keep working.
+  const router = { gateway, ping: routerPing };
+  const internet = { target: options.internetHosts[0], ping: internetPings[0] ?? null, pings: internetPings };
+  const dns: OutputData["dns"] = {
+    server: dnsServer,
+    source: dnsServer && gateway && dnsServer === gateway ? "router" : "system",
+    lookup: lookups.all[0] ?? null,
+    lookups: lookups.all
+  };
+  if (comparison) dns.comparison = comparison;
+  const ipv4Measurements: IpFamilyMeasurements = {
+    gateway,
+    dnsServers: nameserversOf("ipv4", dnsServers),
+    router: routerPing,
+    internet: internet.ping,
+    resolution: lookups.ipv4Lookup ?? lookups.all.find((lookup) => lookup.host === options.dnsHosts[0] && lookup.type === "A") ?? null
+  };
+  const ipv4Interrupted = timings.internet?.error ?? timings.dns?.error;
+  // Probes to names don't say which family carried them, so only the IPv4 view (the report's own path) uses them.
+  const ipv4 = ipv4Interrupted
+    ? unassessedFamily("ipv4", ipv4Interrupted, ipv4Measurements)
+    : assessFamily("ipv4", ipv4Measurements, probes);
+
+  // Path and bufferbloat run after the main probes, one at a time, so they don't load the link
+  // the other measurements are taken on.
+  const target = options.internetHosts[0];
+  const path = options.path
+    ? await stage(
+        "path",
+        (run) => collectPath(target, options.samples, options.maxHops, log, run),
+        (error): PathReport => ({ target, hops: [], firstBadHop: null, error })
+      )
+    : undefined;
+  const bufferbloat = options.bufferbloat
+    ? await stage(
+        "bufferbloat",
+        (run) =>
+          measureBufferbloat(
+            { target, samples: options.samples, warmupMs: BUFFERBLOAT_WARMUP_MS },
+            createLoadGenerator(parseLoadSpec(options.load), backend, log, run),
+            log,
+            run
+          ),
+        (error) => bufferbloatError(target, options.load, options.samples, error)
+      )
+    : undefined;
+
+  return {
+    schemaVersion: SCHEMA_VERSION,
+    timestamp: new Date().toISOString(),
+    wifi,
+    router,
+    internet,
+    dns,
+    speedtest,
+    ipv4,
+    ipv6,
+    ...(connectivity ? { connectivity } : {}),
+    ...(probes ? { probes } : {}),
+    ...(path ? { path } : {}),
+    ...(bufferbloat ? { bufferbloat } : {}),
+    diagnosis: diagnose({ wifi, router, internet, dns, speedtest, ipv6, connectivity, probes }),
+    meta: {
+      platform: backend.name,
+      samples: options.samples,
+      dnsHost: options.dnsHosts[0],
+      speedtest: options.speedtest,
+      stages: timings
+    }
+  };
+}
+
+export function hasCollectionError(output: OutputData): boolean {
+  const { wifi, router, internet, dns, speedtest, meta } = output;
+  // Failed pings aren't a collection error when the probes show ICMP is just filtered.
+  const pings = [router.ping, internet.ping, ...internet.pings];
+  const pingsFailed = !pingFiltered(output) && pings.some((ping) => ping?.error);
+  let hadError = !wifi || !router.gateway || !dns.server || !router.ping || !internet.ping || !dns.lookup;
+  if (pingsFailed || dns.lookup?.error) hadError = true;
+  if (dns.lookups.some((lookup) => lookup.error)) hadError = true;
+  if (meta.speedtest && speedtest?.error) hadError = true;
+  if (output.path?.error || output.bufferbloat?.error) hadError = true;
+  if (output.probes?.some((probe) => probe.error)) hadError = true;
+  if (Object.values(meta.stages).some((timing) => timing.error)) hadError = true;
+  return hadError;
+}
@@ -0,0 +1,66 @@
+import { dnsLookup, udpTransport, type DnsLookupResult, type DnsLookupSettings, type DnsTransport } from "./dns.js";
+import type { Logger } from "./logger.js";
+import { percentile } from "./stats.js";
+
+export type ResolverSource = "system" | "custom";
+
+export type ResolverResult = {
+  rank: number;
+  server: string;
+  source: ResolverSource;
+  medianMs: number | null;
+  maxMs: number | null;
+  failures: number;
+  lookups: DnsLookupResult[];
+};
+
+export function resolverCandidates(system: string[], custom: string[]): Array<{ server: string; source: ResolverSource }> {
+  const candidates = system.map((server) => ({ server, source: "system" as ResolverSource }));
+  for (const server of custom) {
+    if (!candidates.some((candidate) => candidate.server === server)) candidates.push({ server, source: "custom" });
+  }
+  return candidates;
+}
+
+export function rankResolvers(results: Array<Omit<ResolverResult, "rank">>): ResolverResult[] {
+  return [...results]
+    .sort((a, b) => {
+      if (a.failures !== b.failures) return a.failures - b.failures;
+      return (a.medianMs ?? Infinity) - (b.medianMs ?? Infinity);
+    })
+    .map((result, index) => ({ rank: index + 1, ...result }));
+}
+
+export async function compareResolvers(
+  candidates: Array<{ server: string; source: ResolverSource }>,
+  hosts: string[],
+  settings: DnsLookupSettings,
+  log: Logger,
+  transport: DnsTransport = udpTransport
+): Promise<ResolverResult[]> {
+  log("info", "collect.resolvers.start", { servers: candidates.map((candidate) => candidate.server), hosts });
+
+  // Resolvers are queried in parallel, but each one sees its hosts one at a time so its
+  // own queries never queue behind each other.
+  const results = await Promise.all(
+    candidates.map(async ({ server, source }) => {
+      const lookups: DnsLookupResult[] = [];
+      for (const host of hosts) {
+        lookups.push(await dnsLookup(host, server, settings, log, transport));
+      }
+      const times = lookups.flatMap((lookup) => (lookup.error || lookup.lookupMs === null ? [] : [lookup.lookupMs]));
+      return {
+        server,
+        source,
+        medianMs: percentile(times, 50),
+        maxMs: times.length > 0 ? Math.max(...times) : null,
+        failures: lookups.length - times.length,
+        lookups
+      };
+    })
+  );
+
+  const ranked = rankResolvers(results);
+  log("success", "collect.resolvers.success", { fastest: ranked[0]?.server ?? null });
+  return ranked;
+}
@@ -0,0 +1,137 @@
+import { execFile } from "node:child_process";
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { promisify } from "node:util";
+import { createReplayTransport, DNS_CAPTURE_PREFIX, type DnsCapture, type DnsTransport } from "./dns.js";
+
+const execFileAsync = promisify(execFile);
+const MANIFEST_FILE = "manifest.json";
+
+export type CommandResult = {
+  stdout: string;
+  stderr: string;
+  error: Error | null;
+};
+
+// Runners that start processes kill them when `signal` aborts; replayed output ignores it.
+export type CommandRunner = (command: string, args: string[], signal?: AbortSignal) => Promise<CommandResult>;
+
+export type CommandCapture = {
+  argv: string[];
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  errorCode: string | null;
+  errorMessage: string | null;
+};
+
+export type CaptureManifest = {
+  platform: string;
+  recordedAt: string;
+};
+
+export type ReplaySession = {
+  manifest: CaptureManifest;
+  run: CommandRunner;
+  dns: DnsTransport;
+};
+
+// Aborting either signal kills the command if it is still running; it then resolves with the abort as its error.
+export function createCommandRunner(signal?: AbortSignal): CommandRunner {
+  return async (command, args, callSignal) => {
+    const combined = signal && callSignal ? AbortSignal.any([signal, callSignal]) : (signal ?? callSignal);
+    try {
+      const result = await execFileAsync(command, args, { encoding: "utf8", signal: combined });
+      return { stdout: result.stdout ?? "", stderr: result.stderr ?? "", error: null };
+    } catch (error) {
+      const err = error as NodeJS.ErrnoException & { stdout?: string; stderr?: string };
+      return {
+        stdout: err.stdout ?? "",
+        stderr: err.stderr ?? err.message ?? "command failed",
+        error: err
+      };
+    }
+  };
+}
+
+export const runCommand: CommandRunner = createCommandRunner();
+
+function toCapture(argv: string[], result: CommandResult): CommandCapture {
+  const code = (result.error as NodeJS.ErrnoException | null)?.code as string | number | undefined;
+  return {
+    argv,
+    stdout: result.stdout,
+    stderr: result.stderr,
+    exitCode: result.error ? (typeof code === "number" ? code : null) : 0,
+    errorCode: typeof code === "string" ? code : null,
+    errorMessage: result.error ? result.error.message : null
+  };
+}
+
+function fromCapture(capture: CommandCapture): CommandResult {
+  if (capture.exitCode === 0 && !capture.errorCode) {
+    return { stdout: capture.stdout, stderr: capture.stderr, error: null };
+  }
+
+  // execFile reports spawn failures as string codes (ENOENT) and exit statuses as numbers.
+  const error = Object.assign(new Error(capture.errorMessage ?? "command failed"), {
+    code: capture.errorCode ?? capture.exitCode
+  });
+  return { stdout: capture.stdout, stderr: capture.stderr, error };
+}
+
+export async function createRecordingRunner(
+  dir: string,
+  platform: string,
+  inner: CommandRunner = runCommand
+): Promise<CommandRunner> {
+  await mkdir(dir, { recursive: true });
+  const manifest: CaptureManifest = { platform, recordedAt: new Date().toISOString() };
+  await writeFile(path.join(dir, MANIFEST_FILE), `${JSON.stringify(manifest, null, 2)}\n`);
+
+  let sequence = 0;
+  return async (command, args, signal) => {
+    sequence += 1;
+    const fileName = `${String(sequence).padStart(3, "0")}-${path.basename(command)}.json`;
+    const result = await inner(command, args, signal);
+    const capture = toCapture([command, ...args], result);
+    await writeFile(path.join(dir, fileName), `${JSON.stringify(capture, null, 2)}\n`);
+    return result;
+  };
+}
+
+export async function loadReplay(dir: string): Promise<ReplaySession> {
+  const manifest = JSON.parse(await readFile(path.join(dir, MANIFEST_FILE), "utf8")) as CaptureManifest;
+  const captures = new Map<string, CommandCapture[]>();
+  const dnsCaptures: DnsCapture[] = [];
+
+  const files = (await readdir(dir)).filter((file) => file.endsWith(".json") && file !== MANIFEST_FILE).sort();
+  for (const file of files) {
+    const raw = JSON.parse(await readFile(path.join(dir, file), "utf8")) as unknown;
+    if (file.startsWith(DNS_CAPTURE_PREFIX)) {
+      dnsCaptures.push(raw as DnsCapture);
+      continue;
+    }
+    const capture = raw as CommandCapture;
+    const key = JSON.stringify(capture.argv);
+    captures.set(key, [...(captures.get(key) ?? []), capture]);
+  }
+
+  // Repeated invocations are served in recorded order; the last capture keeps repeating.
+  const served = new Map<string, number>();
+  const run: CommandRunner = async (command, args) => {
+    const key = JSON.stringify([command, ...args]);
+    const queue = captures.get(key);
+    if (!queue) {
+      const error = new Error(`no recorded output for: ${[command, ...args].join(" ")}`) as NodeJS.ErrnoException;
+      error.code = "ENOENT";
+      return { stdout: "", stderr: error.message, error };
+    }
+
+    const index = served.get(key) ?? 0;
+    served.set(key, index + 1);
+    return fromCapture(queue[Math.min(index, queue.length - 1)]);
+  };
+
+  return { manifest, run, dns: createReplayTransport(dnsCaptures) };
+}
@@ -0,0 +1,172 @@
+import type { NetworkScan } from "./collector.js";
+import type { ScanNetwork, WifiStats } from "./parsers.js";
+import { colorize, formatTable } from "./render.js";
+
+export type ChannelCongestion = {
+  band: string;
+  channel: number;
+  count: number;
+  combinedDbm: number | null;
+};
+
+export type ScanReport = {
+  timestamp: string;
+  source: NetworkScan["source"];
+  current: Pick<WifiStats, "ssid" | "bssid" | "channel" | "band"> | null;
+  networks: ScanNetwork[];
+  congestion: ChannelCongestion[];
+  recommendations: Record<string, number[]>;
+  error: string | null;
+};
+
+const CHANNELS_5GHZ = [
+  36, 40, 44, 48, 52, 56, 60, 64, 100, 104, 108, 112, 116, 120, 124, 128, 132, 136, 140, 144, 149, 153, 157, 161, 165
+];
+// Bonded 5 GHz blocks start at these primary channels for each width.
+const BLOCK_STARTS_5GHZ: Record<number, number[]> = {
+  40: [36, 44, 52, 60, 100, 108, 116, 124, 132, 140, 149, 157],
+  80: [36, 52, 100, 116, 132, 149],
+  160: [36, 100]
+};
+// Preferred scanning channels (PSC) are the recommended 20 MHz primaries in 6 GHz.
+const PSC_6GHZ = Array.from({ length: 15 }, (_, index) => 5 + index * 16);
+
+const CANDIDATES: Record<string, { all: number[]; preferred: number[] }> = {
+  "2.4 GHz": { all: Array.from({ length: 13 }, (_, index) => index + 1), preferred: [1, 6, 11] },
+  "5 GHz": { all: CHANNELS_5GHZ, preferred: CHANNELS_5GHZ },
+  "6 GHz": { all: PSC_6GHZ, preferred: PSC_6GHZ }
+};
+
+function centerFrequency(band: string, channel: number): number {
+  if (band === "2.4 GHz") return channel === 14 ? 2484 : 2407 + channel * 5;
+  if (band === "6 GHz") return 5950 + channel * 5;
+  return 5000 + channel * 5;
+}
+
+export function channelSpan(band: string, channel: number, widthMhz = 20, secondary: ScanNetwork["secondary"] = null) {
+  const center = centerFrequency(band, channel);
+
+  if (band === "2.4 GHz") {
+    // 802.11b/g channels occupy ~22 MHz, which is why only 1/6/11 do not overlap.
+    if (widthMhz < 40) return { lowMhz: center - 11, highMhz: center + 11 };
+    return secondary === "below" ? { lowMhz: center - 30, highMhz: center + 10 } : { lowMhz: center - 10, highMhz: center + 30 };
+  }
+
+  if (widthMhz <= 20) return { lowMhz: center - 10, highMhz: center + 10 };
+
+  const span = widthMhz / 5;
+  let blockStart: number | undefined;
+  if (band === "6 GHz") {
+    blockStart = Math.floor((channel - 1) / span) * span + 1;
+  } else {
+    blockStart = BLOCK_STARTS_5GHZ[widthMhz]?.find((start) => channel >= start && channel < start + span);
+  }
+
+  if (blockStart === undefined) return { lowMhz: center - widthMhz / 2, highMhz: center + widthMhz / 2 };
+  const lowMhz = centerFrequency(band, blockStart) - 10;
+  return { lowMhz, highMhz: lowMhz + widthMhz };
+}
+
+function combineDbm(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const milliwatts = values.reduce((total, dbm) => total + 10 ** (dbm / 10), 0);
+  return Math.round(10 * Math.log10(milliwatts) * 10) / 10;
+}
+
+export function channelCongestion(networks: ScanNetwork[], band: string, channel: number): ChannelCongestion {
+  const candidate = channelSpan(band, channel);
+  const overlapping = networks.filter((network) => {
+    if (network.band !== band) return false;
+    const span = channelSpan(network.band, network.channel, network.widthMhz, network.secondary);
+    return span.lowMhz < candidate.highMhz && span.highMhz > candidate.lowMhz;
+  });
+
+  return {
+    band,
+    channel,
+    count: overlapping.length,
+    combinedDbm: combineDbm(overlapping.flatMap((network) => (network.rssiDbm === null ? [] : [network.rssiDbm])))
+  };
+}
+
+function byLeastCrowded(a: ChannelCongestion, b: ChannelCongestion): number {
+  if (a.count !== b.count) return a.count - b.count;
+  const aSignal = a.combinedDbm ?? -Infinity;
+  const bSignal = b.combinedDbm ?? -Infinity;
+  if (aSignal !== bSignal) return aSignal - bSignal;
+  return a.channel - b.channel;
+}
+
+export function analyzeScan(scan: NetworkScan, current: WifiStats | null, now = new Date()): ScanReport {
+  const congestion: ChannelCongestion[] = [];
+  const recommendations: Record<string, number[]> = {};
+
+  for (const [band, candidates] of Object.entries(CANDIDATES)) {
+    for (const channel of candidates.all) {
+      const entry = channelCongestion(scan.networks, band, channel);
+      if (entry.count > 0) congestion.push(entry);
+    }
+
+    recommendations[band] = candidates.preferred
+      .map((channel) => channelCongestion(scan.networks, band, channel))
+      .sort(byLeastCrowded)
+      .slice(0, 3)
+      .map((entry) => entry.channel);
+  }
+
+  return {
+    timestamp: now.toISOString(),
+    source: scan.source,
+    current: current ? { ssid: current.ssid, bssid: current.bssid, channel: current.channel, band: current.band } : null,
+    networks: [...scan.networks].sort((a, b) => (b.rssiDbm ?? -Infinity) - (a.rssiDbm ?? -Infinity)),
+    congestion,
+    recommendations,
+    error: scan.error
+  };
+}
+
+export function renderScan(report: ScanReport, colorEnabled: boolean): string {
+  const lines = [colorize(colorEnabled, 1, "Wi-Fi Scan")];
+
+  if (report.error) {
+    lines.push(`  Error: ${report.error}`);
+    return `${lines.join("\n")}\n`;
+  }
+
+  lines.push(`\nNetworks (${report.networks.length}, via ${report.source ?? "unknown"})`);
+  const networkRows = report.networks.map((network) => [
+    network.ssid ?? "(hidden)",
+    network.bssid ?? "-",
+    network.rssiDbm === null ? "n/a" : String(network.rssiDbm),
+    String(network.channel),
+    `${network.widthMhz}`,
+    network.security ?? "-"
+  ]);
+  for (const row of formatTable(["SSID", "BSSID", "RSSI", "Ch", "MHz", "Security"], networkRows)) {
+    lines.push(`  ${row}`);
+  }
+
+  lines.push("\nChannel Congestion");
+  const congestionRows = report.congestion.map((entry) => {
+    const isCurrent = entry.band === report.current?.band && entry.channel === report.current?.channel;
+    return [
+      entry.band,
+      `${entry.channel}${isCurrent ? " *" : ""}`,
+      String(entry.count),
+      entry.combinedDbm === null ? "n/a" : `${entry.combinedDbm} dBm`
+    ];
+  });
+  for (const row of formatTable(["Band", "Channel", "APs", "Combined"], congestionRows)) {
+    lines.push(`  ${row}`);
+  }
+  if (report.current?.channel) {
+    lines.push(`  * current channel (${report.current.ssid ?? "unknown SSID"})`);
+  }
+
+  lines.push("\nRecommended Channels");
+  for (const [band, channels] of Object.entries(report.recommendations)) {
+    lines.push(`  ${band}: ${colorize(colorEnabled, 32, channels.join(", "))}`);
+  }
+
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,387 @@
+import type { AssertionReport, AssertionResult } from "./assertions.js";
+import type { BufferbloatResult, LoadSummary } from "./bufferbloat.js";
+import type { PingResult, SpeedTestResult } from "./collector.js";
+import type { ConnectivityReport } from "./connectivity.js";
+import type { Diagnosis, Finding } from "./diagnosis.js";
+import type { IpFamilyReport } from "./dualstack.js";
+import { DNS_RECORD_TYPES, type DnsAnswer, type DnsLookupResult } from "./dns.js";
+import type { WifiStats } from "./parsers.js";
+import type { PathHop, PathProblem, PathReport } from "./path.js";
+import type { ProbeResult } from "./probes.js";
+import type { OutputData } from "./report.js";
+import type { ResolverResult } from "./resolvers.js";
+import { STAGES, type Stage, type StageTiming } from "./stages.js";
+
+// Bumped when a field is removed, renamed or changes type. New fields can appear without a bump.
+export const SCHEMA_VERSION = 1;
+
+type JsonType = "string" | "number" | "integer" | "boolean" | "null" | "object" | "array";
+
+export type JsonSchema = {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  description?: string;
+  type?: JsonType | JsonType[];
+  const?: unknown;
+  enum?: unknown[];
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+};
+
+const string: JsonSchema = { type: "string" };
+const number: JsonSchema = { type: "number" };
+const integer: JsonSchema = { type: "integer" };
+const boolean: JsonSchema = { type: "boolean" };
+
+function ref(name: string): JsonSchema {
+  return { $ref: `#/$defs/${name}` };
+}
+
+function nullable(schema: JsonSchema): JsonSchema {
+  if (typeof schema.type !== "string") return { anyOf: [schema, { type: "null" }] };
+  return { ...schema, type: [schema.type, "null"], ...(schema.enum ? { enum: [...schema.enum, null] } : {}) };
+}
+
+function array(items: JsonSchema): JsonSchema {
+  return { type: "array", items };
+}
+
+function oneOf(values: string[]): JsonSchema {
+  return { type: "string", enum: values };
+}
+
+// Keyed by the TypeScript type, so adding a field to the type without describing it here fails to compile.
+function object<T>(properties: { [K in keyof T]-?: JsonSchema }, optional: Array<keyof T> = []): JsonSchema {
+  const keys = Object.keys(properties) as Array<keyof T & string>;
+  return {
+    type: "object",
+    properties,
+    required: keys.filter((key) => !optional.includes(key))
+  };
+}
+
+const DEFINITIONS: Record<string, JsonSchema> = {
+  WifiStats: object<WifiStats>({
+    ssid: nullable(string),
+    bssid: nullable(string),
+    signalDbm: nullable(number),
+    noiseDbm: nullable(number),
+    channel: nullable(integer),
+    band: nullable(string),
+    linkRateMbps: nullable(number),
+    widthMhz: nullable(integer),
+    phyMode: nullable(string),
+    mcs: nullable(integer),
+    nss: nullable(integer),
+    security: nullable(string),
+    maxRateMbps: nullable(number),
+    countryCode: nullable(string),
+    snrDb: nullable(number),
+    signalQualityPct: { type: ["integer", "null"], minimum: 0, maximum: 100 },
+    linkRatePct: nullable(integer)
+  }),
+  PingResult: object<PingResult>({
+    target: string,
+    samples: integer,
+    avgMs: nullable(number),
+    jitterMs: nullable(number),
+    lossPct: nullable(number),
+    minMs: nullable(number),
+    maxMs: nullable(number),
+    p50Ms: nullable(number),
+    p95Ms: nullable(number),
+    p99Ms: nullable(number),
+    rfc3550JitterMs: nullable(number),
+    maxConsecutiveLoss: nullable(integer),
+    outOfOrder: integer,
+    duplicates: integer,
+    rttsMs: array(nullable(number)),
+    error: nullable(string)
+  }),
+  DnsLookupResult: object<DnsLookupResult>({
+    host: string,
+    server: nullable(string),
+    type: oneOf([...DNS_RECORD_TYPES]),
+    lookupMs: nullable(number),
+    warmMs: nullable(number),
+    queries: integer,
+    rcode: nullable(string),
+    answers: array(
+      object<DnsAnswer>({
+        type: string,
+        ttl: integer,
+        data: string
+      })
+    ),
+    failure: nullable(oneOf(["nxdomain", "servfail", "refused", "timeout", "error"])),
+    error: nullable(string)
+  }),
+  SpeedTestResult: object<SpeedTestResult>({
+    downloadMbps: nullable(number),
+    uploadMbps: nullable(number),
+    baseRttMs: nullable(number),
+    responsivenessMs: nullable(number),
+    interfaceName: nullable(string),
+    endpoint: nullable(string),
+    raw: nullable(
+      object<NonNullable<SpeedTestResult["raw"]>>({
+        startDate: nullable(string),
+        endDate: nullable(string),
+        osVersion: nullable(string)
+      })
+    ),
+    error: nullable(string)
+  }),
+  ResolverResult: object<ResolverResult>({
+    rank: integer,
+    server: string,
+    source: oneOf(["system", "custom"]),
+    medianMs: nullable(number),
+    maxMs: nullable(number),
+    failures: integer,
+    lookups: array(ref("DnsLookupResult"))
+  }),
+  StageTiming: object<StageTiming>({
+    durationMs: number,
+    error: nullable(oneOf(["timeout", "cancelled"]))
+  }),
+  IpFamilyReport: object<IpFamilyReport>({
+    status: oneOf(["working", "broken", "absent", "unknown"]),
+    reason: string,
+    gateway: nullable(string),
+    dnsServers: array(string),
+    router: nullable(ref("PingResult")),
+    internet: nullable(ref("PingResult")),
+    resolution: nullable(ref("DnsLookupResult"))
+  }),
+  ConnectivityReport: object<ConnectivityReport>({
+    state: oneOf(["online", "captive", "dns-hijacked", "offline", "unknown"]),
+    reason: string,
+    url: string,
+    addresses: array(string),
+    status: nullable(integer),
+    redirectUrl: nullable(string),
+    durationMs: nullable(number)
+  }),
+  ProbeResult: object<ProbeResult>({
+    target: string,
+    kind: oneOf(["tcp", "http", "https"]),
+    host: string,
+    port: integer,
+    samples: integer,
+    connect: ref("PingResult"),
+    tls: nullable(ref("PingResult")),
+    ttfb: nullable(ref("PingResult")),
+    total: ref("PingResult"),
+    status: nullable(integer),
+    error: nullable(string)
+  }),
+  PathReport: object<PathReport>({
+    target: string,
+    hops: array(
+      object<PathHop>({
+        hop: integer,
+        address: nullable(string),
+        ping: nullable(ref("PingResult"))
+      })
+    ),
+    firstBadHop: nullable(
+      object<PathProblem>({
+        hop: integer,
+        address: nullable(string),
+        reason: oneOf(["loss", "latency"]),
+        message: string
+      })
+    ),
+    error: nullable(string)
+  }),
+  BufferbloatResult: object<BufferbloatResult>({
+    target: string,
+    load: object<LoadSummary>({
+      source: string,
+      bytes: nullable(number),
+      durationMs: number,
+      throughputMbps: nullable(number),
+      error: nullable(string)
+    }),
+    idle: ref("PingResult"),
+    loaded: ref("PingResult"),
+    increaseMs: nullable(number),
+    grade: nullable(oneOf(["A+", "A", "B", "C", "D", "F"])),
+    error: nullable(string)
+  }),
+  Diagnosis: object<Diagnosis>({
+    score: { type: "integer", minimum: 0, maximum: 100 },
+    verdict: oneOf(["healthy", "degraded", "poor"]),
+    findings: array(
+      object<Finding>({
+        id: string,
+        severity: oneOf(["info", "warning", "critical"]),
+        metric: string,
+        value: { type: ["number", "string", "null"] },
+        message: string,
+        recommendation: nullable(string)
+      })
+    )
+  }),
+  AssertionReport: object<AssertionReport>({
+    passed: integer,
+    failed: integer,
+    results: array(
+      object<AssertionResult>({
+        expression: string,
+        path: string,
+        operator: oneOf(["<", "<=", ">", ">=", "==", "!="]),
+        expected: { type: ["number", "string", "boolean", "null"] },
+        // Whatever the path resolved to in the output, including objects.
+        actual: {},
+        passed: boolean,
+        reason: nullable(string)
+      })
+    )
+  })
+};
+
+export const OUTPUT_SCHEMA: JsonSchema = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  $id: `urn:wifi-stats-cli:output:${SCHEMA_VERSION}`,
+  title: "wifi-stats --json output",
+  description: `One report from wifi-stats --json (one line per report with --watch). schemaVersion ${SCHEMA_VERSION}.`,
+  ...object<OutputData>(
+    {
+      schemaVersion: { const: SCHEMA_VERSION },
+      timestamp: { type: "string", format: "date-time" },
+      wifi: nullable(ref("WifiStats")),
+      router: object<OutputData["router"]>({
+        gateway: nullable(string),
+        ping: nullable(ref("PingResult"))
+      }),
+      internet: object<OutputData["internet"]>({
+        target: string,
+        ping: nullable(ref("PingResult")),
+        pings: array(ref("PingResult"))
+      }),
+      dns: object<OutputData["dns"]>(
+        {
+          server: nullable(string),
+          source: oneOf(["router", "system"]),
+          lookup: nullable(ref("DnsLookupResult")),
+          lookups: array(ref("DnsLookupResult")),
+          comparison: array(ref("ResolverResult"))
+        },
+        ["comparison"]
+      ),
+      speedtest: nullable(ref("SpeedTestResult")),
+      ipv4: ref("IpFamilyReport"),
+      ipv6: ref("IpFamilyReport"),
+      connectivity: ref("ConnectivityReport"),
+      probes: array(ref("ProbeResult")),
+      path: ref("PathReport"),
+      bufferbloat: ref("BufferbloatResult"),
+      diagnosis: ref("Diagnosis"),
+      assertions: ref("AssertionReport"),
+      meta: object<OutputData["meta"]>({
+        platform: string,
+        samples: integer,
+        dnsHost: string,
+        speedtest: boolean,
+        stages: object<Record<Stage, StageTiming>>(
+          Object.fromEntries(STAGES.map((stage) => [stage, ref("StageTiming")])) as Record<Stage, JsonSchema>,
+          [...STAGES]
+        )
+      })
+    },
+    ["connectivity", "probes", "path", "bufferbloat", "assertions"]
+  ),
+  $defs: DEFINITIONS
+};
+
+function typeOf(value: unknown): JsonType {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value as JsonType;
+}
+
+function matchesType(value: unknown, type: JsonType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+function resolveRef(root: JsonSchema, pointer: string): JsonSchema {
+  const name = pointer.replace(/^#\/\$defs\//, "");
+  const target = root.$defs?.[name];
+  if (!target) throw new Error(`Unknown schema reference: ${pointer}`);
+  return target;
+}
+
+export type ValidateOptions = {
+  // Report properties the schema doesn't declare. Consumers should ignore them; tests use this to catch drift.
+  strict?: boolean;
+};
+
+// Covers the keywords OUTPUT_SCHEMA uses; not a general-purpose JSON Schema validator.
+export function validateSchema(value: unknown, schema: JsonSchema = OUTPUT_SCHEMA, options: ValidateOptions = {}): string[] {
+  const visit = (current: unknown, node: JsonSchema, path: string, errors: string[]): void => {
+    if (node.$ref) {
+      visit(current, resolveRef(schema, node.$ref), path, errors);
+      return;
+    }
+    if (node.anyOf) {
+      const branches = node.anyOf.map((branch) => {
+        const branchErrors: string[] = [];
+        visit(current, branch, path, branchErrors);
+        return { branch, errors: branchErrors };
+      });
+      if (branches.some((branch) => branch.errors.length === 0)) return;
+      // Explain the branch the value plausibly meant (e.g. the object side of a nullable reference).
+      const candidate = branches.find(({ branch }) => !branch.type || [branch.type].flat().some((type) => matchesType(current, type)));
+      errors.push(...(candidate ?? branches[0]).errors);
+      return;
+    }
+    if (node.type) {
+      const types = [node.type].flat();
+      if (!types.some((type) => matchesType(current, type))) {
+        errors.push(`${path}: expected ${types.join(" or ")}, got ${typeOf(current)}`);
+        return;
+      }
+    }
+    if ("const" in node && current !== node.const) {
+      errors.push(`${path}: expected ${JSON.stringify(node.const)}, got ${JSON.stringify(current)}`);
+    }
+    if (node.enum && !node.enum.includes(current)) {
+      errors.push(`${path}: expected one of ${node.enum.map((entry) => JSON.stringify(entry)).join(", ")}, got ${JSON.stringify(current)}`);
+    }
+    if (typeof current === "number") {
+      if (node.minimum !== undefined && current < node.minimum) errors.push(`${path}: ${current} is below ${node.minimum}`);
+      if (node.maximum !== undefined && current > node.maximum) errors.push(`${path}: ${current} is above ${node.maximum}`);
+    }
+    if (Array.isArray(current) && node.items) {
+      const items = node.items;
+      current.forEach((item, index) => visit(item, items, `${path}[${index}]`, errors));
+    }
+    if (typeOf(current) === "object" && node.properties) {
+      const record = current as Record<string, unknown>;
+      for (const key of node.required ?? []) {
+        if (!(key in record)) errors.push(`${path}: missing required property "${key}"`);
+      }
+      for (const [key, child] of Object.entries(record)) {
+        const property = node.properties[key];
+        if (property) visit(child, property, `${path}.${key}`, errors);
+        else if (options.strict) errors.push(`${path}: unexpected property "${key}"`);
+      }
+    }
+  };
+
+  const errors: string[] = [];
+  visit(value, schema, "$", errors);
+  return errors;
+}
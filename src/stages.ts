@@ -0,0 +1,169 @@
+import { performance } from "node:perf_hooks";
+import { CONNECTIVITY_TIMEOUT_MS } from "./connectivity.js";
+import type { DnsTransport } from "./dns.js";
+import type { Logger } from "./logger.js";
+import { PROBE_SAMPLE_TIMEOUT_MS } from "./probes.js";
+import type { CommandRunner } from "./runner.js";
+
+export const STAGES = [
+  "wifi",
+  "gateway",
+  "dnsServers",
+  "router",
+  "internet",
+  "dns",
+  "resolvers",
+  "speedtest",
+  "ipv6",
+  "connectivity",
+  "probes",
+  "path",
+  "bufferbloat"
+] as const;
+
+export type Stage = (typeof STAGES)[number];
+
+export type StageError = "timeout" | "cancelled";
+
+export type StageTiming = {
+  durationMs: number;
+  error: StageError | null;
+};
+
+// Seconds per stage; stages left out use `defaultTimeouts`.
+export type Timeouts = Partial<Record<Stage, number>>;
+
+export type TimeoutBasis = {
+  samples: number;
+  maxHops: number;
+  dnsHosts: string[];
+  dnsQueries: number;
+};
+
+export type StageSettings = {
+  timeouts: Record<Stage, number>;
+  // Aborting cancels the running stages and every stage after them.
+  signal?: AbortSignal;
+  run: CommandRunner;
+  transport: DnsTransport;
+  log: Logger;
+};
+
+export type Stages = {
+  // Runs one collector against its own deadline. When the deadline passes or `signal` aborts, its
+  // commands are killed and `interrupted` supplies the result instead. In-process collectors get the
+  // stage's signal to stop on.
+  stage: <T>(
+    name: Stage,
+    collect: (run: CommandRunner, transport: DnsTransport, signal: AbortSignal) => Promise<T>,
+    interrupted: (error: StageError) => T
+  ) => Promise<T>;
+  timings: Partial<Record<Stage, StageTiming>>;
+};
+
+const ABORTED = Symbol("aborted");
+// dnsLookup's per-query timeout.
+const DNS_QUERY_SECONDS = 2;
+
+export function isStage(value: string): value is Stage {
+  return (STAGES as readonly string[]).includes(value);
+}
+
+// ping sends one probe a second, so everything that pings scales with the sample count.
+export function defaultTimeouts({ samples, maxHops, dnsHosts, dnsQueries }: TimeoutBasis): Record<Stage, number> {
+  const lookup = DNS_QUERY_SECONDS * dnsQueries;
+  return {
+    wifi: 15,
+    gateway: 5,
+    dnsServers: 5,
+    router: samples + 10,
+    internet: samples + 10,
+    dns: lookup + 5,
+    resolvers: lookup * dnsHosts.length + 5,
+    speedtest: 60,
+    ipv6: samples + 15,
+    // An A and an AAAA lookup, then the page fetch.
+    connectivity: 2 * DNS_QUERY_SECONDS + CONNECTIVITY_TIMEOUT_MS / 1000 + 5,
+    // Probe samples run back to back, each with its own deadline.
+    probes: (PROBE_SAMPLE_TIMEOUT_MS / 1000) * samples + 10,
+    // traceroute waits up to 2 s per hop before the per-hop pings start.
+    path: 2 * maxHops + samples + 15,
+    bufferbloat: 2 * samples + 30
+  };
+}
+
+export function resolveTimeouts(basis: TimeoutBasis, overrides: Timeouts = {}): Record<Stage, number> {
+  return { ...defaultTimeouts(basis), ...overrides };
+}
+
+// "20" sets every stage, "speedtest=90" one of them; comma-separated items apply left to right.
+export function parseTimeouts(raw: string): Timeouts {
+  const timeouts: Timeouts = {};
+  for (const item of raw.split(",").map((part) => part.trim())) {
+    const separator = item.indexOf("=");
+    const name = separator === -1 ? null : item.slice(0, separator).trim();
+    const value = separator === -1 ? item : item.slice(separator + 1).trim();
+    const seconds = Number(value);
+    if (!value || !Number.isFinite(seconds) || seconds <= 0) {
+      throw new Error(`Invalid timeout "${item}": expected seconds or <stage>=<seconds>`);
+    }
+    if (name === null) {
+      for (const stage of STAGES) timeouts[stage] = seconds;
+    } else if (isStage(name)) {
+      timeouts[name] = seconds;
+    } else {
+      throw new Error(`Unknown timeout stage "${name}"; valid stages: ${STAGES.join(", ")}`);
+    }
+  }
+  return timeouts;
+}
+
+export function createStages(settings: StageSettings): Stages {
+  const { signal, log } = settings;
+  const timings: Partial<Record<Stage, StageTiming>> = {};
+
+  const stage: Stages["stage"] = async (name, collect, interrupted) => {
+    if (signal?.aborted) {
+      timings[name] = { durationMs: 0, error: "cancelled" };
+      return interrupted("cancelled");
+    }
+
+    const timeoutMs = settings.timeouts[name] * 1000;
+    const deadline = AbortSignal.timeout(timeoutMs);
+    const stageSignal = signal ? AbortSignal.any([signal, deadline]) : deadline;
+    const startedAt = performance.now();
+    const elapsed = () => Math.round(performance.now() - startedAt);
+
+    let onAbort = () => {};
+    const aborted = new Promise<typeof ABORTED>((resolve) => {
+      onAbort = () => resolve(ABORTED);
+      stageSignal.addEventListener("abort", onAbort, { once: true });
+    });
+
+    const work = collect(
+      // A collector's own signal (a load it stops early, say) applies on top of the stage's.
+      (command, args, own) => settings.run(command, args, own ? AbortSignal.any([stageSignal, own]) : stageSignal),
+      (server, query, queryTimeoutMs) => settings.transport(server, query, queryTimeoutMs, stageSignal),
+      stageSignal
+    );
+    // Once the race is lost nobody awaits the collector any more; it winds down as its commands die.
+    work.catch(() => {});
+
+    try {
+      const result = await Promise.race([work, aborted]);
+      if (result !== ABORTED) {
+        timings[name] = { durationMs: elapsed(), error: null };
+        return result;
+      }
+    } finally {
+      stageSignal.removeEventListener("abort", onAbort);
+    }
+
+    const error: StageError = signal?.aborted ? "cancelled" : "timeout";
+    timings[name] = { durationMs: elapsed(), error };
+    log("error", `collect.stage.${error}`, { stage: name, timeoutMs, durationMs: timings[name]?.durationMs });
+    return interrupted(error);
+  };
+
+  return { stage, timings };
+}
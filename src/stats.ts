@@ -0,0 +1,28 @@
+export type Distribution = {
+  count: number;
+  min: number | null;
+  p50: number | null;
+  p95: number | null;
+  max: number | null;
+};
+
+export function percentile(values: number[], pct: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (pct / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  const value = sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+  return Math.round(value * 1000) / 1000;
+}
+
+export function distribution(values: Array<number | null | undefined>): Distribution {
+  const present = values.filter((value): value is number => typeof value === "number" && Number.isFinite(value));
+  return {
+    count: present.length,
+    min: present.length > 0 ? Math.min(...present) : null,
+    p50: percentile(present, 50),
+    p95: percentile(present, 95),
+    max: present.length > 0 ? Math.max(...present) : null
+  };
+}
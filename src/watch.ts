@@ -0,0 +1,164 @@
+import { setTimeout as sleep } from "node:timers/promises";
+import { FORMATTERS, type OutputFormat } from "./formatters.js";
+import { colorize, formatMetric, renderPretty } from "./render.js";
+import type { OutputData } from "./report.js";
+
+export type MetricStats = {
+  current: number | null;
+  min: number | null;
+  max: number | null;
+  avg: number | null;
+  count: number;
+};
+
+export type RoamEvent = {
+  timestamp: string;
+  from: { bssid: string | null; channel: number | null };
+  to: { bssid: string | null; channel: number | null };
+};
+
+export type WatchSession = {
+  startedAt: string;
+  runs: number;
+  signal: MetricStats;
+  routerPing: MetricStats;
+  internetPing: MetricStats;
+  roams: RoamEvent[];
+  last: { bssid: string | null; channel: number | null } | null;
+};
+
+export type WatchSettings = {
+  intervalSec: number;
+  format: OutputFormat;
+  colorEnabled: boolean;
+  header: boolean;
+  clearScreen: boolean;
+};
+
+function emptyStats(): MetricStats {
+  return { current: null, min: null, max: null, avg: null, count: 0 };
+}
+
+export function createWatchSession(now = new Date()): WatchSession {
+  return {
+    startedAt: now.toISOString(),
+    runs: 0,
+    signal: emptyStats(),
+    routerPing: emptyStats(),
+    internetPing: emptyStats(),
+    roams: [],
+    last: null
+  };
+}
+
+function updateStats(stats: MetricStats, value: number | null | undefined): MetricStats {
+  if (value === null || value === undefined) return { ...stats, current: null };
+  const count = stats.count + 1;
+  return {
+    current: value,
+    min: stats.min === null ? value : Math.min(stats.min, value),
+    max: stats.max === null ? value : Math.max(stats.max, value),
+    avg: ((stats.avg ?? 0) * stats.count + value) / count,
+    count
+  };
+}
+
+export function recordSample(session: WatchSession, output: OutputData): WatchSession {
+  const current = output.wifi ? { bssid: output.wifi.bssid, channel: output.wifi.channel } : null;
+  const roams = [...session.roams];
+
+  // A roam is a BSSID or channel change between two associated samples.
+  if (session.last && current && (current.bssid !== session.last.bssid || current.channel !== session.last.channel)) {
+    roams.push({ timestamp: output.timestamp, from: session.last, to: current });
+  }
+
+  return {
+    ...session,
+    runs: session.runs + 1,
+    signal: updateStats(session.signal, output.wifi?.signalDbm),
+    routerPing: updateStats(session.routerPing, output.router.ping?.avgMs),
+    internetPing: updateStats(session.internetPing, output.internet.ping?.avgMs),
+    roams,
+    last: current ?? session.last
+  };
+}
+
+function round(value: number | null): number | null {
+  return value === null ? null : Math.round(value * 10) / 10;
+}
+
+function formatStatsRow(label: string, stats: MetricStats, unit: string, colorEnabled: boolean): string {
+  const values = [stats.current, stats.min, stats.max, stats.avg].map((value) => round(value) ?? "n/a");
+  const [current, min, max, avg] = values.map((value) => colorize(colorEnabled, 36, String(value)));
+  return `  ${label}: ${current} ${unit} (min ${min} / max ${max} / avg ${avg})`;
+}
+
+export function renderWatchStats(session: WatchSession, colorEnabled: boolean): string {
+  const lines = [
+    "\nSession",
+    `  Runs: ${session.runs} since ${session.startedAt}`,
+    formatStatsRow("Signal", session.signal, "dBm", colorEnabled),
+    formatStatsRow("Router Ping", session.routerPing, "ms", colorEnabled),
+    formatStatsRow("Internet Ping", session.internetPing, "ms", colorEnabled),
+    formatMetric("Roams", session.roams.length, "", 33, colorEnabled)
+  ];
+  return `${lines.join("\n")}\n`;
+}
+
+export function renderWatchSummary(session: WatchSession, colorEnabled: boolean, now = new Date()): string {
+  const durationSec = Math.round((now.getTime() - Date.parse(session.startedAt)) / 1000);
+  const lines = [
+    `\n${colorize(colorEnabled, 1, "Watch Summary")}`,
+    `  Duration: ${durationSec} s`,
+    `  Runs: ${session.runs}`,
+    formatStatsRow("Signal", session.signal, "dBm", colorEnabled),
+    formatStatsRow("Router Ping", session.routerPing, "ms", colorEnabled),
+    formatStatsRow("Internet Ping", session.internetPing, "ms", colorEnabled),
+    formatMetric("Roams", session.roams.length, "", 33, colorEnabled)
+  ];
+
+  for (const roam of session.roams) {
+    const from = `${roam.from.bssid ?? "?"} ch ${roam.from.channel ?? "?"}`;
+    const to = `${roam.to.bssid ?? "?"} ch ${roam.to.channel ?? "?"}`;
+    lines.push(`    ${roam.timestamp}: ${from} -> ${to}`);
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+export async function runWatch(
+  // Gets the watch signal, so stopping the watch also stops the run in progress.
+  collect: (signal: AbortSignal) => Promise<OutputData>,
+  settings: WatchSettings,
+  signal: AbortSignal,
+  write: (text: string) => void,
+  onSample: (output: OutputData) => Promise<void> = async () => {}
+): Promise<WatchSession> {
+  let session = createWatchSession();
+
+  while (!signal.aborted) {
+    const output = await collect(signal);
+    // Stopping interrupts the run in progress; drop that partial run.
+    if (signal.aborted) break;
+
+    session = recordSample(session, output);
+    await onSample(output);
+
+    if (settings.format === "pretty") {
+      const screen = renderPretty(output, settings.colorEnabled) + renderWatchStats(session, settings.colorEnabled);
+      write(`${settings.clearScreen ? "\u001b[H\u001b[2J" : ""}${screen}`);
+    } else {
+      // Streamed formats append one record per run; a CSV header is only written once.
+      const header = settings.header && session.runs === 1;
+      write(FORMATTERS[settings.format](output, { colorEnabled: settings.colorEnabled, header, stream: true }));
+    }
+
+    try {
+      await sleep(settings.intervalSec * 1000, undefined, { signal });
+    } catch {
+      break;
+    }
+  }
+
+  return session;
+}
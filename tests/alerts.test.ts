@@ -0,0 +1,230 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { createServer, type IncomingMessage } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  checkAlertRules,
+  createAlerter,
+  evaluateAlerts,
+  toAlertRule,
+  toAlertTarget,
+  type AlertRule,
+  type AlertState
+} from "../src/alerts.js";
+import type { Logger } from "../src/logger.js";
+import type { DnsFailure } from "../src/dns.js";
+import type { OutputData } from "../src/report.js";
+import { replayedReport } from "./fixtures/report.js";
+
+const silent: Logger = () => {};
+const base = await replayedReport();
+
+function report(lossPct: number | null, failure: DnsFailure | null = null): OutputData {
+  const ping = base.internet.ping && { ...base.internet.ping, lossPct };
+  const lookup = base.dns.lookup && { ...base.dns.lookup, failure, error: failure };
+  return {
+    ...base,
+    timestamp: "2026-10-18T09:00:00.000Z",
+    internet: { ...base.internet, ping },
+    dns: { ...base.dns, lookup }
+  };
+}
+
+const loss: AlertRule = { name: "loss", when: "internet.ping.lossPct>5", targets: [], cooldown: null };
+const at = (minutes: number) => new Date(Date.parse("2026-10-18T09:00:00.000Z") + minutes * 60_000);
+
+// Runs a series of (lossPct, minute) samples through the rule and returns the events per sample.
+function series(samples: Array<[number | null, number]>, cooldown = 900): string[][] {
+  let state: AlertState = {};
+  return samples.map(([lossPct, minute]) => {
+    const result = evaluateAlerts(report(lossPct), [loss], state, cooldown, at(minute));
+    state = result.state;
+    return result.events.map((event) => event.event);
+  });
+}
+
+describe("alerts", () => {
+  it("fires once, repeats after the cooldown and recovers", () => {
+    expect(
+      series([
+        [0, 0],
+        [12, 1],
+        [20, 2],
+        [15, 17],
+        [0, 18],
+        [0, 19]
+      ])
+    ).toEqual([[], ["triggered"], [], ["triggered"], ["recovered"], []]);
+  });
+
+  it("keeps a flapping link quiet inside the cooldown", () => {
+    expect(
+      series([
+        [12, 0],
+        [0, 1],
+        [12, 2],
+        [0, 3],
+        [12, 16]
+      ])
+    ).toEqual([["triggered"], ["recovered"], [], [], ["triggered"]]);
+  });
+
+  it("keeps the previous state when a value wasn't collected", () => {
+    expect(
+      series([
+        [12, 0],
+        [null, 1],
+        [0, 2]
+      ])
+    ).toEqual([["triggered"], [], ["recovered"]]);
+  });
+
+  it("describes the event with the value and when it started", () => {
+    const first = evaluateAlerts(report(12), [{ ...loss, cooldown: 60 }], {}, 900, at(0));
+    expect(first.events).toEqual([
+      {
+        event: "triggered",
+        rule: "loss",
+        when: "internet.ping.lossPct>5",
+        value: 12,
+        since: "2026-10-18T09:00:00.000Z",
+        timestamp: "2026-10-18T09:00:00.000Z",
+        text: 'wifi-stats ALERT on OfficeNet: "loss" (internet.ping.lossPct>5), value 12'
+      }
+    ]);
+
+    // The rule's own cooldown wins over the shared one.
+    const repeat = evaluateAlerts(report(30), [{ ...loss, cooldown: 60 }], first.state, 900, at(2));
+    expect(repeat.events[0]).toMatchObject({ event: "triggered", value: 30, since: "2026-10-18T09:00:00.000Z" });
+  });
+
+  it("alerts on DNS failures through an explicit null", () => {
+    const rule = toAlertRule("dns.lookup.failure!=null") as AlertRule;
+    const failed = evaluateAlerts(report(0, "timeout"), [rule], {}, 900, at(0));
+    expect(failed.events.map((event) => [event.event, event.value])).toEqual([["triggered", "timeout"]]);
+    expect(evaluateAlerts(report(0), [rule], failed.state, 900, at(1)).events[0]?.event).toBe("recovered");
+  });
+
+  it("accepts rules and targets in their config shapes", () => {
+    expect(toAlertRule({ when: "wifi.signalDbm<-75", targets: [{ command: "logger" }] })).toEqual({
+      name: "wifi.signalDbm<-75",
+      when: "wifi.signalDbm<-75",
+      targets: [{ command: "logger" }],
+      cooldown: null
+    });
+    expect(toAlertRule({ when: "x>1", cooldown: 0 })).toBeNull();
+    expect(toAlertRule({ when: "x>1", to: [] })).toBeNull();
+    expect(toAlertTarget("https://hooks.example.com/T1")).toEqual({ webhook: "https://hooks.example.com/T1", preset: "json" });
+    expect(toAlertTarget({ webhook: "https://hooks.slack.com/T1", preset: "slack" })).toMatchObject({ preset: "slack" });
+    expect(toAlertTarget({ webhook: "https://hooks.slack.com/T1", preset: "teams" })).toBeNull();
+    expect(toAlertTarget({ webhook: "ftp://x", command: "x" })).toBeNull();
+    expect(toAlertTarget("http://[x")).toBeNull();
+    expect(toAlertTarget({ webhook: "https://[x", preset: "slack" })).toBeNull();
+  });
+
+  it("rejects rules that cannot notify anyone", () => {
+    expect(() => checkAlertRules([loss], [])).toThrow('Alert rule "loss" has nowhere to go');
+    expect(() => checkAlertRules([loss, loss], [{ command: "true" }])).toThrow('Duplicate alert rule "loss"');
+    expect(() => checkAlertRules([{ ...loss, when: "loss>" }], [{ command: "true" }])).toThrow(/^Invalid assertion "loss>"/);
+  });
+});
+
+describe("alert delivery", () => {
+  let dir: string;
+  let url: string;
+  let close: () => Promise<void>;
+  let received: Array<{ path: string; body: unknown }>;
+  let status: number;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "wifi-stats-alerts-"));
+    received = [];
+    status = 200;
+    const server = createServer(async (request: IncomingMessage, response) => {
+      let raw = "";
+      for await (const chunk of request) raw += chunk;
+      received.push({ path: request.url ?? "", body: JSON.parse(raw) });
+      response.writeHead(status).end("ok");
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    close = () => new Promise((resolve) => server.close(() => resolve()));
+  });
+
+  afterEach(async () => {
+    await close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("posts JSON and Slack payloads and dedupes across runs through the state file", async () => {
+    const settings = {
+      rules: [loss],
+      targets: [
+        { webhook: `${url}/json`, preset: "json" as const },
+        { webhook: `${url}/slack`, preset: "slack" as const }
+      ],
+      cooldown: 900,
+      stateFile: path.join(dir, "state", "alerts.json")
+    };
+
+    const deliveries = await createAlerter(settings, silent)(report(12));
+    expect(deliveries.map((delivery) => [delivery.target, delivery.error])).toEqual([
+      [`json webhook ${new URL(url).host}`, null],
+      [`slack webhook ${new URL(url).host}`, null]
+    ]);
+    expect(received).toEqual([
+      {
+        path: "/json",
+        body: expect.objectContaining({ event: "triggered", rule: "loss", value: 12, report: report(12) })
+      },
+      { path: "/slack", body: { text: 'wifi-stats ALERT on OfficeNet: "loss" (internet.ping.lossPct>5), value 12' } }
+    ]);
+
+    // A fresh alerter, as the next scheduled run would create, reads the state back.
+    expect(await createAlerter(settings, silent)(report(20))).toEqual([]);
+    expect(await createAlerter(settings, silent)(report(0))).toHaveLength(2);
+    expect(received.slice(2).map((request) => (request.body as { event?: string; text?: string }).event ?? request.body)).toEqual([
+      "recovered",
+      { text: 'wifi-stats RECOVERED on OfficeNet: "loss" (internet.ping.lossPct>5), value 0' }
+    ]);
+  });
+
+  it("reports failed deliveries without throwing", async () => {
+    status = 500;
+    const events: string[] = [];
+    const logger: Logger = (_level, message) => events.push(message);
+    const alert = createAlerter(
+      { rules: [loss], targets: [{ webhook: `${url}/hook`, preset: "json" }], cooldown: 900, stateFile: path.join(dir, "alerts.json") },
+      logger
+    );
+
+    expect(await alert(report(12))).toEqual([
+      { rule: "loss", event: "triggered", target: `json webhook ${new URL(url).host}`, error: "HTTP 500" }
+    ]);
+    expect(events).toEqual(["alerts.delivery.failed"]);
+
+    // Nothing arrived, so the next report retries instead of waiting out the cooldown.
+    status = 200;
+    expect(await alert(report(12))).toEqual([
+      { rule: "loss", event: "triggered", target: `json webhook ${new URL(url).host}`, error: null }
+    ]);
+    expect(await alert(report(15))).toEqual([]);
+    expect(received).toHaveLength(2);
+  });
+
+  it("hands the report to a command on stdin", async () => {
+    const out = path.join(dir, "report.json");
+    const rule: AlertRule = { ...loss, targets: [{ command: `cat > "${out}"; echo "$WIFI_STATS_ALERT_EVENT" > "${out}.event"` }] };
+    const alert = createAlerter({ rules: [rule], targets: [], cooldown: 900, stateFile: path.join(dir, "alerts.json") }, silent);
+
+    expect(await alert(report(12))).toMatchObject([{ target: "command", error: null }]);
+    expect(JSON.parse(await readFile(out, "utf8"))).toEqual(report(12));
+    expect(await readFile(`${out}.event`, "utf8")).toBe("triggered\n");
+
+    const failingRule: AlertRule = { ...loss, targets: [{ command: "echo nope >&2; exit 3" }] };
+    const failing = createAlerter({ rules: [failingRule], targets: [], cooldown: 900, stateFile: path.join(dir, "other.json") }, silent);
+    expect(await failing(report(12))).toMatchObject([{ target: "command", error: "nope" }]);
+  });
+});
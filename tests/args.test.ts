@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+import { editDistance, parseCommandArgs, renderHelp, suggest } from "../src/args.js";
+import { CONFIG_COMMAND, HISTORY_COMMAND, PING_COMMAND, ROOT_COMMAND, SERVE_COMMAND, collectArgs, historyOptions, serveArgs } from "../src/commands.js";
+
+describe("parseCommandArgs", () => {
+  it("accepts --flag=value and separate values", () => {
+    const args = collectArgs();
+    const parsed = parseCommandArgs(ROOT_COMMAND, ["--samples=4", "--internet-host", "1.1.1.1,8.8.8.8", "--format=csv"], args);
+
+    expect(parsed.errors).toEqual([]);
+    expect(args.options).toMatchObject({ samples: 4, internetHosts: ["1.1.1.1", "8.8.8.8"], format: "csv" });
+    expect([...args.explicit].sort()).toEqual(["format", "internetHosts", "samples"]);
+  });
+
+  it("replaces the default list on first use and appends afterwards", () => {
+    const args = collectArgs();
+    parseCommandArgs(ROOT_COMMAND, ["--dns-host", "apple.com", "--dns-host=example.com", "--resolver", "9.9.9.9"], args);
+
+    expect(args.options.dnsHosts).toEqual(["apple.com", "example.com"]);
+    expect(args.options.resolvers).toEqual(["9.9.9.9"]);
+    expect(args.options.compareResolvers).toBe(true);
+  });
+
+  it("normalizes DNS record types and suggests fixes for typos", () => {
+    const args = collectArgs();
+    expect(parseCommandArgs(ROOT_COMMAND, ["--dns-type", "aaaa,https", "--dns-type=A"], args).errors).toEqual([]);
+    expect(args.options.dnsTypes).toEqual(["AAAA", "HTTPS", "A"]);
+
+    expect(parseCommandArgs(ROOT_COMMAND, ["--dns-type", "AAA"], collectArgs()).errors).toEqual([
+      "--dns-type must be one of: A, AAAA, HTTPS (did you mean AAAA?)"
+    ]);
+  });
+
+  it("rejects missing values instead of using empty strings", () => {
+    const args = collectArgs();
+    const parsed = parseCommandArgs(ROOT_COMMAND, ["--internet-host", "--json", "--dns-host=", "--router-host"], args);
+
+    expect(parsed.errors).toEqual(["--internet-host requires a value", "--dns-host requires a value", "--router-host requires a value"]);
+    expect(args.options.json).toBe(true);
+    expect(args.options.internetHosts).toEqual(["1.1.1.1"]);
+  });
+
+  it("validates typed values and choices", () => {
+    const parsed = parseCommandArgs(
+      ROOT_COMMAND,
+      [
+        "--samples",
+        "two",
+        "--max-hops=300",
+        "--interval",
+        "0",
+        "--format",
+        "jsno",
+        "--load",
+        "ftp:x",
+        "--connectivity-url",
+        "captive.apple.com",
+        "--json=yes"
+      ],
+      collectArgs()
+    );
+
+    expect(parsed.errors).toEqual([
+      "--samples must be a positive integer",
+      "--max-hops must be an integer between 1 and 255",
+      "--interval must be a positive number of seconds",
+      "--format must be one of: json, pretty, csv, markdown, html (did you mean json?)",
+      'Invalid load "ftp:x": expected networkquality, download:<url> or upload:<url>',
+      'Invalid connectivity URL "captive.apple.com": expected an http:// or https:// URL',
+      "--json does not take a value"
+    ]);
+  });
+
+  it("merges --timeout values per stage", () => {
+    const args = collectArgs();
+    expect(parseCommandArgs(ROOT_COMMAND, ["--timeout", "30", "--timeout=speedtest=90"], args).errors).toEqual([]);
+    expect(args.options.timeouts).toMatchObject({ wifi: 30, internet: 30, speedtest: 90 });
+
+    expect(parseCommandArgs(ROOT_COMMAND, ["--timeout", "ping=5"], collectArgs()).errors[0]).toMatch(/^Unknown timeout stage "ping"/);
+  });
+
+  it("collects --alert rules and their targets", () => {
+    const args = collectArgs();
+    const argv = ["--alert", "internet.ping.lossPct>5", "--alert-slack", "https://hooks.slack.com/T1", "--alert-command", "logger -t wifi"];
+    expect(parseCommandArgs(ROOT_COMMAND, [...argv, "--alert-cooldown", "600"], args).errors).toEqual([]);
+    expect(args.options).toMatchObject({
+      alerts: [{ name: "internet.ping.lossPct>5", when: "internet.ping.lossPct>5", targets: [], cooldown: null }],
+      alertTargets: [{ webhook: "https://hooks.slack.com/T1", preset: "slack" }, { command: "logger -t wifi" }],
+      alertCooldown: 600
+    });
+
+    expect(parseCommandArgs(ROOT_COMMAND, ["--alert", "loss", "--alert-webhook", "hooks.example.com"], collectArgs()).errors).toEqual([
+      '--alert: Invalid assertion "loss": expected <path><op><value>, e.g. router.ping.avgMs<15',
+      "--alert-webhook must be an http(s) URL"
+    ]);
+  });
+
+  it("suggests close matches for unknown flags and reports stray arguments", () => {
+    const parsed = parseCommandArgs(ROOT_COMMAND, ["--sampels", "3", "--speedtset", "--bogus"], collectArgs());
+
+    expect(parsed.errors).toEqual([
+      "Unknown option: --sampels (did you mean --samples?)",
+      "Unknown option: --speedtset (did you mean --speedtest?)",
+      "Unknown option: --bogus",
+      "Unexpected argument: 3"
+    ]);
+  });
+
+  it("checks positionals per command", () => {
+    expect(parseCommandArgs(PING_COMMAND, [], collectArgs()).errors).toEqual(["Missing argument <host>"]);
+    expect(parseCommandArgs(PING_COMMAND, ["1.1.1.1", "--samples", "3"], collectArgs())).toEqual({
+      positionals: ["1.1.1.1"],
+      help: false,
+      errors: []
+    });
+    expect(parseCommandArgs(PING_COMMAND, ["1.1.1.1", "8.8.8.8"], collectArgs()).errors).toEqual(["Unexpected argument: 8.8.8.8"]);
+    expect(parseCommandArgs(PING_COMMAND, ["1.1.1.1", "--path"], collectArgs()).errors).toEqual(["Unknown option: --path"]);
+
+    const serve = serveArgs();
+    expect(parseCommandArgs(SERVE_COMMAND, ["--dns-type", "AAAA", "--dns-queries=5"], serve).errors).toEqual([]);
+    expect(serve.options).toMatchObject({ dnsTypes: ["AAAA"], dnsQueries: 5 });
+    expect(parseCommandArgs(CONFIG_COMMAND, ["shwo"], collectArgs()).errors).toEqual([
+      "<action> must be one of: show (did you mean show?)"
+    ]);
+  });
+
+  it("parses history options into their own type", () => {
+    const options = historyOptions();
+    const parsed = parseCommandArgs(HISTORY_COMMAND, ["--since=24h", "--group-by", "ap", "--json", "--until", "soon"], options);
+
+    expect(parsed.errors).toEqual(["--until must be an ISO date or a relative time like 24h"]);
+    expect(options.groupBy).toBe("ap");
+    expect(options.json).toBe(true);
+    expect(options.filter.since).toBeInstanceOf(Date);
+  });
+
+  it("flags help without failing on other arguments", () => {
+    expect(parseCommandArgs(PING_COMMAND, ["--help"], collectArgs())).toMatchObject({ help: true });
+  });
+});
+
+describe("suggest", () => {
+  it("counts swapped neighbours as one edit", () => {
+    expect(editDistance("pign", "ping")).toBe(1);
+    expect(editDistance("kitten", "sitting")).toBe(3);
+  });
+
+  it("picks the closest candidate or a unique prefix", () => {
+    expect(suggest("pign", ["wifi", "ping", "path"])).toBe("ping");
+    expect(suggest("--internet", ["--internet-host", "--interval"])).toBe("--internet-host");
+    expect(suggest("zzz", ["wifi", "ping"])).toBeNull();
+  });
+});
+
+describe("renderHelp", () => {
+  it("lists positionals, flags and the footer", () => {
+    const help = renderHelp("wifi-stats", PING_COMMAND);
+
+    expect(help).toContain("wifi-stats ping - latency, jitter and loss to one host");
+    expect(help).toContain("  wifi-stats ping <host> [options]");
+    expect(help).toMatch(/^ {2}--samples <n> +Ping samples \(default: 12\)$/m);
+    expect(help).toMatch(/^ {2}-h, --help +Show help$/m);
+    expect(renderHelp("wifi-stats", ROOT_COMMAND)).toMatch(/^ {2}completion +print a shell completion script$/m);
+  });
+});
@@ -0,0 +1,70 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { evaluateAssertions, loadAssertionFile, parseAssertion } from "../src/assertions.js";
+
+const output = {
+  wifi: { ssid: "OfficeNet", signalDbm: -61, band: "5 GHz" },
+  router: { ping: { avgMs: 12.4, lossPct: 0 } },
+  internet: { ping: { avgMs: null, lossPct: 100 } }
+};
+
+describe("assertions", () => {
+  it("parses comparison expressions", () => {
+    expect(parseAssertion("router.ping.avgMs<15")).toEqual({
+      expression: "router.ping.avgMs<15",
+      path: "router.ping.avgMs",
+      operator: "<",
+      expected: 15
+    });
+    expect(parseAssertion(" wifi.signalDbm >= -67 ").expected).toBe(-67);
+    expect(parseAssertion('wifi.band=="5 GHz"').expected).toBe("5 GHz");
+    expect(parseAssertion("wifi.ssid!=null").expected).toBeNull();
+  });
+
+  it("rejects malformed expressions", () => {
+    expect(() => parseAssertion("router.ping.avgMs")).toThrow(/expected <path><op><value>/);
+    expect(() => parseAssertion("wifi.band>fast")).toThrow(/needs a numeric value/);
+  });
+
+  it("evaluates assertions against output paths", () => {
+    const report = evaluateAssertions(
+      output,
+      ["router.ping.avgMs<15", "wifi.signalDbm>-60", "internet.ping.lossPct==0", "internet.ping.avgMs<50", "dns.lookup.lookupMs<20"].map(
+        parseAssertion
+      )
+    );
+
+    expect(report.passed).toBe(1);
+    expect(report.failed).toBe(4);
+    expect(report.results.map((result) => [result.passed, result.actual, result.reason])).toEqual([
+      [true, 12.4, null],
+      [false, -61, null],
+      [false, 100, null],
+      [false, null, "internet.ping.avgMs was not collected"],
+      [false, null, "no value at dns.lookup.lookupMs"]
+    ]);
+  });
+
+  it("loads rules from text and JSON files", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "wifi-stats-assert-"));
+    try {
+      const textFile = path.join(dir, "office.rules");
+      await writeFile(
+        textFile,
+        "# office baseline\nrouter.ping.avgMs<15\n\nwifi.signalDbm>-67  # roaming threshold\nwifi.ssid!=Guest#2\t# not the guest network\n"
+      );
+      expect(await loadAssertionFile(textFile)).toEqual(["router.ping.avgMs<15", "wifi.signalDbm>-67", "wifi.ssid!=Guest#2"]);
+
+      const jsonFile = path.join(dir, "rules.json");
+      await writeFile(jsonFile, JSON.stringify(["internet.ping.lossPct==0"]));
+      expect(await loadAssertionFile(jsonFile)).toEqual(["internet.ping.lossPct==0"]);
+
+      await writeFile(jsonFile, JSON.stringify({ rules: [] }));
+      await expect(loadAssertionFile(jsonFile)).rejects.toThrow(/JSON array/);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,200 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  gradeBufferbloat,
+  httpDownloadLoad,
+  httpUploadLoad,
+  measureBufferbloat,
+  parseLoadSpec,
+  speedTestLoad,
+  type LoadGenerator
+} from "../src/bufferbloat.js";
+import type { Logger } from "../src/logger.js";
+import { darwinBackend } from "../src/platform.js";
+import { runCommand, type CommandRunner } from "../src/runner.js";
+
+const silent: Logger = () => {};
+
+function pingOutput(avgMs: number, lossPct = 0): string {
+  return [
+    `4 packets transmitted, ${4 - lossPct / 25} packets received, ${lossPct}.0% packet loss`,
+    `round-trip min/avg/max/stddev = ${avgMs - 1}/${avgMs}/${avgMs + 1}/0.500 ms`
+  ].join("\n");
+}
+
+// Pings taken while the stub load is running come back slower. Each run takes a little wall time
+// so real loads get to start before they are aborted.
+function pingRunner(idleMs: number, loadedMs: number, isLoaded: () => boolean): CommandRunner {
+  return async () => {
+    const stdout = pingOutput(isLoaded() ? loadedMs : idleMs);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    return { stdout, stderr: "", error: null };
+  };
+}
+
+describe("bufferbloat", () => {
+  let server: Server;
+  let baseUrl: string;
+  let uploaded = 0;
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      if (request.method === "POST") {
+        request.on("data", (chunk: Buffer) => {
+          uploaded += chunk.length;
+        });
+        request.on("end", () => response.end("ok"));
+        return;
+      }
+      if (request.url === "/missing") {
+        response.writeHead(404).end();
+        return;
+      }
+      response.end(Buffer.alloc(256 * 1024));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it("parses load specs", () => {
+    expect(parseLoadSpec("networkquality")).toEqual({ kind: "networkquality" });
+    expect(parseLoadSpec("download:http://127.0.0.1:8080/blob")).toEqual({ kind: "download", url: "http://127.0.0.1:8080/blob" });
+    expect(() => parseLoadSpec("upload:not a url")).toThrow(/expected networkquality, download:<url> or upload:<url>/);
+    expect(() => parseLoadSpec("iperf")).toThrow(/Invalid load "iperf"/);
+  });
+
+  it("grades the latency increase", () => {
+    expect(gradeBufferbloat(3, 0)).toBe("A+");
+    expect(gradeBufferbloat(45, 0)).toBe("B");
+    expect(gradeBufferbloat(450, 0)).toBe("F");
+    expect(gradeBufferbloat(2, 100)).toBe("F");
+    expect(gradeBufferbloat(null, 50)).toBeNull();
+  });
+
+  it("compares idle and loaded latency around a pluggable load", async () => {
+    let running = false;
+    const load: LoadGenerator = {
+      name: "stub",
+      run: async (signal) => {
+        running = true;
+        await new Promise((resolve) => signal.addEventListener("abort", resolve, { once: true }));
+        running = false;
+        return { source: "stub", bytes: 1000, durationMs: 10, throughputMbps: 0.8, error: null };
+      }
+    };
+
+    const result = await measureBufferbloat(
+      { target: "1.1.1.1", samples: 4, warmupMs: 0 },
+      load,
+      silent,
+      pingRunner(12, 58.5, () => running)
+    );
+
+    expect(result).toMatchObject({ target: "1.1.1.1", increaseMs: 46.5, grade: "B", error: null });
+    expect(result.idle.avgMs).toBe(12);
+    expect(result.loaded.avgMs).toBe(58.5);
+    expect(running).toBe(false);
+  });
+
+  it("downloads from a local HTTP server until aborted", async () => {
+    const controller = new AbortController();
+    const pending = httpDownloadLoad(`${baseUrl}/blob`).run(controller.signal);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    controller.abort();
+
+    const summary = await pending;
+    expect(summary.error).toBeNull();
+    expect(summary.bytes).toBeGreaterThanOrEqual(256 * 1024);
+    expect(summary.throughputMbps).toBeGreaterThan(0);
+  });
+
+  it("uploads to a local HTTP server until aborted", async () => {
+    uploaded = 0;
+    const controller = new AbortController();
+    const pending = httpUploadLoad(`${baseUrl}/sink`).run(controller.signal);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    controller.abort();
+
+    const summary = await pending;
+    expect(summary.error).toBeNull();
+    expect(summary.bytes).toBeGreaterThan(0);
+    await expect.poll(() => uploaded).toBeGreaterThan(0);
+  });
+
+  it("stops networkQuality as soon as the loaded pings are done", async () => {
+    let loading = false;
+    const pings = pingRunner(12, 40, () => loading);
+    // networkQuality stands in as a long sleep that only ends when it is killed.
+    const run: CommandRunner = (command, args, signal) => {
+      if (command !== "networkQuality") return pings(command, args, signal);
+      loading = true;
+      return runCommand("sleep", ["10"], signal);
+    };
+
+    const startedAt = Date.now();
+    const result = await measureBufferbloat(
+      { target: "1.1.1.1", samples: 4, warmupMs: 0 },
+      speedTestLoad(darwinBackend, silent, run),
+      silent,
+      run
+    );
+
+    expect(Date.now() - startedAt).toBeLessThan(5000);
+    expect(result).toMatchObject({ increaseMs: 28, grade: "A", error: null, load: { source: "networkquality", error: null } });
+  });
+
+  it("reports load failures without a grade", async () => {
+    const result = await measureBufferbloat(
+      { target: "1.1.1.1", samples: 4, warmupMs: 0 },
+      httpDownloadLoad(`${baseUrl}/missing`),
+      silent,
+      pingRunner(12, 12, () => false)
+    );
+
+    expect(result).toMatchObject({ grade: null, error: `HTTP 404 from ${baseUrl}/missing` });
+  });
+
+  it("doesn't grade pings taken after the load stopped on its own", async () => {
+    const load: LoadGenerator = {
+      name: "stub",
+      run: async () => ({ source: "stub", bytes: 1000, durationMs: 10, throughputMbps: 0.8, error: null })
+    };
+
+    const result = await measureBufferbloat(
+      { target: "1.1.1.1", samples: 4, warmupMs: 0 },
+      load,
+      silent,
+      pingRunner(12, 12, () => false)
+    );
+
+    expect(result).toMatchObject({
+      increaseMs: 0,
+      grade: null,
+      error: "load stub ended after 10 ms, before the loaded pings finished"
+    });
+  });
+
+  it("reports a failed loaded ping instead of an empty grade", async () => {
+    let running = false;
+    const load: LoadGenerator = {
+      name: "stub",
+      run: async (signal) => {
+        running = true;
+        await new Promise((resolve) => signal.addEventListener("abort", resolve, { once: true }));
+        return { source: "stub", bytes: 1000, durationMs: 10, throughputMbps: 0.8, error: null };
+      }
+    };
+    const idle = pingRunner(12, 12, () => false);
+    const run: CommandRunner = async (command, args, signal) =>
+      running ? { stdout: "", stderr: "ping: sendto: No buffer space available", error: new Error("exit 2") } : idle(command, args, signal);
+
+    const result = await measureBufferbloat({ target: "1.1.1.1", samples: 4, warmupMs: 0 }, load, silent, run);
+
+    expect(result).toMatchObject({ increaseMs: null, grade: null, error: "ping: sendto: No buffer space available" });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { speedTestError } from "../src/collector.js";
+import { compareSnapshots, parseSnapshots, renderComparison } from "../src/compare.js";
+import type { OutputData } from "../src/report.js";
+import { replayedReport } from "./fixtures/report.js";
+
+const base = await replayedReport();
+
+function snapshot(timestamp: string, signalDbm: number, routerMs: number, downloadMbps: number | null): OutputData {
+  const wifi = base.wifi && { ...base.wifi, signalDbm };
+  const ping = base.router.ping && { ...base.router.ping, avgMs: routerMs };
+  const speedtest = downloadMbps === null ? null : { ...speedTestError("unused"), downloadMbps, uploadMbps: 20, error: null };
+  return {
+    ...base,
+    timestamp,
+    wifi,
+    router: { ...base.router, ping },
+    speedtest,
+    meta: { ...base.meta, speedtest: downloadMbps !== null }
+  };
+}
+
+function row(comparison: ReturnType<typeof compareSnapshots>, metric: string) {
+  return comparison.rows.find((entry) => entry.metric === metric);
+}
+
+describe("parseSnapshots", () => {
+  it("accepts a single document and NDJSON series", () => {
+    const first = snapshot("2026-10-18T09:00:00.000Z", -55, 4, null);
+    const second = snapshot("2026-10-18T09:05:00.000Z", -60, 5, null);
+
+    expect(parseSnapshots(JSON.stringify(first, null, 2), "one.json")).toHaveLength(1);
+    expect(parseSnapshots(`${JSON.stringify(first)}\n\n${JSON.stringify(second)}\n`, "series.ndjson")).toHaveLength(2);
+  });
+
+  it("reports unusable input with the file name", () => {
+    expect(() => parseSnapshots("{}\nnot json\n", "bad.ndjson")).toThrow("bad.ndjson: line 2 is not valid JSON");
+    expect(() => parseSnapshots("  \n", "empty.json")).toThrow("empty.json: no results found");
+    expect(() => parseSnapshots('{"ssid":"x"}', "other.json")).toThrow("other.json: document is not a wifi-stats --json result");
+  });
+});
+
+describe("compareSnapshots", () => {
+  it("classifies changes by direction and threshold", () => {
+    const comparison = compareSnapshots(
+      { file: "before.json", outputs: [snapshot("2026-10-18T09:00:00.000Z", -55, 4, 100)] },
+      { file: "after.json", outputs: [snapshot("2026-10-18T10:00:00.000Z", -70, 4.5, 150)] }
+    );
+
+    expect(row(comparison, "wifi.signalDbm")).toMatchObject({ delta: -15, deltaPct: null, change: "worse" });
+    expect(row(comparison, "wifi.snrDb")).toMatchObject({ before: 37, after: 22, change: "worse" });
+    expect(row(comparison, "speedtest.downloadMbps")).toMatchObject({ delta: 50, deltaPct: 50, change: "better" });
+    // 0.5 ms is 12.5% of the router ping but below the 1 ms floor.
+    expect(row(comparison, "router.ping.avgMs")).toMatchObject({ delta: 0.5, change: "unchanged" });
+  });
+
+  it("ignores the relative threshold for dB metrics and respects a custom one elsewhere", () => {
+    const before = { file: "before.json", outputs: [snapshot("2026-10-18T09:00:00.000Z", -50, 20, 100)] };
+    const after = { file: "after.json", outputs: [snapshot("2026-10-18T10:00:00.000Z", -54, 23, 100)] };
+
+    expect(row(compareSnapshots(before, after, 10), "router.ping.avgMs")?.change).toBe("worse");
+    expect(row(compareSnapshots(before, after, 20), "router.ping.avgMs")?.change).toBe("unchanged");
+    expect(row(compareSnapshots(before, after, 20), "wifi.signalDbm")?.change).toBe("worse");
+  });
+
+  it("uses the median of a series and marks missing metrics as n/a", () => {
+    const comparison = compareSnapshots(
+      {
+        file: "before.ndjson",
+        outputs: [
+          snapshot("2026-10-18T09:10:00.000Z", -55, 4, null),
+          snapshot("2026-10-18T09:00:00.000Z", -55, 40, null),
+          snapshot("2026-10-18T09:05:00.000Z", -55, 5, null)
+        ]
+      },
+      { file: "after.json", outputs: [snapshot("2026-10-18T10:00:00.000Z", -55, 5, 90)] }
+    );
+
+    expect(comparison.before).toEqual({
+      file: "before.ndjson",
+      runs: 3,
+      firstTimestamp: "2026-10-18T09:00:00.000Z",
+      lastTimestamp: "2026-10-18T09:10:00.000Z"
+    });
+    expect(row(comparison, "router.ping.avgMs")).toMatchObject({ before: 5, after: 5, change: "unchanged" });
+    expect(row(comparison, "speedtest.downloadMbps")).toMatchObject({ before: null, after: 90, delta: null, change: "n/a" });
+  });
+});
+
+describe("renderComparison", () => {
+  it("renders a table with a summary line", () => {
+    const comparison = compareSnapshots(
+      { file: "before.json", outputs: [snapshot("2026-10-18T09:00:00.000Z", -55, 4, 100)] },
+      { file: "after.json", outputs: [snapshot("2026-10-18T10:00:00.000Z", -70, 4, 150)] }
+    );
+    const text = renderComparison(comparison, false);
+
+    expect(text).toContain("Before: before.json (2026-10-18T09:00:00.000Z)");
+    expect(text).toMatch(/Signal\s+-55 dBm\s+-70 dBm\s+-15 dBm\s+worse/);
+    expect(text).toMatch(/Download\s+100 Mbps\s+150 Mbps\s+\+50 Mbps \(\+50%\)\s+better/);
+    expect(text).toContain("1 better, 2 worse (changes under 10%, or 3 dB for signal metrics, are treated as noise)");
+    expect(text).not.toContain("\u001b[");
+  });
+});
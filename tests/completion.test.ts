@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { ROOT_COMMAND, SUBCOMMANDS } from "../src/commands.js";
+import { renderCompletion } from "../src/completion.js";
+
+describe("renderCompletion", () => {
+  it("generates bash completion with subcommands, per-command flags and value choices", () => {
+    const script = renderCompletion("bash", "wifi-stats", ROOT_COMMAND, SUBCOMMANDS);
+
+    expect(script).toContain("complete -F _wifi_stats wifi-stats");
+    expect(script).toContain("wifi|ping|dns|speedtest|path|scan|compare|history|serve|config|schema|completion) command=");
+    expect(script).toContain('--format) COMPREPLY=( $(compgen -W "json pretty csv markdown html" -- "$cur") ); return ;;');
+    expect(script).toContain('--assert-file) COMPREPLY=( $(compgen -f -- "$cur") ); return ;;');
+    expect(script).toMatch(/^ {4}ping\) words="--samples --timeout --json --pretty --no-color --record --replay --config --profile --help" ;;$/m);
+    expect(script).toMatch(/^ {4}completion\) words="bash zsh fish --help" ;;$/m);
+  });
+
+  it("generates zsh completion with described subcommands and _arguments specs", () => {
+    const script = renderCompletion("zsh", "wifi-stats", ROOT_COMMAND, SUBCOMMANDS);
+
+    expect(script.startsWith("#compdef wifi-stats\n")).toBe(true);
+    expect(script).toContain("'ping:latency, jitter and loss to one host'");
+    expect(script).toContain("'--format[json | pretty | csv | markdown | html]:f:(json pretty csv markdown html)'");
+    expect(script).toContain("'--replay[Serve command output from a --record capture]:dir:_files -/'");
+    expect(script).toContain("'1:host: '");
+    expect(script).toContain("'1:shell:(bash zsh fish)'");
+    expect(script.trimEnd().endsWith('_wifi_stats "$@"')).toBe(true);
+  });
+
+  it("generates fish completion scoped by subcommand", () => {
+    const script = renderCompletion("fish", "wifi-stats", ROOT_COMMAND, SUBCOMMANDS);
+
+    expect(script).toContain("complete -c wifi-stats -n __fish_use_subcommand -a dns -d 'lookup time for one host name'");
+    expect(script).toContain("complete -c wifi-stats -n '__fish_seen_subcommand_from ping' -l samples -x -d 'Ping samples (default: 12)'");
+    expect(script).toContain("complete -c wifi-stats -n '__fish_seen_subcommand_from history' -l group-by -x -a 'hour ap'");
+    expect(script).toContain("complete -c wifi-stats -n __fish_use_subcommand -l assert -x -d 'Check a JSON path, e.g. \"router.ping.avgMs<15\" (repeatable)'");
+  });
+});
@@ -0,0 +1,120 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { parseCommandArgs } from "../src/args.js";
+import { collectArgs, ROOT_COMMAND } from "../src/commands.js";
+import { defaultConfigPath, envName, loadConfig, parseConfig, resolveOptions } from "../src/config.js";
+import { defaultOptions, type Options } from "../src/report.js";
+
+const config = parseConfig(
+  JSON.stringify({
+    defaults: { samples: 20, dnsHosts: ["cloudflare.com", "apple.com"] },
+    profiles: {
+      office: { internetHosts: "1.1.1.1, 8.8.8.8", routerHost: "10.0.0.1", samples: 30 },
+      quick: { samples: 4, speedtest: false }
+    }
+  }),
+  "config.json"
+);
+
+function cli(overrides: Partial<Options>): [Options, Set<keyof Options>] {
+  return [{ ...defaultOptions(), ...overrides }, new Set(Object.keys(overrides) as Array<keyof Options>)];
+}
+
+describe("config", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "wifi-stats-config-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("resolves the default config location", () => {
+    expect(defaultConfigPath({ XDG_CONFIG_HOME: "/xdg" }, "/home/me")).toBe("/xdg/wifi-stats/config.json");
+    expect(defaultConfigPath({}, "/home/me")).toBe("/home/me/.config/wifi-stats/config.json");
+    expect(envName("internetHosts")).toBe("WIFI_STATS_INTERNET_HOSTS");
+  });
+
+  it("applies CLI over env over profile over defaults", () => {
+    const [options, explicit] = cli({ routerHost: "192.168.0.1" });
+    const resolved = resolveOptions(options, explicit, config, "office", { WIFI_STATS_SAMPLES: "8" });
+
+    expect(resolved.options).toMatchObject({
+      samples: 8,
+      internetHosts: ["1.1.1.1", "8.8.8.8"],
+      routerHost: "192.168.0.1",
+      dnsHosts: ["cloudflare.com", "apple.com"],
+      interval: 5
+    });
+    expect(resolved.sources).toMatchObject({
+      samples: "env:WIFI_STATS_SAMPLES",
+      internetHosts: "profile:office",
+      routerHost: "cli",
+      dnsHosts: "config",
+      interval: "default"
+    });
+  });
+
+  it("keeps explicit CLI values even when they equal the built-in default", () => {
+    const [options, explicit] = cli({ samples: 12 });
+    expect(resolveOptions(options, explicit, config, "quick", {}).options.samples).toBe(12);
+  });
+
+  it("lets --json and --pretty win over a configured format", () => {
+    const withFormat = parseConfig('{"profiles":{"home":{"format":"csv"}}}', "config.json");
+    const resolve = (argv: string[], env: NodeJS.ProcessEnv) => {
+      const args = collectArgs();
+      parseCommandArgs(ROOT_COMMAND, argv, args);
+      return resolveOptions(args.options, args.explicit, withFormat, "home", env);
+    };
+
+    expect(resolve([], {}).options.format).toBe("csv");
+    expect(resolve(["--json"], {})).toMatchObject({ options: { format: "json", json: true }, sources: { format: "cli" } });
+    expect(resolve(["--pretty"], { WIFI_STATS_FORMAT: "markdown" }).options.format).toBe("pretty");
+    expect(resolve(["--json"], { WIFI_STATS_FORMAT: "csv" }).options.format).toBe("json");
+  });
+
+  it("selects a profile from WIFI_STATS_PROFILE and rejects unknown ones", () => {
+    const [options, explicit] = cli({});
+    expect(resolveOptions(options, explicit, config, null, { WIFI_STATS_PROFILE: "quick" }).options.samples).toBe(4);
+    expect(() => resolveOptions(options, explicit, config, "home", {})).toThrow(
+      'Unknown profile "home" (available: office, quick)'
+    );
+  });
+
+  it("reports invalid keys and values with their location", () => {
+    expect(() => parseConfig('{"profiles":{"home":{"sample":3}}}', "c.json")).toThrow(
+      /^c\.json: Unknown key "sample" in profiles\.home; valid keys: samples,/
+    );
+    expect(() => parseConfig('{"defaults":{"samples":1.5}}', "c.json")).toThrow("c.json: defaults.samples must be a positive integer");
+    expect(() => parseConfig('{"defaults":{"format":"xml"}}', "c.json")).toThrow(
+      "c.json: defaults.format must be one of: json, pretty, csv, markdown, html"
+    );
+    expect(() => parseConfig('{"default":{}}', "c.json")).toThrow('c.json: unknown top-level key "default"');
+    expect(() => parseConfig('{"defaults":{"timeouts":{"ping":5}}}', "c.json")).toThrow(/^c\.json: defaults\.timeouts must map stages/);
+    expect(() => parseConfig('{"defaults":{"alerts":[{"when":"wifi.signalDbm<"}]}}', "c.json")).toThrow(
+      /^c\.json: defaults\.alerts must be a list of conditions/
+    );
+    expect(() => parseConfig('{"defaults":{"alertTargets":[{"webhook":"https://x","preset":"teams"}]}}', "c.json")).toThrow(
+      /^c\.json: defaults\.alertTargets must be a list of webhook URLs/
+    );
+    expect(() => parseConfig("{", "c.json")).toThrow(/^c\.json: invalid JSON/);
+
+    const [options, explicit] = cli({});
+    expect(() => resolveOptions(options, explicit, config, null, { WIFI_STATS_SPEEDTEST: "maybe" })).toThrow(
+      "WIFI_STATS_SPEEDTEST must be true or false"
+    );
+  });
+
+  it("treats a missing default file as empty but requires an explicit one", async () => {
+    expect(await loadConfig(null, { XDG_CONFIG_HOME: dir })).toEqual({ file: null, defaults: {}, profiles: {} });
+    await expect(loadConfig(path.join(dir, "missing.json"))).rejects.toThrow(/^Cannot read config file .*missing\.json/);
+
+    await writeFile(path.join(dir, "config.json"), '{"defaults":{"speedtest":true}}');
+    expect((await loadConfig(path.join(dir, "config.json"))).defaults).toEqual({ speedtest: true });
+  });
+});
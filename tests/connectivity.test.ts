@@ -0,0 +1,138 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { checkConnectivity, isPrivateAddress, parseConnectivityUrl, type HostResolver } from "../src/connectivity.js";
+import type { Logger } from "../src/logger.js";
+import { darwinBackend } from "../src/platform.js";
+import { renderPretty } from "../src/render.js";
+import { collectReport, defaultOptions } from "../src/report.js";
+import { loadReplay } from "../src/runner.js";
+import { OUTPUT_SCHEMA, validateSchema } from "../src/schema.js";
+
+const silent: Logger = () => {};
+const capturesDir = fileURLToPath(new URL("./fixtures/captures", import.meta.url));
+const APPLE_SUCCESS = "<HTML><HEAD><TITLE>Success</TITLE></HEAD><BODY>Success</BODY></HTML>";
+
+// Stands in for the system resolver: every name points at the local server.
+const toLocalhost: HostResolver = async () => ["127.0.0.1"];
+
+describe("connectivity check", () => {
+  let server: Server;
+  let base: string;
+  let closedPort: number;
+  const hosts: string[] = [];
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      hosts.push(request.headers.host ?? "");
+      switch (request.url) {
+        case "/hotspot-detect.html":
+          return response.writeHead(200, { "content-type": "text/html" }).end(APPLE_SUCCESS);
+        case "/generate_204":
+          return response.writeHead(204).end();
+        case "/redirect":
+          return response.writeHead(302, { location: "/portal/login?next=1" }).end();
+        default:
+          return response
+            .writeHead(200, { "content-type": "text/html" })
+            .end('<html><head><meta http-equiv="refresh" content="0; url=http://10.1.0.1/login"></head></html>');
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const closed = createServer();
+    await new Promise<void>((resolve) => closed.listen(0, "127.0.0.1", resolve));
+    closedPort = (closed.address() as AddressInfo).port;
+    await new Promise<void>((resolve) => closed.close(() => resolve()));
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  const check = (url: string, resolve: HostResolver = toLocalhost, expect = "Success") =>
+    checkConnectivity({ url, expect, timeoutMs: 1000 }, resolve, silent);
+
+  it("is online when the probe page matches or answers 204", async () => {
+    expect(await check(`${base}/hotspot-detect.html`)).toMatchObject({
+      state: "online",
+      status: 200,
+      addresses: ["127.0.0.1"],
+      redirectUrl: null
+    });
+    expect(await check(`${base}/generate_204`, toLocalhost, "unused")).toMatchObject({ state: "online", status: 204 });
+  });
+
+  it("resolves the name itself and keeps it in the Host header", async () => {
+    const port = new URL(base).port;
+    const result = await check(`http://captive.example:${port}/hotspot-detect.html`);
+
+    // A private answer for a name is fine as long as the expected page comes back.
+    expect(result).toMatchObject({ state: "online", addresses: ["127.0.0.1"] });
+    expect(hosts.at(-1)).toBe(`captive.example:${port}`);
+  });
+
+  it("reports a captive portal with where it redirects to", async () => {
+    expect(await check(`${base}/redirect`)).toMatchObject({
+      state: "captive",
+      status: 302,
+      redirectUrl: `${base}/portal/login?next=1`,
+      reason: `HTTP 302 redirect to ${base}/portal/login?next=1`
+    });
+    expect(await check(`${base}/welcome`)).toMatchObject({ state: "captive", status: 200, redirectUrl: "http://10.1.0.1/login" });
+    expect(await check(`${base}/hotspot-detect.html`, toLocalhost, "Welcome")).toMatchObject({
+      state: "captive",
+      redirectUrl: null,
+      reason: "HTTP 200 with an unexpected page"
+    });
+  });
+
+  it("tells DNS hijacking apart from being offline", async () => {
+    expect(await check(`http://captive.example:${closedPort}/`)).toMatchObject({
+      state: "dns-hijacked",
+      addresses: ["127.0.0.1"],
+      reason: expect.stringMatching(/^captive\.example resolved to private address 127\.0\.0\.1, which did not answer \(.*ECONNREFUSED/)
+    });
+    expect(await check(`http://127.0.0.1:${closedPort}/`)).toMatchObject({ state: "offline", status: null });
+
+    const failing: HostResolver = async () => {
+      throw new Error("timeout");
+    };
+    expect(await check(`${base}/hotspot-detect.html`.replace("127.0.0.1", "captive.example"), failing)).toMatchObject({
+      state: "offline",
+      addresses: [],
+      reason: "captive.example did not resolve: timeout"
+    });
+  });
+
+  it("classifies addresses and rejects non-HTTP URLs", () => {
+    expect(["10.1.2.3", "192.168.1.1", "100.64.0.1", "127.0.0.1", "::1", "fd00::1", "fe80::1"].map(isPrivateAddress)).not.toContain(false);
+    expect(["17.253.144.10", "1.1.1.1", "2606:4700::1111", "captive.apple.com"].map(isPrivateAddress)).not.toContain(true);
+    expect(() => parseConnectivityUrl("captive.apple.com")).toThrow(
+      'Invalid connectivity URL "captive.apple.com": expected an http:// or https:// URL'
+    );
+  });
+
+  it("adds a connectivity section and finding to the report", async () => {
+    const session = await loadReplay(path.join(capturesDir, "macos-healthy"));
+    const output = await collectReport(
+      { ...defaultOptions(), samples: 4, connectivity: true, connectivityUrl: `${base}/redirect` },
+      darwinBackend,
+      silent,
+      session.run,
+      session.dns
+    );
+
+    expect(output.connectivity).toMatchObject({ state: "captive", redirectUrl: `${base}/portal/login?next=1` });
+    expect(output.meta.stages.connectivity?.error).toBeNull();
+    expect(output.diagnosis.findings.find((finding) => finding.id === "connectivity.captive")).toMatchObject({
+      severity: "critical",
+      recommendation: `Open ${base}/portal/login?next=1 in a browser and sign in or accept the terms.`
+    });
+    expect(validateSchema(output, OUTPUT_SCHEMA, { strict: true })).toEqual([]);
+    expect(renderPretty(output, false)).toContain(`Connectivity\n  State: captive\n  HTTP 302 redirect to ${base}/portal/login?next=1\n  Portal: `);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import { diagnose, type DiagnosisInput } from "../src/diagnosis.js";
+import { probeError } from "../src/probes.js";
+import { hasCollectionError } from "../src/report.js";
+import { replayedReport } from "./fixtures/report.js";
+
+function input(overrides: {
+  signalDbm?: number;
+  noiseDbm?: number;
+  channel?: number;
+  band?: string;
+  routerLoss?: number;
+  routerMs?: number;
+  internetLoss?: number;
+  dnsMs?: number | null;
+  ipv6?: "working" | "broken" | "absent";
+}): DiagnosisInput {
+  return {
+    wifi: {
+      ssid: "OfficeNet",
+      bssid: "aa:bb:cc:dd:ee:ff",
+      signalDbm: overrides.signalDbm ?? -50,
+      noiseDbm: overrides.noiseDbm ?? -92,
+      channel: overrides.channel ?? 36,
+      band: overrides.band ?? "5 GHz",
+      linkRateMbps: 866
+    },
+    router: {
+      gateway: "192.168.1.1",
+      ping: {
+        target: "192.168.1.1",
+        avgMs: overrides.routerMs ?? 3,
+        jitterMs: 1,
+        lossPct: overrides.routerLoss ?? 0,
+        samples: 12,
+        error: null
+      }
+    },
+    internet: {
+      target: "1.1.1.1",
+      ping: { target: "1.1.1.1", avgMs: 14, jitterMs: 2, lossPct: overrides.internetLoss ?? 0, samples: 12, error: null }
+    },
+    dns: {
+      server: "192.168.1.1",
+      source: "router",
+      lookup: {
+        host: "cloudflare.com",
+        server: "192.168.1.1",
+        lookupMs: overrides.dnsMs === undefined ? 8 : overrides.dnsMs,
+        error: overrides.dnsMs === null ? "timed out" : null
+      }
+    },
+    speedtest: null,
+    ipv6: {
+      status: overrides.ipv6 ?? "absent",
+      reason: overrides.ipv6 === "broken" ? "IPv6 default route via fe80::1%en0, but 2606:4700:4700::1111 is unreachable" : "no IPv6 default route",
+      gateway: overrides.ipv6 === "broken" ? "fe80::1%en0" : null,
+      dnsServers: [],
+      router: null,
+      internet: null,
+      resolution: null
+    }
+  };
+}
+
+const ids = (data: DiagnosisInput) => diagnose(data).findings.map((finding) => finding.id);
+
+describe("diagnosis", () => {
+  it("reports a healthy link with no findings", () => {
+    expect(diagnose(input({}))).toEqual({ score: 100, verdict: "healthy", findings: [] });
+  });
+
+  it("grades signal strength and SNR", () => {
+    expect(ids(input({ signalDbm: -65 }))).toEqual(["signal.fair"]);
+    expect(ids(input({ signalDbm: -74, noiseDbm: -100 }))).toEqual(["signal.weak"]);
+    expect(ids(input({ signalDbm: -74, noiseDbm: -95 }))).toEqual(["signal.weak", "snr.low"]);
+    expect(ids(input({ signalDbm: -74, noiseDbm: -88 }))).toEqual(["signal.weak", "snr.poor"]);
+    expect(ids(input({ signalDbm: -84 }))).toContain("signal.unusable");
+  });
+
+  it("separates local Wi-Fi loss from upstream loss", () => {
+    const local = diagnose(input({ routerLoss: 8.3, internetLoss: 8.3 }));
+    expect(local.findings).toHaveLength(1);
+    expect(local.findings[0]).toMatchObject({ id: "loss.local", severity: "critical", metric: "router.ping.lossPct" });
+
+    expect(ids(input({ internetLoss: 2 }))).toEqual(["loss.upstream"]);
+  });
+
+  it("calls internet ping loss filtered when every probe answered", async () => {
+    const answered = { ...probeError("https://example.com/", 4, "unused"), error: null };
+    const blocked = { ...input({ internetLoss: 100 }), probes: [answered] };
+    expect(diagnose(blocked).findings).toEqual([
+      expect.objectContaining({ id: "ping.filtered", severity: "info", metric: "internet.ping.lossPct", value: 100 })
+    ]);
+    expect(ids({ ...blocked, probes: [answered, probeError("1.1.1.1:443", 4, "timeout")] })).toEqual(["loss.upstream"]);
+    expect(ids({ ...blocked, probes: [] })).toEqual(["loss.upstream"]);
+    expect(diagnose({ ...input({ routerLoss: 100, internetLoss: 100 }), probes: [answered] }).findings).toEqual([
+      expect.objectContaining({ id: "ping.filtered", metric: "internet.ping.lossPct" })
+    ]);
+    const silentRouter = { ...blocked, router: { ...blocked.router, ping: null } };
+    expect(ids(silentRouter)).toEqual(["ping.filtered"]);
+
+    const base = await replayedReport();
+    const failedPing = { ...base.internet.ping!, lossPct: 100, avgMs: null, error: "no replies received" };
+    const output = { ...base, internet: { ...base.internet, ping: failedPing, pings: [failedPing] } };
+    expect(hasCollectionError(output)).toBe(true);
+    expect(hasCollectionError({ ...output, probes: [answered] })).toBe(false);
+    const routerPing = { ...base.router.ping!, lossPct: 100, avgMs: null, error: "no replies received" };
+    expect(hasCollectionError({ ...output, router: { ...base.router, ping: routerPing }, probes: [answered] })).toBe(false);
+  });
+
+  it("flags slow and failed DNS", () => {
+    expect(ids(input({ dnsMs: 240 }))).toEqual(["dns.slow"]);
+    expect(diagnose(input({ dnsMs: null })).findings[0]).toMatchObject({ id: "dns.failed", severity: "critical" });
+  });
+
+  it("flags broken IPv6 but not its absence", () => {
+    expect(ids(input({ ipv6: "absent" }))).toEqual([]);
+    expect(ids(input({ ipv6: "working" }))).toEqual([]);
+    expect(diagnose(input({ ipv6: "broken" })).findings[0]).toMatchObject({
+      id: "ipv6.broken",
+      severity: "warning",
+      message: "IPv6 is configured but broken: IPv6 default route via fe80::1%en0, but 2606:4700:4700::1111 is unreachable."
+    });
+  });
+
+  it("flags congested 2.4 GHz channels", () => {
+    expect(ids(input({ band: "2.4 GHz", channel: 4 }))).toEqual(["channel.overlapping"]);
+    expect(ids(input({ band: "2.4 GHz", channel: 6 }))).toEqual(["band.2ghz"]);
+  });
+
+  it("scores findings by severity", () => {
+    const result = diagnose(input({ signalDbm: -74, noiseDbm: -100, routerLoss: 10, dnsMs: 240 }));
+    expect(result.score).toBe(100 - 15 - 30 - 15);
+    expect(result.verdict).toBe("poor");
+  });
+});
@@ -0,0 +1,205 @@
+import { createSocket, type Socket } from "node:dgram";
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  createRecordingTransport,
+  createReplayTransport,
+  decodeMessage,
+  dnsLookup,
+  encodeQuery,
+  parseServer,
+  udpTransport,
+  type DnsCapture
+} from "../src/dns.js";
+import type { Logger } from "../src/logger.js";
+
+const silent: Logger = () => {};
+
+type StubRecord = { type: number; data: Buffer; ttl?: number };
+type StubAnswer = { rcode?: number; answers?: StubRecord[] } | null;
+
+function encodeName(name: string): Buffer {
+  return Buffer.concat([...name.split(".").map((label) => Buffer.concat([Buffer.from([label.length]), Buffer.from(label)])), Buffer.from([0])]);
+}
+
+function u16(value: number): Buffer {
+  const buffer = Buffer.alloc(2);
+  buffer.writeUInt16BE(value);
+  return buffer;
+}
+
+// Echoes the question and answers with records pointing back at the question name.
+function buildResponse(query: Buffer, answer: NonNullable<StubAnswer>): Buffer {
+  const records = answer.answers ?? [];
+  const questionEnd = query.length;
+  const header = Buffer.alloc(12);
+  query.copy(header, 0, 0, 2);
+  header.writeUInt16BE(0x8180 | (answer.rcode ?? 0), 2);
+  header.writeUInt16BE(1, 4);
+  header.writeUInt16BE(records.length, 6);
+  const body = records.map((record) => {
+    const fixed = Buffer.alloc(10);
+    fixed.writeUInt16BE(0xc00c, 0);
+    fixed.writeUInt16BE(record.type, 2);
+    fixed.writeUInt16BE(1, 4);
+    fixed.writeUInt32BE(record.ttl ?? 60, 6);
+    return Buffer.concat([fixed, u16(record.data.length), record.data]);
+  });
+  return Buffer.concat([header, query.subarray(12, questionEnd), ...body]);
+}
+
+type Stub = { server: string; questions: string[] };
+
+const sockets: Socket[] = [];
+
+async function startStub(handle: (name: string, type: string) => StubAnswer): Promise<Stub> {
+  const socket = createSocket("udp4");
+  sockets.push(socket);
+  const questions: string[] = [];
+  socket.on("message", (message, remote) => {
+    const [question] = decodeMessage(message).questions;
+    questions.push(`${question.name} ${question.type}`);
+    const answer = handle(question.name, question.type);
+    if (answer) socket.send(buildResponse(message, answer), remote.port, remote.address);
+  });
+  await new Promise<void>((resolve) => socket.bind(0, "127.0.0.1", resolve));
+  return { server: `127.0.0.1:${socket.address().port}`, questions };
+}
+
+afterEach(() => {
+  for (const socket of sockets.splice(0)) socket.close();
+});
+
+const ipv4 = (address: string) => Buffer.from(address.split(".").map(Number));
+const ipv6 = (groups: number[]) => Buffer.concat(groups.map(u16));
+
+describe("dnsLookup", () => {
+  it("times a cold query and warm repeats and returns the answers", async () => {
+    const stub = await startStub(() => ({
+      answers: [
+        { type: 1, data: ipv4("104.16.132.229"), ttl: 227 },
+        { type: 1, data: ipv4("104.16.133.229"), ttl: 227 }
+      ]
+    }));
+
+    const result = await dnsLookup("cloudflare.com", stub.server, { type: "A", queries: 3 }, silent);
+
+    expect(stub.questions).toEqual(["cloudflare.com A", "cloudflare.com A", "cloudflare.com A"]);
+    expect(result).toMatchObject({
+      host: "cloudflare.com",
+      server: stub.server,
+      type: "A",
+      queries: 3,
+      rcode: "NOERROR",
+      failure: null,
+      error: null,
+      answers: [
+        { type: "A", ttl: 227, data: "104.16.132.229" },
+        { type: "A", ttl: 227, data: "104.16.133.229" }
+      ]
+    });
+    expect(result.lookupMs).toBeGreaterThan(0);
+    expect(result.warmMs).toBeGreaterThan(0);
+  });
+
+  it("decodes AAAA, HTTPS and CNAME records", async () => {
+    const https = Buffer.concat([
+      u16(1),
+      Buffer.from([0]),
+      u16(1),
+      u16(6),
+      Buffer.from([2, ...Buffer.from("h3"), 2, ...Buffer.from("h2")]),
+      u16(4),
+      u16(8),
+      ipv4("104.16.132.229"),
+      ipv4("104.16.133.229")
+    ]);
+    const stub = await startStub((_name, type) =>
+      type === "AAAA"
+        ? { answers: [{ type: 5, data: encodeName("edge.example.net") }, { type: 28, data: ipv6([0x2606, 0x4700, 0, 0, 0, 0, 0, 0x1111]) }] }
+        : { answers: [{ type: 65, data: https }] }
+    );
+
+    const aaaa = await dnsLookup("www.example.com", stub.server, { type: "AAAA", queries: 1 }, silent);
+    const svcb = await dnsLookup("example.com", stub.server, { type: "HTTPS", queries: 1 }, silent);
+
+    expect(aaaa.answers).toEqual([
+      { type: "CNAME", ttl: 60, data: "edge.example.net" },
+      { type: "AAAA", ttl: 60, data: "2606:4700::1111" }
+    ]);
+    expect(aaaa.warmMs).toBeNull();
+    expect(svcb.answers).toEqual([{ type: "HTTPS", ttl: 60, data: "1 . alpn=h3,h2 ipv4hint=104.16.132.229,104.16.133.229" }]);
+  });
+
+  it.each([
+    [3, "nxdomain", "missing.example does not exist (NXDOMAIN)"],
+    [2, "servfail", "could not resolve missing.example (SERVFAIL)"],
+    [5, "refused", "answered REFUSED"]
+  ])("classifies rcode %i as %s and skips the repeats", async (rcode, failure, message) => {
+    const stub = await startStub(() => ({ rcode }));
+
+    const result = await dnsLookup("missing.example", stub.server, { type: "A", queries: 3 }, silent);
+
+    expect(stub.questions).toHaveLength(1);
+    expect(result).toMatchObject({ failure, lookupMs: null, warmMs: null, queries: 1 });
+    expect(result.error).toContain(message);
+  });
+
+  it("classifies unanswered queries as timeouts", async () => {
+    const stub = await startStub(() => null);
+
+    const result = await dnsLookup("cloudflare.com", stub.server, { type: "A", queries: 2, timeoutMs: 100 }, silent);
+
+    expect(result).toMatchObject({ failure: "timeout", rcode: null, lookupMs: null, error: `no response from ${stub.server} within 100 ms` });
+  });
+
+  it("classifies a closed port as refused", async () => {
+    const socket = createSocket("udp4");
+    await new Promise<void>((resolve) => socket.bind(0, "127.0.0.1", resolve));
+    const server = `127.0.0.1:${socket.address().port}`;
+    await new Promise<void>((resolve) => socket.close(() => resolve()));
+
+    const result = await dnsLookup("cloudflare.com", server, { type: "A", queries: 1, timeoutMs: 1000 }, silent);
+
+    expect(result.failure).toBe("refused");
+  });
+
+  it("records exchanges that replay with the caller's query ID", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "wifi-stats-dns-"));
+    try {
+      const stub = await startStub((name) => (name === "cloudflare.com" ? { answers: [{ type: 1, data: ipv4("104.16.132.229") }] } : { rcode: 3 }));
+      const record = await createRecordingTransport(dir, udpTransport);
+      await dnsLookup("cloudflare.com", stub.server, { type: "A", queries: 2 }, silent, record);
+      await dnsLookup("nope.example", stub.server, { type: "A", queries: 1 }, silent, record);
+
+      const files = (await readdir(dir)).sort();
+      expect(files).toEqual(["dns-001.json", "dns-002.json", "dns-003.json"]);
+      const captures = await Promise.all(files.map(async (file) => JSON.parse(await readFile(path.join(dir, file), "utf8")) as DnsCapture));
+      const replay = createReplayTransport(captures);
+
+      const replayed = await dnsLookup("cloudflare.com", stub.server, { type: "A", queries: 2 }, silent, replay);
+      expect(replayed.lookupMs).toBe(Math.round((captures[0].elapsedMs ?? 0) * 1000) / 1000);
+      expect(replayed.answers).toEqual([{ type: "A", ttl: 60, data: "104.16.132.229" }]);
+      expect((await dnsLookup("nope.example", stub.server, { type: "A", queries: 1 }, silent, replay)).failure).toBe("nxdomain");
+
+      const exchange = await replay(stub.server, encodeQuery(0x1234, "cloudflare.com", "A"), 1000);
+      expect(exchange.response.readUInt16BE(0)).toBe(0x1234);
+      await expect(replay(stub.server, encodeQuery(1, "other.example", "AAAA"), 1000)).rejects.toThrow(
+        `no recorded DNS response for: ${stub.server} other.example AAAA`
+      );
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("parseServer", () => {
+  it("accepts addresses with and without ports", () => {
+    expect(parseServer("1.1.1.1")).toEqual({ address: "1.1.1.1", port: 53 });
+    expect(parseServer("127.0.0.1:5353")).toEqual({ address: "127.0.0.1", port: 5353 });
+    expect(parseServer("2606:4700::1111")).toEqual({ address: "2606:4700::1111", port: 53 });
+    expect(parseServer("[::1]:5353")).toEqual({ address: "::1", port: 5353 });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import type { PingResult } from "../src/collector.js";
+import type { DnsLookupResult, DnsTransport } from "../src/dns.js";
+import { assessFamily, collectIpv6, nameserversOf } from "../src/dualstack.js";
+import type { Logger } from "../src/logger.js";
+import { linuxBackend } from "../src/platform.js";
+import { probeError } from "../src/probes.js";
+import type { CommandRunner } from "../src/runner.js";
+
+const silent: Logger = () => {};
+
+function ping(target: string, avgMs: number | null, error: string | null = null): PingResult {
+  return { target, avgMs, lossPct: avgMs === null ? 100 : 0, samples: 4, error } as PingResult;
+}
+
+function lookup(failure: DnsLookupResult["failure"], error: string | null = null): DnsLookupResult {
+  return { host: "cloudflare.com", server: "2001:db8::53", type: "AAAA", lookupMs: failure ? null : 9, failure, error } as DnsLookupResult;
+}
+
+describe("dual stack", () => {
+  it("splits nameservers by address family", () => {
+    const servers = ["192.168.1.1", "fe80::1%en0", "2001:db8::53", "[2001:db8::54]:5353", "10.0.0.1:5353"];
+    expect(nameserversOf("ipv4", servers)).toEqual(["192.168.1.1", "10.0.0.1:5353"]);
+    expect(nameserversOf("ipv6", servers)).toEqual(["fe80::1%en0", "2001:db8::53", "[2001:db8::54]:5353"]);
+  });
+
+  it("tells working, broken and absent apart", () => {
+    const base = { gateway: "fe80::1%en0", dnsServers: [], router: null, resolution: null };
+
+    expect(assessFamily("ipv6", { ...base, internet: ping("2606:4700:4700::1111", 15.3) })).toMatchObject({
+      status: "working",
+      reason: "2606:4700:4700::1111 reachable in 15.3 ms"
+    });
+    expect(assessFamily("ipv6", { ...base, gateway: null, internet: null })).toMatchObject({
+      status: "absent",
+      reason: "no IPv6 default route"
+    });
+    expect(assessFamily("ipv6", { ...base, internet: ping("2606:4700:4700::1111", null, "no replies received") })).toMatchObject({
+      status: "broken",
+      reason: "IPv6 default route via fe80::1%en0, but 2606:4700:4700::1111 is unreachable (no replies received)"
+    });
+  });
+
+  it("calls an unanswered ping filtered when every probe answered", () => {
+    const base = { gateway: "192.168.1.1", dnsServers: [], router: null, resolution: null, internet: ping("1.1.1.1", null, "no replies received") };
+    const answered = { ...probeError("https://example.com/", 4, "unused"), error: null };
+
+    expect(assessFamily("ipv4", base, [answered])).toMatchObject({
+      status: "working",
+      reason: "1.1.1.1 doesn't answer ping, but every probe answered (ICMP filtered)"
+    });
+    expect(assessFamily("ipv4", base, [answered, probeError("1.1.1.1:443", 4, "timeout")]).status).toBe("broken");
+    expect(assessFamily("ipv4", base, []).status).toBe("broken");
+  });
+
+  it("treats a failing lookup as broken, but not a name that doesn't exist", () => {
+    const base = { gateway: "fe80::1%en0", dnsServers: ["2001:db8::53"], router: null, internet: ping("2606:4700:4700::1111", 15) };
+
+    expect(assessFamily("ipv6", { ...base, resolution: lookup("timeout", "no response from 2001:db8::53 within 2000 ms") })).toMatchObject({
+      status: "broken",
+      reason: "2606:4700:4700::1111 is reachable, but the AAAA lookup failed: no response from 2001:db8::53 within 2000 ms"
+    });
+    expect(assessFamily("ipv6", { ...base, resolution: lookup("nxdomain", "cloudflare.com does not exist (NXDOMAIN)") }).status).toBe("working");
+  });
+
+  it("falls back to ping -6 and asks an IPv6 nameserver for AAAA", async () => {
+    const calls: string[] = [];
+    const run: CommandRunner = async (command, args) => {
+      calls.push([command, ...args].join(" "));
+      if (command === "ip") return { stdout: "default via fe80::1 dev wlp2s0 proto ra metric 600\n", stderr: "", error: null };
+      if (command === "ping6") {
+        const error = Object.assign(new Error("spawn ping6 ENOENT"), { code: "ENOENT" });
+        return { stdout: "", stderr: error.message, error };
+      }
+      return {
+        stdout: "4 packets transmitted, 4 received, 0% packet loss, time 3004ms\nrtt min/avg/max/mdev = 3.1/3.5/3.9/0.3 ms\n",
+        stderr: "",
+        error: null
+      };
+    };
+    const servers: string[] = [];
+    const transport: DnsTransport = async (server) => {
+      servers.push(server);
+      throw Object.assign(new Error("timed out"), { code: "ETIMEOUT" });
+    };
+
+    const report = await collectIpv6(
+      { samples: 4, target: "2606:4700:4700::1111", dnsHost: "cloudflare.com", dnsQueries: 1 },
+      ["192.168.0.1", "fe80::1%wlp2s0"],
+      linuxBackend,
+      silent,
+      run,
+      transport
+    );
+
+    expect(calls).toContain("ping -6 -n -c 4 fe80::1%wlp2s0");
+    expect(calls).toContain("ping -6 -n -c 4 2606:4700:4700::1111");
+    expect(servers).toEqual(["fe80::1%wlp2s0"]);
+    expect(report).toMatchObject({ status: "broken", gateway: "fe80::1%wlp2s0", dnsServers: ["fe80::1%wlp2s0"] });
+    expect(report.internet?.avgMs).toBe(3.5);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { renderMetrics, startExporter } from "../src/exporter.js";
+import type { Logger } from "../src/logger.js";
+import type { OutputData } from "../src/report.js";
+import { replayedReport } from "./fixtures/report.js";
+
+const silent: Logger = () => {};
+
+const base = await replayedReport();
+if (!base.internet.ping || !base.dns.lookup) throw new Error("the macos-healthy replay has no internet ping or DNS lookup");
+const internetPing = { ...base.internet.ping, avgMs: 14.6, lossPct: 8.3 };
+const lookup = { ...base.dns.lookup, warmMs: 1.2 };
+const output: OutputData = {
+  ...base,
+  wifi: base.wifi && { ...base.wifi, ssid: 'Office "5G"', bssid: "aa:bb:cc:dd:ee:ff" },
+  internet: {
+    ...base.internet,
+    ping: internetPing,
+    pings: [internetPing, { ...internetPing, target: "8.8.8.8", avgMs: 18.1, lossPct: 0 }]
+  },
+  dns: { ...base.dns, lookup, lookups: [lookup] },
+  ipv6: { ...base.ipv6, status: "broken", reason: "IPv6 default route via fe80::1%en0, but 2606:4700:4700::1111 is unreachable" }
+};
+
+describe("exporter", () => {
+  it("renders labeled gauges", () => {
+    const text = renderMetrics(output);
+
+    expect(text).toContain("wifi_stats_up 1");
+    expect(text).toContain('wifi_stats_signal_dbm{ssid="Office \\"5G\\"",bssid="aa:bb:cc:dd:ee:ff",band="5 GHz"} -54');
+    expect(text).toContain('wifi_stats_ping_loss_percent{path="internet",target="1.1.1.1"} 8.3');
+    expect(text).toContain('wifi_stats_ping_avg_ms{path="internet",target="8.8.8.8"} 18.1');
+    expect(text).toContain('wifi_stats_dns_lookup_ms{server="192.168.1.1",host="cloudflare.com",type="A"} 8');
+    expect(text).toContain('wifi_stats_dns_warm_ms{server="192.168.1.1",host="cloudflare.com",type="A"} 1.2');
+    expect(text).toContain('wifi_stats_ip_family_status{family="ipv4",status="working"} 1');
+    expect(text).toContain('wifi_stats_ip_family_status{family="ipv6",status="working"} 0');
+    expect(text).toContain('wifi_stats_ip_family_status{family="ipv6",status="broken"} 1');
+    expect(text).toContain("# TYPE wifi_stats_health_score gauge");
+    expect(text).not.toContain("speedtest");
+    expect(text.endsWith("# EOF\n")).toBe(true);
+  });
+
+  it("reports down before the first collection", () => {
+    expect(renderMetrics(null)).toBe(
+      "# HELP wifi_stats_up Whether a collection result is cached\n# TYPE wifi_stats_up gauge\nwifi_stats_up 0\n# EOF\n"
+    );
+  });
+
+  it("serves cached results without collecting per scrape", async () => {
+    let collections = 0;
+    const exporter = await startExporter(
+      async () => {
+        collections += 1;
+        return output;
+      },
+      { host: "127.0.0.1", port: 0, intervalSec: 3600 },
+      silent
+    );
+
+    try {
+      await expect.poll(() => exporter.latest()).not.toBeNull();
+
+      const metrics = await fetch(`${exporter.url}/metrics`);
+      expect(metrics.headers.get("content-type")).toContain("openmetrics-text");
+      expect(await metrics.text()).toContain("wifi_stats_ping_avg_ms");
+      await fetch(`${exporter.url}/metrics`);
+
+      const health = await (await fetch(`${exporter.url}/healthz`)).json();
+      expect(health).toEqual({ status: "ok", lastCollection: output.timestamp });
+
+      const snapshot = await (await fetch(`${exporter.url}/snapshot`)).json();
+      expect(snapshot.wifi.bssid).toBe("aa:bb:cc:dd:ee:ff");
+
+      expect((await fetch(`${exporter.url}/nope`)).status).toBe(404);
+      expect(collections).toBe(1);
+    } finally {
+      await exporter.stop();
+    }
+  });
+
+  it("aborts a collection in progress when stopped", async () => {
+    let aborted = false;
+    const exporter = await startExporter(
+      (signal) =>
+        new Promise<OutputData>((_resolve, reject) => {
+          signal.addEventListener("abort", () => {
+            aborted = true;
+            reject(signal.reason);
+          });
+        }),
+      { host: "127.0.0.1", port: 0, intervalSec: 3600 },
+      silent
+    );
+
+    await exporter.stop();
+    expect(aborted).toBe(true);
+    expect(exporter.latest()).toBeNull();
+  });
+
+  it("brackets an IPv6 listen address in its URL", async () => {
+    const exporter = await startExporter(async () => output, { host: "::1", port: 0, intervalSec: 3600 }, silent);
+
+    try {
+      expect(exporter.url).toMatch(/^http:\/\/\[::1\]:\d+$/);
+      expect((await fetch(`${exporter.url}/healthz`)).status).toBe(200);
+    } finally {
+      await exporter.stop();
+    }
+  });
+});
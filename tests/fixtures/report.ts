@@ -0,0 +1,13 @@
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { collectWifiStats, loadReplay, type CollectOptions, type OutputData } from "../../src/index.js";
+
+const capturesDir = fileURLToPath(new URL("./captures", import.meta.url));
+
+// A complete report replayed from a capture, for tests that need an OutputData to start from. Tests
+// derive variants from it with spreads, so a field added to the report can't be missing from a fixture.
+export async function replayedReport(name = "macos-healthy", overrides: CollectOptions = {}): Promise<OutputData> {
+  const session = await loadReplay(path.join(capturesDir, name));
+  const output = await collectWifiStats({ platform: session.manifest.platform, run: session.run, dns: session.dns, samples: 4, ...overrides });
+  return JSON.parse(JSON.stringify(output)) as OutputData;
+}
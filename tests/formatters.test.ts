@@ -0,0 +1,81 @@
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import { FORMATTERS, isOutputFormat, renderCsv, renderHtml, renderMarkdown } from "../src/formatters.js";
+import type { Logger } from "../src/logger.js";
+import { selectBackend } from "../src/platform.js";
+import { collectReport, defaultOptions, type OutputData } from "../src/report.js";
+import { loadReplay } from "../src/runner.js";
+
+const silent: Logger = () => {};
+const capturesDir = fileURLToPath(new URL("./fixtures/captures", import.meta.url));
+
+async function replay(name: string): Promise<OutputData> {
+  const session = await loadReplay(path.join(capturesDir, name));
+  const backend = selectBackend(session.manifest.platform);
+  if (!backend) throw new Error(`no backend for ${session.manifest.platform}`);
+  return collectReport({ ...defaultOptions(), samples: 4 }, backend, silent, session.run, session.dns);
+}
+
+describe("formatters", () => {
+  it("registers every output format", () => {
+    expect(Object.keys(FORMATTERS)).toEqual(["json", "pretty", "csv", "markdown", "html"]);
+    expect(isOutputFormat("csv")).toBe(true);
+    expect(isOutputFormat("toString")).toBe(false);
+  });
+
+  it("flattens output into stable CSV columns", async () => {
+    const output = await replay("macos-healthy");
+    const [header, row] = renderCsv(output, { colorEnabled: false, header: true, stream: false }).trimEnd().split("\n");
+    const columns = header.split(",");
+    const cells = row.split(",");
+
+    expect(columns.slice(0, 6)).toEqual(["timestamp", "wifi.ssid", "wifi.bssid", "wifi.band", "wifi.channel", "wifi.signalDbm"]);
+    expect(cells).toHaveLength(columns.length);
+    expect(cells[columns.indexOf("wifi.ssid")]).toBe("OfficeNet");
+    expect(cells[columns.indexOf("internet.ping.avgMs")]).toBe("14.578");
+    expect(cells[columns.indexOf("speedtest.downloadMbps")]).toBe("");
+
+    const appended = renderCsv({ ...output, wifi: output.wifi && { ...output.wifi, ssid: 'Guest, "5G"' } }, {
+      colorEnabled: false,
+      header: false,
+      stream: false
+    });
+    expect(appended.split("\n")).toHaveLength(2);
+    expect(appended).toContain(',"Guest, ""5G""",');
+  });
+
+  it("keeps SSIDs from running as spreadsheet formulas", async () => {
+    const output = await replay("macos-healthy");
+    const csv = (ssid: string) =>
+      renderCsv({ ...output, wifi: output.wifi && { ...output.wifi, ssid } }, { colorEnabled: false, header: false, stream: false });
+
+    expect(csv('=HYPERLINK("http://x")')).toContain(`,"'=HYPERLINK(""http://x"")",`);
+    for (const ssid of ["+1", "-cafe", "@home"]) {
+      expect(csv(ssid)).toContain(`,'${ssid},`);
+    }
+    expect(csv("Cafe-5G")).toContain(",Cafe-5G,");
+    expect(csv("x")).toContain(`,${output.wifi?.signalDbm},`);
+  });
+
+  it("renders ticket-ready markdown tables", async () => {
+    const markdown = renderMarkdown(await replay("macos-no-airport"));
+
+    expect(markdown).toMatch(/^## Wi-Fi Stats — \S+\n/);
+    expect(markdown).toContain("### Internet\n\n| Metric | Value |\n| --- | --- |\n| Target | 1.1.1.1 |");
+    expect(markdown).toContain("| Loss | 100 % |");
+    expect(markdown).toContain("- [critical] Router is clean but internet loss is 100%");
+  });
+
+  it("renders a self-contained HTML report", async () => {
+    const output = await replay("macos-healthy");
+    const html = renderHtml({ ...output, wifi: output.wifi && { ...output.wifi, ssid: "<script>x</script>" } });
+
+    expect(html.startsWith("<!DOCTYPE html>")).toBe(true);
+    expect(html).toContain("<style>");
+    expect(html).not.toMatch(/<(link|script|img)\b/);
+    expect(html).toContain("&lt;script&gt;x&lt;/script&gt;");
+    expect(html).toContain("<h2>Diagnosis</h2>");
+    expect(html).toContain('<span class="healthy">healthy</span>');
+  });
+});
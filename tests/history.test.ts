@@ -0,0 +1,108 @@
+import { appendFile, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  aggregateHistory,
+  appendHistory,
+  defaultHistoryPath,
+  filterHistory,
+  parseTimeBound,
+  pruneHistory,
+  readHistory,
+  renderHistory
+} from "../src/history.js";
+import type { OutputData } from "../src/report.js";
+import { replayedReport } from "./fixtures/report.js";
+
+const base = await replayedReport();
+
+function entry(timestamp: string, bssid: string, routerMs: number, lossPct: number, signalDbm: number): OutputData {
+  const wifi = base.wifi && { ...base.wifi, bssid, signalDbm };
+  const routerPing = base.router.ping && { ...base.router.ping, avgMs: routerMs };
+  const internetPing = base.internet.ping && { ...base.internet.ping, lossPct };
+  return {
+    ...base,
+    timestamp,
+    wifi,
+    router: { ...base.router, ping: routerPing },
+    internet: { ...base.internet, ping: internetPing }
+  };
+}
+
+const entries = [
+  entry("2026-10-18T09:05:00.000Z", "aa:aa", 4, 0, -50),
+  entry("2026-10-18T09:35:00.000Z", "aa:aa", 6, 0, -55),
+  entry("2026-10-18T10:10:00.000Z", "bb:bb", 20, 10, -72)
+];
+
+describe("history", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "wifi-stats-history-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("resolves the data directory per platform", () => {
+    expect(defaultHistoryPath({ XDG_DATA_HOME: "/data" }, "linux", "/home/u")).toBe("/data/wifi-stats/history.ndjson");
+    expect(defaultHistoryPath({}, "linux", "/home/u")).toBe("/home/u/.local/share/wifi-stats/history.ndjson");
+    expect(defaultHistoryPath({}, "darwin", "/Users/u")).toBe(
+      "/Users/u/Library/Application Support/wifi-stats/history.ndjson"
+    );
+  });
+
+  it("appends and reads entries, skipping corrupt lines", async () => {
+    const file = path.join(dir, "nested", "history.ndjson");
+    await appendHistory(file, entries[0]);
+    await appendFile(file, "{not json\n");
+    await appendHistory(file, entries[1]);
+
+    expect(await readHistory(file)).toEqual([entries[0], entries[1]]);
+    expect(await readHistory(path.join(dir, "missing.ndjson"))).toEqual([]);
+  });
+
+  it("parses absolute and relative time bounds", () => {
+    const now = new Date("2026-10-18T12:00:00.000Z");
+    expect(parseTimeBound("24h", now)?.toISOString()).toBe("2026-10-17T12:00:00.000Z");
+    expect(parseTimeBound("2026-10-01", now)?.toISOString()).toBe("2026-10-01T00:00:00.000Z");
+    expect(parseTimeBound("yesterday", now)).toBeNull();
+  });
+
+  it("filters by time range and access point", () => {
+    const filtered = filterHistory(entries, {
+      since: new Date("2026-10-18T09:30:00.000Z"),
+      until: null,
+      ssid: "OfficeNet",
+      bssid: "AA:AA"
+    });
+    expect(filtered).toEqual([entries[1]]);
+  });
+
+  it("aggregates percentiles by hour and by access point", () => {
+    const byHour = aggregateHistory(entries, "hour");
+    expect(byHour.map((group) => group.key)).toEqual(["2026-10-18T09:00Z", "2026-10-18T10:00Z"]);
+    expect(byHour[0].runs).toBe(2);
+    expect(byHour[0].routerPingMs).toEqual({ count: 2, min: 4, p50: 5, p95: 5.9, max: 6 });
+    expect(byHour[0].downloadMbps.count).toBe(0);
+
+    const byAp = aggregateHistory(entries, "ap");
+    expect(byAp[0].key).toBe("OfficeNet (aa:aa)");
+    expect(byAp[1].internetLossPct.p50).toBe(10);
+
+    const rendered = renderHistory(byAp, "ap", false);
+    expect(rendered).toContain("Access Point");
+    expect(rendered).toContain("OfficeNet (bb:bb)");
+  });
+
+  it("prunes entries older than the retention bound", async () => {
+    const file = path.join(dir, "history.ndjson");
+    for (const item of entries) await appendHistory(file, item);
+
+    expect(await pruneHistory(file, new Date("2026-10-18T10:00:00.000Z"))).toEqual({ kept: 1, removed: 2 });
+    expect(await readHistory(file)).toEqual([entries[2]]);
+  });
+});
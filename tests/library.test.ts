@@ -0,0 +1,70 @@
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import { collectWifiStats, loadReplay, parsePingStats, type Logger } from "../src/index.js";
+
+const capturesDir = fileURLToPath(new URL("./fixtures/captures", import.meta.url));
+
+async function capture(name: string) {
+  const session = await loadReplay(path.join(capturesDir, name));
+  return { platform: session.manifest.platform, run: session.run, dns: session.dns };
+}
+
+describe("library API", () => {
+  it("collects a report with defaults filled in and events sent to the injected logger", async () => {
+    const events: string[] = [];
+    const logger: Logger = (level, message) => events.push(`${level} ${message}`);
+
+    const output = await collectWifiStats({ ...(await capture("macos-healthy")), samples: 4, logger });
+
+    expect(output.wifi).toMatchObject({ ssid: "OfficeNet", channel: 149 });
+    expect(output.internet.target).toBe("1.1.1.1");
+    expect(output.meta).toMatchObject({ platform: "darwin", samples: 4, dnsHost: "cloudflare.com" });
+    expect(events).toContain("success collect.airport.success");
+  });
+
+  it("ignores undefined overrides", async () => {
+    const output = await collectWifiStats({ ...(await capture("linux-healthy")), samples: 4, internetHosts: undefined });
+    expect(output.internet.target).toBe("1.1.1.1");
+  });
+
+  it("rejects with the abort reason once the signal fires", async () => {
+    const source = await capture("macos-healthy");
+    const controller = new AbortController();
+    const run: typeof source.run = async (command, args) => {
+      controller.abort(new Error("stop"));
+      return source.run(command, args);
+    };
+
+    await expect(collectWifiStats({ ...source, run, samples: 4, signal: controller.signal })).rejects.toThrow("stop");
+    await expect(collectWifiStats({ ...source, signal: AbortSignal.abort() })).rejects.toMatchObject({ name: "AbortError" });
+  });
+
+  it("resolves with the cut-short sections marked when asked for partial results", async () => {
+    const source = await capture("macos-healthy");
+    const controller = new AbortController();
+    const run: typeof source.run = async (command, args) => {
+      if (command === "ping") controller.abort();
+      return source.run(command, args);
+    };
+
+    const output = await collectWifiStats({ ...source, run, samples: 4, signal: controller.signal, partial: true });
+
+    expect(output.wifi).toMatchObject({ ssid: "OfficeNet" });
+    expect(output.router.ping?.error).toBe("cancelled");
+    expect(output.dns.lookup).toMatchObject({ lookupMs: null, error: "cancelled" });
+    expect(output.meta.stages).toMatchObject({ wifi: { error: null }, router: { error: "cancelled" }, internet: { error: "cancelled" } });
+  });
+
+  it("validates settings and platform before running anything", async () => {
+    await expect(collectWifiStats({ samples: 0 })).rejects.toThrow("samples must be a positive integer");
+    await expect(collectWifiStats({ dnsHosts: [] })).rejects.toThrow("dnsHosts must be a non-empty list of host names");
+    await expect(collectWifiStats({ load: "ftp://x" })).rejects.toThrow(/^Invalid load/);
+    await expect(collectWifiStats({ platform: "win32" })).rejects.toThrow("Unsupported platform: win32");
+    await expect(collectWifiStats({ timeouts: { speedtest: -1 } })).rejects.toThrow("timeouts.speedtest must be a positive number of seconds");
+  });
+
+  it("re-exports the parsers", () => {
+    expect(parsePingStats("4 packets transmitted, 4 packets received, 0.0% packet loss").lossPct).toBe(0);
+  });
+});
@@ -1,5 +1,23 @@
 import { describe, expect, it } from "vitest";
-import { parseAirportOutput, parsePingStats, parseSystemProfilerOutput } from "../src/parsers.js";
+import {
+  frequencyToChannel,
+  parseAirportOutput,
+  parseAirportScan,
+  parseChannelSpec,
+  parseIpRouteDefault,
+  parseIwBitrate,
+  parseIwDevOutput,
+  parseIwLinkOutput,
+  parsePingStats,
+  parseProcNetWireless,
+  parseResolvConf,
+  parseResolvectlStatus,
+  parseScutilNameservers,
+  parseSystemProfilerNetworks,
+  parseSystemProfilerOutput,
+  parseTracerouteOutput,
+  phyMaxRateMbps
+} from "../src/parsers.js";
 
 describe("parsers", () => {
   it("parses airport output", () => {
@@ -21,10 +39,58 @@ describe("parsers", () => {
       noiseDbm: -91,
       channel: 48,
       band: "5 GHz",
-      linkRateMbps: 576
+      linkRateMbps: 576,
+      widthMhz: null,
+      phyMode: null,
+      mcs: null,
+      nss: null,
+      security: null,
+      maxRateMbps: null,
+      countryCode: null,
+      snrDb: 38,
+      signalQualityPct: 94,
+      linkRatePct: null
     });
   });
 
+  it("reads width, MCS, streams, security and max rate from airport", () => {
+    const input = [
+      "     agrCtlRSSI: -61",
+      "    agrCtlNoise: -93",
+      "     lastTxRate: 1729",
+      "        maxRate: 2402",
+      "      link auth: wpa3-sae",
+      "          BSSID: aa:bb:cc:dd:ee:ff",
+      "           SSID: Studio6E",
+      "            MCS: 9",
+      "            NSS: 2",
+      "        channel: 6g37/160"
+    ].join("\n");
+
+    expect(parseAirportOutput(input)).toMatchObject({
+      channel: 37,
+      band: "6 GHz",
+      widthMhz: 160,
+      mcs: 9,
+      nss: 2,
+      security: "WPA3 Personal",
+      maxRateMbps: 2402,
+      snrDb: 32,
+      signalQualityPct: 78,
+      linkRatePct: 72
+    });
+  });
+
+  it("parses airport channel strings", () => {
+    expect(parseChannelSpec("149,80")).toEqual({ channel: 149, band: "5 GHz", widthMhz: 80 });
+    expect(parseChannelSpec("36,+1")).toEqual({ channel: 36, band: "5 GHz", widthMhz: 40 });
+    expect(parseChannelSpec("6")).toEqual({ channel: 6, band: "2.4 GHz", widthMhz: null });
+    expect(parseChannelSpec("5g149/80")).toEqual({ channel: 149, band: "5 GHz", widthMhz: 80 });
+    expect(parseChannelSpec("6g5/20")).toEqual({ channel: 5, band: "6 GHz", widthMhz: 20 });
+    expect(parseChannelSpec("2g11")).toEqual({ channel: 11, band: "2.4 GHz", widthMhz: null });
+    expect(parseChannelSpec("auto")).toBeNull();
+  });
+
   it("parses system_profiler output", () => {
     const input = [
       "Wi-Fi:",
@@ -46,10 +112,52 @@ describe("parsers", () => {
       noiseDbm: -91,
       channel: 48,
       band: "5 GHz",
-      linkRateMbps: 960
+      linkRateMbps: 960,
+      widthMhz: 80,
+      phyMode: null,
+      mcs: null,
+      nss: null,
+      security: null,
+      maxRateMbps: null,
+      countryCode: null,
+      snrDb: 40,
+      signalQualityPct: 98,
+      linkRatePct: null
     });
   });
 
+  it("reads 6 GHz, PHY mode, MCS, security and country from system_profiler", () => {
+    const input = [
+      "Wi-Fi:",
+      "      Interfaces:",
+      "        en0:",
+      "          Current Network Information:",
+      "            Studio6E:",
+      "              PHY Mode: 802.11ax",
+      "              Channel: 37 (6GHz, 160MHz)",
+      "              Country Code: US",
+      "              Network Type: Infrastructure",
+      "              Security: WPA3 Personal",
+      "              Signal / Noise: -61 dBm / -93 dBm",
+      "              Transmit Rate: 1729",
+      "              MCS Index: 9"
+    ].join("\n");
+
+    expect(parseSystemProfilerOutput(input)).toMatchObject({
+      ssid: "Studio6E",
+      channel: 37,
+      band: "6 GHz",
+      widthMhz: 160,
+      phyMode: "802.11ax",
+      mcs: 9,
+      security: "WPA3 Personal",
+      countryCode: "US",
+      linkRateMbps: 1729,
+      snrDb: 32
+    });
+    expect(parseSystemProfilerOutput(input.replace("37 (6GHz, 160MHz)", "6 (2GHz, 20MHz)")).band).toBe("2.4 GHz");
+  });
+
   it("parses ping stats", () => {
     const input = [
       "12 packets transmitted, 12 packets received, 0.0% packet loss",
@@ -61,7 +169,370 @@ describe("parsers", () => {
     expect(parsed).toEqual({
       avgMs: 10.456,
       jitterMs: 0.987,
-      lossPct: 0
+      lossPct: 0,
+      minMs: 9.123,
+      maxMs: 11.789,
+      p50Ms: null,
+      p95Ms: null,
+      p99Ms: null,
+      rfc3550JitterMs: null,
+      maxConsecutiveLoss: null,
+      outOfOrder: 0,
+      duplicates: 0,
+      rttsMs: []
+    });
+  });
+
+  it("parses linux ping stats", () => {
+    const input = [
+      "12 packets transmitted, 11 received, 8.33333% packet loss, time 11015ms",
+      "rtt min/avg/max/mdev = 3.201/4.517/7.902/1.204 ms"
+    ].join("\n");
+
+    expect(parsePingStats(input)).toEqual({
+      avgMs: 4.517,
+      jitterMs: 1.204,
+      lossPct: 8.33333,
+      minMs: 3.201,
+      maxMs: 7.902,
+      p50Ms: null,
+      p95Ms: null,
+      p99Ms: null,
+      rfc3550JitterMs: null,
+      maxConsecutiveLoss: null,
+      outOfOrder: 0,
+      duplicates: 0,
+      rttsMs: []
+    });
+  });
+
+  it("parses macOS ping6 output", () => {
+    const input = [
+      "PING6(56=40+8+8 bytes) 2001:db8:1::42 --> 2606:4700:4700::1111",
+      "16 bytes from 2606:4700:4700::1111, icmp_seq=0 hlim=57 time=15.204 ms",
+      "16 bytes from 2606:4700:4700::1111, icmp_seq=1 hlim=57 time=14.871 ms",
+      "",
+      "--- 2606:4700:4700::1111 ping6 statistics ---",
+      "2 packets transmitted, 2 packets received, 0.0% packet loss",
+      "round-trip min/avg/max/std-dev = 14.871/15.038/15.204/0.167 ms"
+    ].join("\n");
+
+    expect(parsePingStats(input)).toMatchObject({ avgMs: 15.038, jitterMs: 0.167, lossPct: 0, rttsMs: [15.204, 14.871] });
+  });
+
+  it("parses per-reply samples with macOS timeouts", () => {
+    const input = [
+      "PING 1.1.1.1 (1.1.1.1): 56 data bytes",
+      "64 bytes from 1.1.1.1: icmp_seq=0 ttl=57 time=10.000 ms",
+      "Request timeout for icmp_seq 1",
+      "Request timeout for icmp_seq 2",
+      "64 bytes from 1.1.1.1: icmp_seq=3 ttl=57 time=30.000 ms",
+      "64 bytes from 1.1.1.1: icmp_seq=4 ttl=57 time=20.000 ms",
+      "",
+      "--- 1.1.1.1 ping statistics ---",
+      "5 packets transmitted, 3 packets received, 40.0% packet loss",
+      "round-trip min/avg/max/stddev = 10.000/20.000/30.000/8.165 ms"
+    ].join("\n");
+
+    const parsed = parsePingStats(input);
+
+    expect(parsed.rttsMs).toEqual([10, null, null, 30, 20]);
+    expect(parsed.maxConsecutiveLoss).toBe(2);
+    expect(parsed.p50Ms).toBe(20);
+    expect(parsed.p95Ms).toBe(29);
+    expect(parsed.rfc3550JitterMs).toBe(1.797);
+    expect(parsed.lossPct).toBe(40);
+  });
+
+  it("tracks linux gaps, duplicates and reordering", () => {
+    const input = [
+      "PING 192.168.1.1 (192.168.1.1) 56(84) bytes of data.",
+      "64 bytes from 192.168.1.1: icmp_seq=1 ttl=64 time=2.10 ms",
+      "64 bytes from 192.168.1.1: icmp_seq=3 ttl=64 time=2.50 ms",
+      "64 bytes from 192.168.1.1: icmp_seq=2 ttl=64 time=9.80 ms",
+      "64 bytes from 192.168.1.1: icmp_seq=3 ttl=64 time=2.60 ms (DUP!)",
+      "",
+      "--- 192.168.1.1 ping statistics ---",
+      "5 packets transmitted, 3 received, +1 duplicates, 40% packet loss, time 4005ms",
+      "rtt min/avg/max/mdev = 2.100/4.133/9.800/3.473 ms"
+    ].join("\n");
+
+    const parsed = parsePingStats(input);
+
+    expect(parsed.rttsMs).toEqual([2.1, 9.8, 2.5, null, null]);
+    expect(parsed.maxConsecutiveLoss).toBe(2);
+    expect(parsed.outOfOrder).toBe(1);
+    expect(parsed.duplicates).toBe(1);
+    expect(parsed.minMs).toBe(2.1);
+  });
+
+  it("collects unique nameservers from scutil", () => {
+    const input = [
+      "DNS configuration",
+      "",
+      "resolver #1",
+      "  nameserver[0] : 192.168.1.1",
+      "  nameserver[1] : fd00::1",
+      "  if_index : 14 (en0)",
+      "",
+      "resolver #2",
+      "  domain   : corp.example.com",
+      "  nameserver[0] : 10.0.0.53",
+      "",
+      "DNS configuration (for scoped queries)",
+      "",
+      "resolver #1",
+      "  nameserver[0] : 192.168.1.1"
+    ].join("\n");
+
+    expect(parseScutilNameservers(input)).toEqual(["192.168.1.1", "fd00::1", "10.0.0.53"]);
+  });
+
+  it("parses iw dev interfaces", () => {
+    const input = [
+      "phy#0",
+      "\tInterface wlp2s0",
+      "\t\tifindex 3",
+      "\t\ttype managed",
+      "\t\tssid MyWifi"
+    ].join("\n");
+
+    expect(parseIwDevOutput(input)).toEqual(["wlp2s0"]);
+  });
+
+  it("parses iw link output", () => {
+    const input = [
+      "Connected to AA:BB:CC:DD:EE:FF (on wlp2s0)",
+      "\tSSID: MyWifi",
+      "\tfreq: 5240.0",
+      "\tRX: 1032561 bytes (5211 packets)",
+      "\tTX: 201122 bytes (1410 packets)",
+      "\tsignal: -58 dBm",
+      "\trx bitrate: 866.7 MBit/s VHT-MCS 9 80MHz short GI VHT-NSS 2",
+      "\ttx bitrate: 780.0 MBit/s VHT-MCS 8 80MHz short GI VHT-NSS 2"
+    ].join("\n");
+
+    expect(parseIwLinkOutput(input)).toEqual({
+      ssid: "MyWifi",
+      bssid: "aa:bb:cc:dd:ee:ff",
+      signalDbm: -58,
+      noiseDbm: null,
+      channel: 48,
+      band: "5 GHz",
+      linkRateMbps: 780,
+      widthMhz: 80,
+      phyMode: "802.11ac",
+      mcs: 8,
+      nss: 2,
+      security: null,
+      maxRateMbps: 866.7,
+      countryCode: null,
+      snrDb: null,
+      signalQualityPct: 84,
+      linkRatePct: 90
     });
   });
+
+  it("reads HE, EHT and HT bitrates from iw", () => {
+    expect(parseIwBitrate(" HE-MCS 11 HE-NSS 2 HE-GI 0 HE-DCM 0 160MHz")).toEqual({ phyMode: "802.11ax", mcs: 11, nss: 2, widthMhz: 160 });
+    expect(parseIwBitrate(" 320MHz EHT-MCS 13 EHT-NSS 2 EHT-GI 0")).toEqual({ phyMode: "802.11be", mcs: 13, nss: 2, widthMhz: 320 });
+    expect(parseIwBitrate(" MCS 15 40MHz short GI")).toEqual({ phyMode: "802.11n", mcs: 7, nss: 2, widthMhz: 40 });
+    expect(parseIwBitrate("")).toEqual({ phyMode: null, mcs: null, nss: null, widthMhz: null });
+  });
+
+  it("computes the PHY maximum rate", () => {
+    expect(phyMaxRateMbps("802.11ac", 80, 2)).toBe(866.7);
+    expect(phyMaxRateMbps("802.11ax", 160, 2)).toBe(2402);
+    expect(phyMaxRateMbps("802.11n", 40, 1)).toBe(150);
+    expect(phyMaxRateMbps("802.11g", null, null)).toBe(54);
+    expect(phyMaxRateMbps("802.11ax", 80, null)).toBeNull();
+  });
+
+  it("returns null for disconnected iw link output", () => {
+    expect(parseIwLinkOutput("Not connected.\n")).toBeNull();
+  });
+
+  it("maps frequencies to channels", () => {
+    expect(frequencyToChannel(2437)).toEqual({ channel: 6, band: "2.4 GHz" });
+    expect(frequencyToChannel(2484)).toEqual({ channel: 14, band: "2.4 GHz" });
+    expect(frequencyToChannel(5180)).toEqual({ channel: 36, band: "5 GHz" });
+    expect(frequencyToChannel(5975)).toEqual({ channel: 5, band: "6 GHz" });
+    expect(frequencyToChannel(900)).toBeNull();
+  });
+
+  it("parses /proc/net/wireless", () => {
+    const input = [
+      "Inter-| sta-|   Quality        |   Discarded packets               | Missed | WE",
+      " face | tus | link level noise |  nwid  crypt   frag  retry   misc | beacon | 22",
+      "wlp2s0: 0000   52.  -58.  -256        0      0      0      0     14        0",
+      "wlan1: 0000   40.  -70.  -92.        0      0      0      0      0        0"
+    ].join("\n");
+
+    expect(parseProcNetWireless(input)).toEqual([
+      { interfaceName: "wlp2s0", linkQuality: 52, signalDbm: -58, noiseDbm: null },
+      { interfaceName: "wlan1", linkQuality: 40, signalDbm: -70, noiseDbm: -92 }
+    ]);
+  });
+
+  it("parses ip route default", () => {
+    const input = [
+      "default via 192.168.1.1 dev wlp2s0 proto dhcp src 192.168.1.23 metric 600",
+      "default via 10.0.0.1 dev eth0 proto static metric 700"
+    ].join("\n");
+
+    expect(parseIpRouteDefault(input)).toBe("192.168.1.1");
+    expect(parseIpRouteDefault("")).toBeNull();
+  });
+
+  it("scopes a link-local IPv6 default gateway to its interface", () => {
+    expect(parseIpRouteDefault("default via fe80::1 dev wlp2s0 proto ra metric 600 pref medium\n")).toBe("fe80::1%wlp2s0");
+    expect(parseIpRouteDefault("default via 2001:db8::1 dev eth0 metric 1024\n")).toBe("2001:db8::1");
+  });
+
+  it("parses resolvectl status", () => {
+    const input = [
+      "Global",
+      "           Protocols: +LLMNR +mDNS -DNSOverTLS DNSSEC=no/unsupported",
+      "    resolv.conf mode: stub",
+      "",
+      "Link 3 (wlp2s0)",
+      "    Current Scopes: DNS",
+      "         Protocols: +DefaultRoute +LLMNR -mDNS -DNSOverTLS DNSSEC=no/unsupported",
+      "Current DNS Server: 192.168.1.1",
+      "       DNS Servers: 192.168.1.1 1.1.1.1#cloudflare-dns.com",
+      "                    fd00::1",
+      "        DNS Domain: lan"
+    ].join("\n");
+
+    expect(parseResolvectlStatus(input)).toEqual(["192.168.1.1", "1.1.1.1", "fd00::1"]);
+  });
+
+  it("parses resolv.conf", () => {
+    const input = [
+      "# Generated by NetworkManager",
+      "search lan",
+      "nameserver 192.168.1.1",
+      "nameserver 8.8.8.8"
+    ].join("\n");
+
+    expect(parseResolvConf(input)).toEqual(["192.168.1.1", "8.8.8.8"]);
+  });
+
+  it("parses airport scan output", () => {
+    const input = [
+      "                            SSID BSSID             RSSI CHANNEL HT CC SECURITY (auth/unicast/group)",
+      "                       OfficeNet a0:b1:c2:d3:e4:f5 -54  149,80  Y  DE WPA2(PSK/AES/AES)",
+      "                     Cafe Guest 11:22:33:44:55:66 -71  6       Y  -- NONE",
+      "                        Neighbor 0:1a:2b:3c:4d:5e  -80  1,+1    Y  DE WPA(PSK/TKIP/TKIP) WPA2(PSK/AES/TKIP)",
+      "                       Office 6E a0:b1:c2:d3:e4:f6 -62  6g37/160 Y  DE WPA3(SAE/AES/AES)"
+    ].join("\n");
+
+    expect(parseAirportScan(input)).toEqual([
+      {
+        ssid: "OfficeNet",
+        bssid: "a0:b1:c2:d3:e4:f5",
+        rssiDbm: -54,
+        channel: 149,
+        band: "5 GHz",
+        widthMhz: 80,
+        secondary: null,
+        security: "WPA2(PSK/AES/AES)"
+      },
+      {
+        ssid: "Cafe Guest",
+        bssid: "11:22:33:44:55:66",
+        rssiDbm: -71,
+        channel: 6,
+        band: "2.4 GHz",
+        widthMhz: 20,
+        secondary: null,
+        security: "NONE"
+      },
+      {
+        ssid: "Neighbor",
+        bssid: "0:1a:2b:3c:4d:5e",
+        rssiDbm: -80,
+        channel: 1,
+        band: "2.4 GHz",
+        widthMhz: 40,
+        secondary: "above",
+        security: "WPA(PSK/TKIP/TKIP) WPA2(PSK/AES/TKIP)"
+      },
+      {
+        ssid: "Office 6E",
+        bssid: "a0:b1:c2:d3:e4:f6",
+        rssiDbm: -62,
+        channel: 37,
+        band: "6 GHz",
+        widthMhz: 160,
+        secondary: null,
+        security: "WPA3(SAE/AES/AES)"
+      }
+    ]);
+  });
+
+  it("parses system_profiler other local networks", () => {
+    const input = [
+      "Wi-Fi:",
+      "      Interfaces:",
+      "        en0:",
+      "          Current Network Information:",
+      "            MyHome:",
+      "              Channel: 48 (5GHz, 80MHz)",
+      "          Other Local Wi-Fi Networks:",
+      "            Neighbor One:",
+      "              PHY Mode: 802.11ac",
+      "              Channel: 44 (5GHz, 80MHz)",
+      "              Security: WPA2 Personal",
+      "              Signal / Noise: -78 dBm / -92 dBm",
+      "            Upstairs:",
+      "              Channel: 11 (2GHz, 20MHz)",
+      "              Security: WPA3 Personal",
+      "        awdl0:",
+      "          Status: Off"
+    ].join("\n");
+
+    expect(parseSystemProfilerNetworks(input)).toEqual([
+      {
+        ssid: "Neighbor One",
+        bssid: null,
+        rssiDbm: -78,
+        channel: 44,
+        band: "5 GHz",
+        widthMhz: 80,
+        secondary: null,
+        security: "WPA2 Personal"
+      },
+      {
+        ssid: "Upstairs",
+        bssid: null,
+        rssiDbm: null,
+        channel: 11,
+        band: "2.4 GHz",
+        widthMhz: 20,
+        secondary: null,
+        security: "WPA3 Personal"
+      }
+    ]);
+  });
+
+  it("parses traceroute hops with timeouts and multiple responders", () => {
+    const input = [
+      "traceroute to 1.1.1.1 (1.1.1.1), 30 hops max, 60 byte packets",
+      " 1  192.168.1.1  2.123 ms",
+      " 2  *",
+      " 3  10.20.0.1  8.100 ms  10.20.0.2  9.000 ms *",
+      "    10.20.0.3  9.500 ms",
+      " 4  100.64.0.1  12.5 ms !H",
+      "10  1.1.1.1  14.2 ms"
+    ].join("\n");
+
+    expect(parseTracerouteOutput(input)).toEqual([
+      { hop: 1, address: "192.168.1.1", rttsMs: [2.123] },
+      { hop: 2, address: null, rttsMs: [null] },
+      { hop: 3, address: "10.20.0.1", rttsMs: [8.1, 9, null, 9.5] },
+      { hop: 4, address: "100.64.0.1", rttsMs: [12.5] },
+      { hop: 10, address: "1.1.1.1", rttsMs: [14.2] }
+    ]);
+  });
 });
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import type { PingResult } from "../src/collector.js";
+import type { Logger } from "../src/logger.js";
+import { collectPath, findFirstBadHop, type PathHop } from "../src/path.js";
+import { renderPath } from "../src/render.js";
+import type { CommandRunner } from "../src/runner.js";
+
+const silent: Logger = () => {};
+
+function hop(number: number, avgMs: number | null, lossPct: number): PathHop {
+  const address = `10.0.0.${number}`;
+  return { hop: number, address, ping: { target: address, avgMs, lossPct, samples: 10, error: null } as PingResult };
+}
+
+function pingOutput(avgMs: number, lossPct: number): string {
+  return [
+    `10 packets transmitted, ${10 - lossPct / 10} packets received, ${lossPct}.0% packet loss`,
+    `round-trip min/avg/max/stddev = ${avgMs - 1}/${avgMs}/${avgMs + 1}/0.500 ms`
+  ].join("\n");
+}
+
+describe("path", () => {
+  it("ignores loss that does not persist to the target", () => {
+    expect(findFirstBadHop([hop(1, 2, 0), hop(2, 9, 40), hop(3, 12, 0)])).toBeNull();
+  });
+
+  it("flags the first hop where loss starts and stays", () => {
+    const problem = findFirstBadHop([hop(1, 2, 0), hop(2, 9, 0), hop(3, 11, 20), hop(4, 13, 100), hop(5, 14, 30)]);
+    expect(problem).toMatchObject({ hop: 3, address: "10.0.0.3", reason: "loss" });
+  });
+
+  it("flags a sustained latency jump, skipping hops that drop pings", () => {
+    const hops = [hop(1, 2, 0), hop(2, 8, 0), hop(3, 95, 0), hop(4, null, 100), hop(5, 97, 0)];
+
+    expect(findFirstBadHop(hops)).toMatchObject({ hop: 3, reason: "latency", message: expect.stringContaining("87 ms") });
+    expect(findFirstBadHop([hop(1, 2, 0), hop(2, 95, 0), hop(3, 12, 0)])).toBeNull();
+  });
+
+  it("traces the route and pings every responding hop", async () => {
+    const run: CommandRunner = async (command, args) => {
+      if (command === "traceroute") {
+        return {
+          stdout: ["traceroute to 1.1.1.1 (1.1.1.1), 30 hops max", " 1  192.168.1.1  2.1 ms", " 2  *", " 3  1.1.1.1  14.2 ms"].join("\n"),
+          stderr: "",
+          error: null
+        };
+      }
+      const host = args[args.length - 1];
+      return { stdout: host === "1.1.1.1" ? pingOutput(15, 20) : pingOutput(2, 0), stderr: "", error: null };
+    };
+
+    const report = await collectPath("1.1.1.1", 10, 30, silent, run);
+
+    expect(report.hops.map((entry) => [entry.hop, entry.address, entry.ping?.lossPct ?? null])).toEqual([
+      [1, "192.168.1.1", 0],
+      [2, null, null],
+      [3, "1.1.1.1", 20]
+    ]);
+    expect(report.firstBadHop).toMatchObject({ hop: 3, reason: "loss" });
+
+    const lines = renderPath(report, false);
+    expect(lines[0]).toMatch(/Hop\s+Host\s+Loss %\s+Sent\s+Avg ms/);
+    expect(lines[2]).toMatch(/^ {2}2\s+\?\?\?\s+n\/a/);
+    expect(lines[3]).toMatch(/1\.1\.1\.1\s+20\s+10\s+15.*<- loss$/);
+  });
+
+  it("reports traceroute failures", async () => {
+    const run: CommandRunner = async () => ({ stdout: "", stderr: "traceroute: unknown host nope", error: new Error("exit 1") });
+    const report = await collectPath("nope", 4, 30, silent, run);
+
+    expect(report).toMatchObject({ hops: [], firstBadHop: null, error: "traceroute: unknown host nope" });
+    expect(renderPath(report, false)).toEqual(["  Error: traceroute: unknown host nope"]);
+  });
+});
@@ -0,0 +1,151 @@
+import { createServer as createHttpServer, type Server as HttpServer } from "node:http";
+import { createServer as createTcpServer, type AddressInfo, type Server as TcpServer, type Socket } from "node:net";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { Logger } from "../src/logger.js";
+import { summarizeRtts } from "../src/parsers.js";
+import { darwinBackend } from "../src/platform.js";
+import { collectProbes, parseProbeTarget, probeError, probeOnce, probeTarget } from "../src/probes.js";
+import { renderPretty } from "../src/render.js";
+import { collectReport, defaultOptions, hasCollectionError } from "../src/report.js";
+import { loadReplay } from "../src/runner.js";
+import { OUTPUT_SCHEMA, validateSchema } from "../src/schema.js";
+
+const silent: Logger = () => {};
+const capturesDir = fileURLToPath(new URL("./fixtures/captures", import.meta.url));
+
+function listen(server: HttpServer | TcpServer): Promise<number> {
+  return new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve((server.address() as AddressInfo).port)));
+}
+
+function close(server: HttpServer | TcpServer): Promise<void> {
+  return new Promise((resolve) => server.close(() => resolve()));
+}
+
+describe("probe targets", () => {
+  it("parses URLs and host:port targets", () => {
+    expect(parseProbeTarget("https://example.com/generate_204?x=1")).toEqual({
+      target: "https://example.com/generate_204?x=1",
+      kind: "https",
+      host: "example.com",
+      port: 443,
+      path: "/generate_204?x=1"
+    });
+    expect(parseProbeTarget("http://[2001:db8::1]:8080")).toMatchObject({ kind: "http", host: "2001:db8::1", port: 8080, path: "/" });
+    expect(parseProbeTarget("1.1.1.1:853")).toMatchObject({ kind: "tcp", host: "1.1.1.1", port: 853 });
+    expect(parseProbeTarget("[2606:4700:4700::1111]:443")).toMatchObject({ kind: "tcp", host: "2606:4700:4700::1111" });
+
+    for (const raw of ["example.com", "example.com:0", "ftp://example.com", "https://"]) {
+      expect(() => parseProbeTarget(raw)).toThrow(`Invalid probe target "${raw}": expected http(s)://host/path or host:port`);
+    }
+  });
+
+  it("summarizes samples with ping's statistics", () => {
+    expect(summarizeRtts([10, null, 14, 12])).toMatchObject({
+      avgMs: 12,
+      jitterMs: 1.633,
+      lossPct: 25,
+      minMs: 10,
+      maxMs: 14,
+      p50Ms: 12,
+      maxConsecutiveLoss: 1,
+      rttsMs: [10, null, 14, 12]
+    });
+    expect(summarizeRtts([null, null])).toMatchObject({ avgMs: null, lossPct: 100, maxConsecutiveLoss: 2 });
+  });
+
+  it("fills every phase when the stage was interrupted", () => {
+    const result = probeError("https://example.com/", 4, "timeout");
+    expect(result).toMatchObject({ kind: "https", port: 443, error: "timeout", total: { lossPct: null, error: "timeout" } });
+    expect(probeError("example.com:22", 4, "cancelled")).toMatchObject({ tls: null, ttfb: null });
+  });
+});
+
+describe("probes against local servers", () => {
+  const sockets = new Set<Socket>();
+  let tcp: TcpServer;
+  let http: HttpServer;
+  let silentServer: TcpServer;
+  let tcpPort: number;
+  let httpPort: number;
+  let silentPort: number;
+
+  beforeAll(async () => {
+    tcp = createTcpServer((socket) => socket.end());
+    http = createHttpServer((request, response) => {
+      // Hold the response back so time to first byte is measurable.
+      setTimeout(() => response.writeHead(request.url === "/missing" ? 404 : 200).end("ok"), 40);
+    });
+    // Accepts connections and never answers.
+    silentServer = createTcpServer((socket) => sockets.add(socket));
+    [tcpPort, httpPort, silentPort] = await Promise.all([listen(tcp), listen(http), listen(silentServer)]);
+  });
+
+  afterAll(async () => {
+    sockets.forEach((socket) => socket.destroy());
+    await Promise.all([close(tcp), close(http), close(silentServer)]);
+  });
+
+  it("times TCP connects to host:port targets", async () => {
+    const result = await probeTarget(`127.0.0.1:${tcpPort}`, 3, silent);
+
+    expect(result).toMatchObject({ kind: "tcp", samples: 3, tls: null, ttfb: null, status: null, error: null });
+    expect(result.connect).toMatchObject({ samples: 3, lossPct: 0, error: null });
+    expect(result.connect.rttsMs).toHaveLength(3);
+    expect(result.total.avgMs).toBeGreaterThanOrEqual(result.connect.avgMs ?? Infinity);
+  });
+
+  it("measures connect, time to first byte and total over HTTP", async () => {
+    const result = await probeTarget(`http://127.0.0.1:${httpPort}/missing`, 2, silent);
+
+    expect(result).toMatchObject({ kind: "http", tls: null, status: 404, error: null });
+    expect(result.ttfb?.avgMs).toBeGreaterThanOrEqual(35);
+    expect(result.total.avgMs).toBeGreaterThanOrEqual(result.ttfb?.avgMs ?? Infinity);
+    expect(result.total).toMatchObject({ target: `http://127.0.0.1:${httpPort}/missing`, samples: 2, lossPct: 0 });
+  });
+
+  it("reports refused connections and failed handshakes as loss", async () => {
+    await close(tcp);
+    const down = await probeTarget(`127.0.0.1:${tcpPort}`, 2, silent);
+    expect(down.connect).toMatchObject({ lossPct: 100, avgMs: null });
+    expect(down.error).toMatch(/ECONNREFUSED/);
+    tcp = createTcpServer((socket) => socket.end());
+    await new Promise<void>((resolve) => tcp.listen(tcpPort, "127.0.0.1", resolve));
+
+    // Plain HTTP doesn't speak TLS, so the connect succeeds and the handshake fails.
+    const tls = await probeTarget(`https://127.0.0.1:${httpPort}/`, 1, silent);
+    expect(tls.connect.lossPct).toBe(0);
+    expect(tls.tls).toMatchObject({ lossPct: 100 });
+    expect(tls.error).toMatch(/^TLS: /);
+  });
+
+  it("gives up on a silent server and stops when aborted", async () => {
+    const target = parseProbeTarget(`http://127.0.0.1:${silentPort}/`);
+    const timedOut = await probeOnce(target, undefined, 100);
+    expect(timedOut).toMatchObject({ ttfbMs: null, totalMs: null, error: "no answer within 100 ms" });
+    expect(timedOut.connectMs).not.toBeNull();
+
+    const controller = new AbortController();
+    const running = collectProbes([`http://127.0.0.1:${silentPort}/`], 5, silent, controller.signal);
+    setTimeout(() => controller.abort(), 50);
+    const [aborted] = await running;
+    expect(aborted).toMatchObject({ error: "aborted", total: { lossPct: 100 } });
+  });
+
+  it("adds a probes section to the report", async () => {
+    const session = await loadReplay(path.join(capturesDir, "macos-healthy"));
+    const probes = [`http://127.0.0.1:${httpPort}/`, `127.0.0.1:${tcpPort}`];
+    const output = await collectReport({ ...defaultOptions(), samples: 4, probes }, darwinBackend, silent, session.run, session.dns);
+
+    expect(output.probes?.map((probe) => [probe.target, probe.kind, probe.total.lossPct])).toEqual([
+      [probes[0], "http", 0],
+      [probes[1], "tcp", 0]
+    ]);
+    expect(output.meta.stages.probes?.error).toBeNull();
+    expect(hasCollectionError(output)).toBe(false);
+    expect(validateSchema(output, OUTPUT_SCHEMA, { strict: true })).toEqual([]);
+    expect(renderPretty(output, false)).toMatch(/Probes\n\s+Target\s+Connect ms\s+TLS ms\s+TTFB ms/);
+    expect(renderPretty(output, false)).toMatch(new RegExp(`http://127\\.0\\.0\\.1:${httpPort}/\\s+[\\d.]+\\s+n/a\\s+[\\d.]+.*HTTP 200`));
+  });
+});
@@ -0,0 +1,164 @@
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import type { Logger } from "../src/logger.js";
+import { selectBackend } from "../src/platform.js";
+import { renderPretty } from "../src/render.js";
+import { collectReport, defaultOptions, hasCollectionError, type Options } from "../src/report.js";
+import { createRecordingRunner, loadReplay, type CommandRunner } from "../src/runner.js";
+
+const silent: Logger = () => {};
+const capturesDir = fileURLToPath(new URL("./fixtures/captures", import.meta.url));
+
+async function replay(name: string, overrides: Partial<Options> = {}) {
+  const session = await loadReplay(path.join(capturesDir, name));
+  const backend = selectBackend(session.manifest.platform);
+  if (!backend) throw new Error(`no backend for ${session.manifest.platform}`);
+  const options = { ...defaultOptions(), samples: 4, ...overrides };
+  return collectReport(options, backend, silent, session.run, session.dns);
+}
+
+describe("record and replay", () => {
+  it("replays a healthy macOS capture end to end", async () => {
+    const output = await replay("macos-healthy");
+
+    expect(output.wifi).toMatchObject({ ssid: "OfficeNet", signalDbm: -54, channel: 149, band: "5 GHz" });
+    expect(output.router).toMatchObject({ gateway: "192.168.1.1", ping: { avgMs: 4.158, lossPct: 0 } });
+    expect(output.internet.ping).toMatchObject({ avgMs: 14.578, jitterMs: 0.952, error: null });
+    expect(output.dns).toMatchObject({ server: "192.168.1.1", source: "router", lookup: { lookupMs: 8, warmMs: 1.078, queries: 3 } });
+    expect(output.dns.lookup?.answers.map((answer) => answer.data)).toEqual(["104.16.132.229", "104.16.133.229"]);
+    expect(hasCollectionError(output)).toBe(false);
+
+    const pretty = renderPretty(output, false);
+    expect(pretty).toContain("SSID: OfficeNet (5 GHz)");
+    expect(pretty).toContain("Ping: 14.578 ms");
+  });
+
+  it("falls back to system_profiler and reports total ping loss", async () => {
+    const output = await replay("macos-no-airport");
+
+    expect(output.wifi).toMatchObject({ ssid: "GuestNet", signalDbm: -71, channel: 6 });
+    expect(output.internet.ping).toMatchObject({ avgMs: null, lossPct: 100, error: "no replies received" });
+    expect(hasCollectionError(output)).toBe(true);
+
+    expect(output.diagnosis.findings.map((finding) => finding.id)).toContain("loss.upstream");
+
+    const pretty = renderPretty(output, false);
+    expect(pretty).toContain("Loss: 100 %");
+    expect(pretty).toContain("[critical] Router is clean but internet loss is 100%");
+  });
+
+  it("replays a Linux capture through the Linux backend", async () => {
+    const output = await replay("linux-healthy");
+
+    expect(output.meta.platform).toBe("linux");
+    expect(output.wifi).toEqual({
+      ssid: "HomeNet",
+      bssid: "10:20:30:40:50:60",
+      signalDbm: -58,
+      noiseDbm: null,
+      channel: 36,
+      band: "5 GHz",
+      linkRateMbps: 650,
+      widthMhz: 80,
+      phyMode: "802.11ac",
+      mcs: 7,
+      nss: 2,
+      security: null,
+      maxRateMbps: 866.7,
+      countryCode: null,
+      snrDb: null,
+      signalQualityPct: 84,
+      linkRatePct: 75
+    });
+    expect(output.router.ping).toMatchObject({ avgMs: 2.967, jitterMs: 0.275 });
+    expect(output.dns.lookup).toMatchObject({ server: "192.168.0.1", lookupMs: 4 });
+  });
+
+  it("ranks system and user-supplied resolvers", async () => {
+    const output = await replay("macos-healthy", { compareResolvers: true, resolvers: ["9.9.9.9", "192.168.1.1"] });
+
+    expect(output.dns.comparison?.map((result) => [result.rank, result.server, result.source, result.failures])).toEqual([
+      [1, "192.168.1.1", "system", 0],
+      [2, "9.9.9.9", "custom", 1]
+    ]);
+    // The report's own lookup is served the first recorded 192.168.1.1 response, the comparison the next one.
+    expect(output.dns.comparison?.[0].medianMs).toBe(1.204);
+
+    const pretty = renderPretty(output, false);
+    expect(pretty).toContain("Resolvers (ranked)");
+    expect(pretty).toMatch(/2\s+9\.9\.9\.9\s+custom\s+n\/a\s+n\/a\s+1\/1/);
+  });
+
+  it("reports IPv4 and IPv6 side by side with a verdict for each", async () => {
+    const healthy = await replay("macos-healthy");
+    expect(healthy.ipv4).toMatchObject({ status: "working", gateway: "192.168.1.1", resolution: { type: "A", lookupMs: 8 } });
+    expect(healthy.ipv6).toMatchObject({
+      status: "working",
+      gateway: "fe80::1%en0",
+      router: { avgMs: 4.197 },
+      internet: { target: "2606:4700:4700::1111", avgMs: 15.306 },
+      resolution: { type: "AAAA", server: "192.168.1.1", lookupMs: 9 }
+    });
+    expect(renderPretty(healthy, false)).toMatch(/IPv6\s+working\s+fe80::1%en0\s+4\.197\s+15\.306\s+9/);
+
+    const broken = await replay("macos-no-airport");
+    expect(broken.ipv6).toMatchObject({ status: "broken", internet: { lossPct: 100 } });
+    expect(broken.diagnosis.findings.map((finding) => finding.id)).toContain("ipv6.broken");
+
+    const absent = await replay("linux-healthy");
+    expect(absent.ipv6).toEqual({
+      status: "absent",
+      reason: "no IPv6 default route",
+      gateway: null,
+      dnsServers: [],
+      router: null,
+      internet: null,
+      resolution: null
+    });
+    expect(absent.diagnosis.findings.map((finding) => finding.id)).not.toContain("ipv6.broken");
+    expect(hasCollectionError(absent)).toBe(false);
+  });
+
+  it("reports every internet target and flags the failing one", async () => {
+    const output = await replay("macos-healthy", { internetHosts: ["1.1.1.1", "8.8.8.8"] });
+
+    expect(output.internet.ping?.target).toBe("1.1.1.1");
+    expect(output.internet.pings.map((ping) => [ping.target, ping.error === null])).toEqual([
+      ["1.1.1.1", true],
+      ["8.8.8.8", false]
+    ]);
+    expect(hasCollectionError(output)).toBe(true);
+    expect(renderPretty(output, false)).toMatch(/1\.1\.1\.1\s+14\.578/);
+  });
+
+  it("records captures that replay identically", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "wifi-stats-record-"));
+    try {
+      const inner: CommandRunner = async (command) => {
+        if (command !== "missing") return { stdout: `${command} output\n`, stderr: "", error: null };
+        const error = Object.assign(new Error("spawn missing ENOENT"), { code: "ENOENT" });
+        return { stdout: "", stderr: error.message, error };
+      };
+
+      const record = await createRecordingRunner(dir, "darwin", inner);
+      await record("echo", ["hi"]);
+      await record("missing", []);
+      expect((await readdir(dir)).sort()).toEqual(["001-echo.json", "002-missing.json", "manifest.json"]);
+
+      const { manifest, run } = await loadReplay(dir);
+      expect(manifest.platform).toBe("darwin");
+      expect(await run("echo", ["hi"])).toEqual({ stdout: "echo output\n", stderr: "", error: null });
+
+      const missing = await run("missing", []);
+      expect((missing.error as NodeJS.ErrnoException).code).toBe("ENOENT");
+
+      const unknown = await run("echo", ["other"]);
+      expect(unknown.stderr).toContain("no recorded output for: echo other");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { scanNetworks } from "../src/collector.js";
+import type { Logger } from "../src/logger.js";
+import type { ScanNetwork } from "../src/parsers.js";
+import type { CommandRunner } from "../src/runner.js";
+import { analyzeScan, channelCongestion, channelSpan, renderScan } from "../src/scan.js";
+
+const silent: Logger = () => {};
+
+function network(channel: number, rssiDbm: number, widthMhz = 20, band = channel > 14 ? "5 GHz" : "2.4 GHz"): ScanNetwork {
+  return { ssid: `net-${channel}`, bssid: null, rssiDbm, channel, band, widthMhz, secondary: null, security: null };
+}
+
+describe("scan", () => {
+  it("computes occupied spectrum from channel width", () => {
+    expect(channelSpan("2.4 GHz", 6)).toEqual({ lowMhz: 2426, highMhz: 2448 });
+    expect(channelSpan("2.4 GHz", 6, 40, "below")).toEqual({ lowMhz: 2407, highMhz: 2447 });
+    expect(channelSpan("5 GHz", 44, 80)).toEqual({ lowMhz: 5170, highMhz: 5250 });
+    expect(channelSpan("5 GHz", 157, 80)).toEqual({ lowMhz: 5735, highMhz: 5815 });
+    expect(channelSpan("6 GHz", 37, 160)).toEqual({ lowMhz: 6105, highMhz: 6265 });
+  });
+
+  it("counts overlapping networks and combines their signal", () => {
+    const networks = [network(1, -60), network(3, -60), network(11, -50), network(36, -70, 80)];
+
+    expect(channelCongestion(networks, "2.4 GHz", 1)).toEqual({ band: "2.4 GHz", channel: 1, count: 2, combinedDbm: -57 });
+    expect(channelCongestion(networks, "2.4 GHz", 6).count).toBe(1);
+    // An 80 MHz AP on 36 also occupies 40, 44 and 48.
+    expect(channelCongestion(networks, "5 GHz", 48).count).toBe(1);
+    expect(channelCongestion(networks, "5 GHz", 52).count).toBe(0);
+  });
+
+  it("recommends the least crowded channels per band", () => {
+    const networks = [network(1, -60), network(6, -45), network(6, -80), network(11, -70), network(36, -70, 80)];
+    const report = analyzeScan({ source: "airport", networks, error: null }, null, new Date("2026-10-18T09:00:00Z"));
+
+    expect(report.recommendations["2.4 GHz"]).toEqual([11, 1, 6]);
+    expect(report.recommendations["5 GHz"][0]).toBe(52);
+    expect(report.recommendations["6 GHz"]).toEqual([5, 21, 37]);
+    expect(report.networks[0].rssiDbm).toBe(-45);
+
+    const rendered = renderScan(report, false);
+    expect(rendered).toContain("Networks (5, via airport)");
+    expect(rendered).toContain("2.4 GHz: 11, 1, 6");
+  });
+
+  it("falls back to system_profiler when airport is unavailable", async () => {
+    const run: CommandRunner = async (command) => {
+      if (command === "system_profiler") {
+        return {
+          stdout: "          Other Local Wi-Fi Networks:\n            Upstairs:\n              Channel: 11 (2GHz, 20MHz)\n",
+          stderr: "",
+          error: null
+        };
+      }
+      const error = Object.assign(new Error(`spawn ${command} ENOENT`), { code: "ENOENT" });
+      return { stdout: "", stderr: error.message, error };
+    };
+
+    const scan = await scanNetworks(silent, run);
+    expect(scan.source).toBe("system_profiler");
+    expect(scan.networks.map((item) => item.ssid)).toEqual(["Upstairs"]);
+  });
+});
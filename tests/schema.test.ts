@@ -0,0 +1,71 @@
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import {
+  collectWifiStats,
+  evaluateAssertions,
+  loadReplay,
+  measureBufferbloat,
+  OUTPUT_SCHEMA,
+  parseAssertion,
+  SCHEMA_VERSION,
+  silentLogger,
+  validateSchema,
+  type OutputData
+} from "../src/index.js";
+
+const capturesDir = fileURLToPath(new URL("./fixtures/captures", import.meta.url));
+
+async function replayed(name: string, overrides: Parameters<typeof collectWifiStats>[0] = {}): Promise<OutputData> {
+  const session = await loadReplay(path.join(capturesDir, name));
+  const output = await collectWifiStats({ platform: session.manifest.platform, run: session.run, dns: session.dns, samples: 4, ...overrides });
+  // Validate what consumers actually parse, not the in-memory object.
+  return JSON.parse(JSON.stringify(output)) as OutputData;
+}
+
+describe("output schema", () => {
+  it.each(["macos-healthy", "macos-no-airport", "linux-healthy"])("describes the %s report exactly", async (name) => {
+    const output = await replayed(name);
+
+    expect(output.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(validateSchema(output, OUTPUT_SCHEMA, { strict: true })).toEqual([]);
+  });
+
+  it("covers the optional sections", async () => {
+    const session = await loadReplay(path.join(capturesDir, "macos-healthy"));
+    const output = await replayed("macos-healthy", { path: true, compareResolvers: true, resolvers: ["1.1.1.1"] });
+    const bufferbloat = await measureBufferbloat(
+      { target: "1.1.1.1", samples: 4, warmupMs: 0 },
+      {
+        name: "fake",
+        run: async () => ({ source: "fake", bytes: null, durationMs: 0, throughputMbps: null, error: "no load" })
+      },
+      silentLogger,
+      session.run
+    );
+    const assertions = evaluateAssertions(output, [parseAssertion("router.ping.avgMs<15"), parseAssertion("wifi.ssid==OfficeNet")]);
+    const full = JSON.parse(JSON.stringify({ ...output, bufferbloat, assertions })) as OutputData;
+
+    expect(full.path).toBeDefined();
+    expect(full.dns.comparison?.length).toBeGreaterThan(0);
+    expect(validateSchema(full, OUTPUT_SCHEMA, { strict: true })).toEqual([]);
+  });
+
+  it("reports drift with the offending path", async () => {
+    const output = await replayed("linux-healthy");
+    const broken = {
+      ...output,
+      schemaVersion: 0,
+      wifi: { ...output.wifi, signalDbm: "-50", extra: true },
+      router: { gateway: output.router.gateway }
+    };
+
+    expect(validateSchema(broken)).toEqual([
+      "$.schemaVersion: expected 1, got 0",
+      "$.wifi.signalDbm: expected number or null, got string",
+      '$.router: missing required property "ping"'
+    ]);
+    expect(validateSchema(broken, OUTPUT_SCHEMA, { strict: true })).toContain('$.wifi: unexpected property "extra"');
+    expect(validateSchema({ ...output, wifi: "OfficeNet" })).toEqual(["$.wifi: expected object, got string"]);
+  });
+});
@@ -0,0 +1,101 @@
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import { udpTransport } from "../src/dns.js";
+import type { Logger } from "../src/logger.js";
+import { darwinBackend } from "../src/platform.js";
+import { renderPretty } from "../src/render.js";
+import { collectReport, defaultOptions, hasCollectionError } from "../src/report.js";
+import { loadReplay, runCommand, type CommandResult, type CommandRunner } from "../src/runner.js";
+import { OUTPUT_SCHEMA, validateSchema } from "../src/schema.js";
+import { createStages, defaultTimeouts, parseTimeouts, resolveTimeouts, STAGES } from "../src/stages.js";
+
+const silent: Logger = () => {};
+const capturesDir = fileURLToPath(new URL("./fixtures/captures", import.meta.url));
+const basis = { samples: 12, maxHops: 30, dnsHosts: ["cloudflare.com"], dnsQueries: 3 };
+
+// Never answers; resolves like a killed process once the signal aborts.
+const hang: CommandRunner = (_command, _args, signal) =>
+  new Promise((resolve) => {
+    signal?.addEventListener("abort", () => resolve({ stdout: "", stderr: "aborted", error: new Error("aborted") }));
+  });
+
+describe("collector stages", () => {
+  it("parses --timeout values", () => {
+    expect(parseTimeouts("speedtest=90")).toEqual({ speedtest: 90 });
+
+    const all = parseTimeouts("20, speedtest=90");
+    expect(Object.keys(all)).toEqual([...STAGES]);
+    expect(all).toMatchObject({ wifi: 20, path: 20, speedtest: 90 });
+
+    expect(() => parseTimeouts("speedtst=90")).toThrow(/^Unknown timeout stage "speedtst"; valid stages: wifi, gateway/);
+    expect(() => parseTimeouts("speedtest=0")).toThrow('Invalid timeout "speedtest=0": expected seconds or <stage>=<seconds>');
+  });
+
+  it("scales the defaults with samples, hops and DNS queries", () => {
+    expect(defaultTimeouts(basis)).toMatchObject({ wifi: 15, router: 22, internet: 22, dns: 11, speedtest: 60, path: 87 });
+    expect(resolveTimeouts({ ...basis, samples: 100 }, { speedtest: 90 })).toMatchObject({ internet: 110, speedtest: 90 });
+  });
+
+  it("kills the commands of a stage that runs out of time", async () => {
+    const { stage, timings } = createStages({
+      timeouts: resolveTimeouts(basis, { speedtest: 0.2 }),
+      run: runCommand,
+      transport: udpTransport,
+      log: silent
+    });
+
+    let sleeping: Promise<CommandResult> | undefined;
+    const startedAt = Date.now();
+    const result = await stage(
+      "speedtest",
+      (run) => (sleeping = run("sleep", ["10"])),
+      (error): CommandResult => ({ stdout: "", stderr: error, error: null })
+    );
+
+    expect(result.stderr).toBe("timeout");
+    expect(timings.speedtest?.error).toBe("timeout");
+    expect((await sleeping)?.error?.name).toBe("AbortError");
+    expect(Date.now() - startedAt).toBeLessThan(5000);
+  });
+
+  it("cancels the running stage and every stage after it", async () => {
+    const controller = new AbortController();
+    const { stage, timings } = createStages({
+      timeouts: resolveTimeouts(basis),
+      signal: controller.signal,
+      run: hang,
+      transport: udpTransport,
+      log: silent
+    });
+
+    const running = stage("wifi", (run) => run("airport", ["-I"]).then(() => "done"), (error) => error);
+    controller.abort();
+
+    expect(await running).toBe("cancelled");
+    expect(await stage("gateway", async () => "done", (error) => error)).toBe("cancelled");
+    expect(timings.gateway).toEqual({ durationMs: 0, error: "cancelled" });
+  });
+
+  it("reports what finished when a stage times out", async () => {
+    const session = await loadReplay(path.join(capturesDir, "macos-healthy"));
+    const run: CommandRunner = (command, args, signal) =>
+      command === "ping" && args.includes("1.1.1.1") ? hang(command, args, signal) : session.run(command, args);
+
+    const output = await collectReport(
+      { ...defaultOptions(), samples: 4, timeouts: { internet: 0.1 } },
+      darwinBackend,
+      silent,
+      run,
+      session.dns
+    );
+
+    expect(output.internet.ping).toMatchObject({ target: "1.1.1.1", avgMs: null, error: "timeout" });
+    expect(output.router.ping).toMatchObject({ avgMs: 4.158, error: null });
+    expect(output.ipv4).toMatchObject({ status: "unknown", reason: "IPv4 check timed out", gateway: "192.168.1.1" });
+    expect(output.meta.stages).toMatchObject({ router: { error: null }, internet: { error: "timeout" } });
+    expect(hasCollectionError(output)).toBe(true);
+    expect(validateSchema(output, OUTPUT_SCHEMA, { strict: true })).toEqual([]);
+    expect(renderPretty(output, false)).toContain("Partial results: internet timed out");
+  });
+});
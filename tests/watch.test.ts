@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import type { OutputData } from "../src/report.js";
+import { createWatchSession, recordSample, renderWatchSummary, runWatch } from "../src/watch.js";
+import { replayedReport } from "./fixtures/report.js";
+
+const base = await replayedReport();
+
+function sample(signalDbm: number, routerMs: number | null, bssid: string, channel: number): OutputData {
+  const wifi = base.wifi && { ...base.wifi, bssid, signalDbm, channel };
+  const ping = base.router.ping && { ...base.router.ping, avgMs: routerMs };
+  return { ...base, timestamp: "2026-10-18T09:00:00.000Z", wifi, router: { ...base.router, ping } };
+}
+
+describe("watch", () => {
+  it("tracks current, min, max and average per metric", () => {
+    let session = createWatchSession();
+    session = recordSample(session, sample(-50, 4, "aa", 36));
+    session = recordSample(session, sample(-60, null, "aa", 36));
+    session = recordSample(session, sample(-70, 8, "aa", 36));
+
+    expect(session.runs).toBe(3);
+    expect(session.signal).toEqual({ current: -70, min: -70, max: -50, avg: -60, count: 3 });
+    expect(session.routerPing).toEqual({ current: 8, min: 4, max: 8, avg: 6, count: 2 });
+  });
+
+  it("counts BSSID and channel changes as roams", () => {
+    let session = createWatchSession();
+    session = recordSample(session, sample(-50, 4, "aa", 36));
+    session = recordSample(session, sample(-50, 4, "bb", 36));
+    session = recordSample(session, sample(-50, 4, "bb", 149));
+    session = recordSample(session, sample(-50, 4, "bb", 149));
+
+    expect(session.roams).toHaveLength(2);
+    expect(session.roams[0]).toMatchObject({ from: { bssid: "aa" }, to: { bssid: "bb" } });
+
+    const summary = renderWatchSummary(session, false, new Date(Date.parse(session.startedAt) + 30_000));
+    expect(summary).toContain("Duration: 30 s");
+    expect(summary).toContain("Roams: 2");
+    expect(summary).toContain("bb ch 36 -> bb ch 149");
+  });
+
+  it("emits NDJSON until aborted", async () => {
+    const controller = new AbortController();
+    const written: string[] = [];
+    let calls = 0;
+
+    const session = await runWatch(
+      async () => {
+        calls += 1;
+        if (calls === 3) controller.abort();
+        return sample(-55, 5, "aa", 36);
+      },
+      { intervalSec: 0.001, format: "json", colorEnabled: false, header: true, clearScreen: false },
+      controller.signal,
+      (text) => written.push(text)
+    );
+
+    expect(session.runs).toBe(2);
+    expect(written).toHaveLength(2);
+    expect(JSON.parse(written[0]).wifi.bssid).toBe("aa");
+  });
+
+  it("hands the collector its signal and drops the run it interrupted", async () => {
+    const controller = new AbortController();
+    const written: string[] = [];
+    let calls = 0;
+
+    const session = await runWatch(
+      async (signal) => {
+        calls += 1;
+        if (calls === 1) return sample(-55, 5, "aa", 36);
+        setTimeout(() => controller.abort(), 10);
+        await new Promise((resolve) => signal.addEventListener("abort", resolve, { once: true }));
+        return sample(-80, 50, "bb", 1);
+      },
+      { intervalSec: 0.001, format: "json", colorEnabled: false, header: true, clearScreen: false },
+      controller.signal,
+      (text) => written.push(text)
+    );
+
+    expect(calls).toBe(2);
+    expect(session.runs).toBe(1);
+    expect(written).toHaveLength(1);
+  });
+
+  it("writes the CSV header only before the first row", async () => {
+    const controller = new AbortController();
+    const written: string[] = [];
+    let calls = 0;
+
+    await runWatch(
+      async () => {
+        calls += 1;
+        if (calls === 4) controller.abort();
+        return sample(-55, 5, "aa", 36);
+      },
+      { intervalSec: 0.001, format: "csv", colorEnabled: false, header: true, clearScreen: false },
+      controller.signal,
+      (text) => written.push(text)
+    );
+
+    const lines = written.join("").trimEnd().split("\n");
+    expect(lines).toHaveLength(4);
+    expect(lines[0]).toMatch(/^timestamp,wifi\.ssid,/);
+    expect(lines[1]).toBe(lines[3]);
+  });
+});